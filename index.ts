@@ -3,6 +3,8 @@ import type { INodeType, INodeTypeDescription, ICredentialType } from 'n8n-workf
 // Import your node classes
 import { DocxToMarkdown } from './nodes/DocxToMarkdown/DocxToMarkdown.node';
 import { HtmlToMarkdown } from './nodes/HtmlToMarkdown/HtmlToMarkdown.node';
+import { MarkdownToDocx } from './nodes/MarkdownToDocx/MarkdownToDocx.node';
+import { OfficeToMarkdown } from './nodes/OfficeToMarkdown/OfficeToMarkdown.node';
 
 // If you add credentials later, import them here
 // import { MyApi } from './credentials/MyApi.credentials';
@@ -11,6 +13,8 @@ import { HtmlToMarkdown } from './nodes/HtmlToMarkdown/HtmlToMarkdown.node';
 export const nodeClasses: INodeType[] = [
 	new DocxToMarkdown(),
 	new HtmlToMarkdown(),
+	new MarkdownToDocx(),
+	new OfficeToMarkdown(),
 ];
 
 // Export credentials (empty for now)
@@ -0,0 +1,104 @@
+import { JSDOM } from 'jsdom';
+import type TurndownService from 'turndown';
+
+/**
+ * Language hints of syntax highlighters: language-xxx / lang-xxx (Prism,
+ * highlight.js, Markdown renderers), highlight-source-xxx (GitHub) and
+ * brush: xxx (SyntaxHighlighter, Confluence)
+ */
+const LANGUAGE_CLASS =
+	/(?:^|\s)(?:lang(?:uage)?-([\w#+.-]+)|highlight-(?:source|text)-([\w#+]+)|brush:\s*([\w#+.-]+))/i;
+
+/**
+ * Class and attribute values that name no language
+ */
+const NO_LANGUAGE = new Set(['none', 'nohighlight', 'plain', 'plaintext', 'text', 'txt']);
+
+function languageOf(element: Element): string | undefined {
+	const attribute =
+		element.getAttribute('data-lang') ?? element.getAttribute('data-language') ?? '';
+	const match = LANGUAGE_CLASS.exec(element.getAttribute('class') ?? '');
+	const language = (attribute.trim() || match?.slice(1).find((group) => group) || '').toLowerCase();
+	return language && !NO_LANGUAGE.has(language) ? language : undefined;
+}
+
+/**
+ * Language of a <pre> block, from its <code>, itself or the highlighter's
+ * wrappers around it
+ */
+export function detectCodeLanguage(pre: Element): string | undefined {
+	const candidates = [
+		pre.querySelector('code'),
+		pre,
+		pre.parentElement,
+		pre.parentElement?.parentElement,
+	];
+	for (const element of candidates) {
+		const language = element && languageOf(element);
+		if (language) return language;
+	}
+	return undefined;
+}
+
+/**
+ * Text of a code block with the line structure highlighters build from
+ * <br> and one element per line
+ */
+function codeText(element: Element): string {
+	let text = '';
+	for (const child of Array.from(element.childNodes)) {
+		if (child.nodeName === 'BR') {
+			text += '\n';
+		} else if (child.nodeType === child.ELEMENT_NODE) {
+			const line = codeText(child as Element);
+			const block = ['DIV', 'P', 'LI', 'TR'].includes(child.nodeName);
+			text += block && line && !line.endsWith('\n') ? `${line}\n` : line;
+		} else {
+			text += child.textContent ?? '';
+		}
+	}
+	return text;
+}
+
+/**
+ * Reduces every <pre> to its plain text and records its language as
+ * data-language, which survive sanitizing unlike line elements, classes and
+ * the highlighter's wrappers
+ */
+export function prepareCodeBlocks(html: string): string {
+	if (!/<pre[\s>]/i.test(html)) return html;
+	const dom = new JSDOM(html);
+	for (const pre of Array.from(dom.window.document.querySelectorAll('pre'))) {
+		const language = detectCodeLanguage(pre);
+		// Turndown's indented code blocks need the <code> element
+		const code = dom.window.document.createElement('code');
+		code.textContent = codeText(pre);
+		pre.replaceChildren(code);
+		if (language) pre.setAttribute('data-language', language);
+	}
+	return dom.serialize();
+}
+
+/**
+ * Fenced code blocks for every <pre>, with or without <code> inside, using
+ * the data-language info string. The fence grows when the code contains one.
+ */
+export function addCodeBlockRule(turndown: TurndownService): void {
+	turndown.addRule('fencedCodeBlock', {
+		filter: (node, options) => options.codeBlockStyle === 'fenced' && node.nodeName === 'PRE',
+		replacement: (_, node, options) => {
+			const pre = node as HTMLElement;
+			const code = (pre.textContent ?? '').replace(/\n$/, '');
+			const language = pre.getAttribute('data-language') ?? '';
+
+			const fenceChar = (options.fence ?? '```').charAt(0);
+			let fenceSize = 3;
+			for (const match of code.matchAll(new RegExp(`^${fenceChar}{3,}`, 'gm'))) {
+				fenceSize = Math.max(fenceSize, match[0].length + 1);
+			}
+			const fence = fenceChar.repeat(fenceSize);
+
+			return `\n\n${fence}${language}\n${code}\n${fence}\n\n`;
+		},
+	});
+}
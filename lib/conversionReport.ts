@@ -0,0 +1,154 @@
+import type { MergedCellStrategy } from './gfmTables';
+
+/**
+ * What was lost or changed on the way to Markdown, to flag documents for review
+ */
+export interface ConversionReport {
+	/**
+	 * Document styles without a mapping (DOCX only)
+	 */
+	unrecognisedStyles: string[];
+	/**
+	 * Unsupported elements that were removed, by tag name. Their text is kept,
+	 * except for scripts, styles and the like. Images are not counted here,
+	 * filtered ones are in removedImages.
+	 */
+	droppedElements: Record<string, number>;
+	/**
+	 * Targets of links removed by the domain filter
+	 */
+	removedLinks: string[];
+	/**
+	 * Sources of images removed by the domain filter
+	 */
+	removedImages: string[];
+	/**
+	 * Whether the output was cut at the maximum length
+	 */
+	truncated: boolean;
+	/**
+	 * Length of the Markdown before it was truncated, in characters
+	 */
+	originalLength?: number;
+	imagesConverted: number;
+	/**
+	 * Tables with merged cells, by how they were rendered instead of a GFM table
+	 */
+	tableFallbacks: Record<MergedCellStrategy, number>;
+	errors: number;
+	/**
+	 * 1 for a lossless conversion, lower the more was dropped or approximated
+	 */
+	fidelityScore: number;
+}
+
+/**
+ * Elements the sanitizer removes by design, which do not count as lost content
+ */
+const NON_CONTENT_TAGS = new Set([
+	'base',
+	'head',
+	'link',
+	'meta',
+	'noscript',
+	'script',
+	'style',
+	'template',
+	'title',
+]);
+
+/**
+ * Score deductions per occurrence, and the most each kind can take off
+ */
+const PENALTIES = {
+	error: [0.15, 0.6],
+	truncated: [0.2, 0.2],
+	droppedElement: [0.02, 0.2],
+	removedLink: [0.02, 0.1],
+	removedImage: [0.02, 0.1],
+	unrecognisedStyle: [0.02, 0.1],
+	tableAsHtml: [0.03, 0.15],
+	flattenedTable: [0.05, 0.2],
+	skippedTable: [0.15, 0.45],
+} as const;
+
+export function createConversionReport(): ConversionReport {
+	return {
+		unrecognisedStyles: [],
+		droppedElements: {},
+		removedLinks: [],
+		removedImages: [],
+		truncated: false,
+		imagesConverted: 0,
+		tableFallbacks: { html: 0, flatten: 0, skip: 0 },
+		errors: 0,
+		fidelityScore: 1,
+	};
+}
+
+export function addDroppedElement(report: ConversionReport, tagName: string): void {
+	report.droppedElements[tagName] = (report.droppedElements[tagName] ?? 0) + 1;
+}
+
+/**
+ * Sets the fidelity score from the rest of the report and returns the report
+ */
+export function scoreConversion(report: ConversionReport): ConversionReport {
+	const deduct = (penalty: keyof typeof PENALTIES, count: number) =>
+		Math.min(count * PENALTIES[penalty][0], PENALTIES[penalty][1]);
+
+	const droppedContent = Object.entries(report.droppedElements)
+		.filter(([tag]) => !NON_CONTENT_TAGS.has(tag))
+		.reduce((total, [, count]) => total + count, 0);
+
+	const score =
+		1 -
+		deduct('error', report.errors) -
+		deduct('truncated', report.truncated ? 1 : 0) -
+		deduct('droppedElement', droppedContent) -
+		deduct('removedLink', report.removedLinks.length) -
+		deduct('removedImage', report.removedImages.length) -
+		deduct('unrecognisedStyle', report.unrecognisedStyles.length) -
+		deduct('tableAsHtml', report.tableFallbacks.html) -
+		deduct('flattenedTable', report.tableFallbacks.flatten) -
+		deduct('skippedTable', report.tableFallbacks.skip);
+
+	report.fidelityScore = Math.max(0, Math.round(score * 100) / 100);
+	return report;
+}
+
+/**
+ * One readable warning per kind of problem in the report
+ */
+export function describeReport(report: ConversionReport): string[] {
+	const warnings: string[] = [];
+	const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+	const dropped = Object.entries(report.droppedElements).filter(
+		([tag]) => !NON_CONTENT_TAGS.has(tag),
+	);
+	if (dropped.length) {
+		warnings.push(
+			`Removed unsupported elements: ${dropped.map(([tag, count]) => `${tag} (${count})`).join(', ')}`,
+		);
+	}
+	if (report.removedLinks.length) {
+		warnings.push(`Removed ${plural(report.removedLinks.length, 'link')} to filtered domains`);
+	}
+	if (report.removedImages.length) {
+		warnings.push(`Removed ${plural(report.removedImages.length, 'image')} from filtered domains`);
+	}
+	if (report.unrecognisedStyles.length) {
+		warnings.push(`Styles without a mapping: ${report.unrecognisedStyles.join(', ')}`);
+	}
+	const { html, flatten, skip } = report.tableFallbacks;
+	if (html) warnings.push(`${plural(html, 'table')} with merged cells kept as HTML`);
+	if (flatten) warnings.push(`${plural(flatten, 'table')} with merged cells flattened`);
+	if (skip) warnings.push(`${plural(skip, 'table')} with merged cells skipped`);
+	if (report.truncated) {
+		const original = report.originalLength ? ` (${report.originalLength} characters before)` : '';
+		warnings.push(`The output was truncated to the maximum length${original}`);
+	}
+
+	return warnings;
+}
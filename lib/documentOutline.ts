@@ -0,0 +1,218 @@
+export type OutlineBlockType =
+	| 'heading'
+	| 'paragraph'
+	| 'list'
+	| 'table'
+	| 'image'
+	| 'code'
+	| 'blockquote'
+	| 'thematicBreak';
+
+export interface OutlineBlock {
+	type: OutlineBlockType;
+	/**
+	 * Order of the block in the document, starting at 0
+	 */
+	position: number;
+	text: string;
+	/**
+	 * Heading level (1-6), or nesting depth for lists
+	 */
+	level?: number;
+	ordered?: boolean;
+	items?: string[];
+	rows?: string[][];
+	src?: string;
+	alt?: string;
+	language?: string;
+}
+
+export interface DocumentStats {
+	headings: number;
+	paragraphs: number;
+	words: number;
+	characters: number;
+	lists: number;
+	tables: number;
+	images: number;
+	links: number;
+	codeBlocks: number;
+}
+
+export interface DocumentOutline {
+	blocks: OutlineBlock[];
+	stats: DocumentStats;
+}
+
+const CONTAINERS = new Set([
+	'ARTICLE',
+	'ASIDE',
+	'BODY',
+	'DIV',
+	'FIGURE',
+	'FOOTER',
+	'HEADER',
+	'MAIN',
+	'NAV',
+	'SECTION',
+]);
+
+/**
+ * Elements whose text is a block of its own, kept apart from its neighbours
+ */
+const BLOCK_TAGS =
+	/^(ADDRESS|ARTICLE|ASIDE|BLOCKQUOTE|BR|DD|DIV|DL|DT|FIGCAPTION|FIGURE|FOOTER|H[1-6]|HEADER|HR|LI|MAIN|NAV|OL|P|PRE|SECTION|TABLE|TD|TH|TR|UL)$/;
+
+function cleanText(node: Node): string {
+	let text = '';
+	const walk = (current: Node) => {
+		if (current.nodeType === current.TEXT_NODE) {
+			text += current.textContent ?? '';
+			return;
+		}
+		if (current.nodeType !== current.ELEMENT_NODE) return;
+		const block = BLOCK_TAGS.test(current.nodeName);
+		if (block) text += ' ';
+		current.childNodes.forEach(walk);
+		if (block) text += ' ';
+	};
+	walk(node);
+	return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * mammoth's footnote and endnote list and comment list, which follow the
+ * document rather than being part of it
+ */
+function isNoteContainer(element: Element): boolean {
+	const ids = Array.from(element.children, (child) => child.getAttribute('id') ?? '');
+	if (element.nodeName === 'OL') {
+		return ids.length > 0 && ids.every((id) => /^(footnote|endnote)-/.test(id));
+	}
+	return element.nodeName === 'DL' && ids.some((id) => id.startsWith('comment-'));
+}
+
+/**
+ * The "↑" link from a note back to its reference
+ */
+function isBackLink(link: Element): boolean {
+	return /^#.*-ref-/.test(link.getAttribute('href') ?? '');
+}
+
+function imageBlock(image: Element): Omit<OutlineBlock, 'position'> {
+	const src = image.getAttribute('src') ?? '';
+	return {
+		type: 'image',
+		text: image.getAttribute('alt') ?? '',
+		// Data URIs would bloat the outline, only their type is kept
+		src: src.startsWith('data:') ? src.slice(0, src.indexOf(',') + 1) : src,
+		alt: image.getAttribute('alt') ?? '',
+	};
+}
+
+/**
+ * Builds a flat list of the document's blocks (headings, paragraphs, lists,
+ * tables, images, code) from an HTML DOM, plus summary statistics. Note and
+ * comment lists are left out.
+ */
+export function buildOutline(root: Element): DocumentOutline {
+	const blocks: OutlineBlock[] = [];
+	const noteContainers: Element[] = [];
+	const push = (block: Omit<OutlineBlock, 'position'>) =>
+		blocks.push({ position: blocks.length, ...block } as OutlineBlock);
+
+	const visitList = (list: Element, level: number) => {
+		const items = Array.from(list.children).filter((child) => child.nodeName === 'LI');
+		const texts = items.map((item) => {
+			const clone = item.cloneNode(true) as Element;
+			clone.querySelectorAll('ul, ol').forEach((nested) => nested.remove());
+			return cleanText(clone);
+		});
+		push({
+			type: 'list',
+			level,
+			ordered: list.nodeName === 'OL',
+			text: texts.join('\n'),
+			items: texts,
+		});
+		for (const item of items) {
+			for (const nested of Array.from(item.querySelectorAll('ul, ol'))) {
+				if (nested.parentElement?.closest('li') === item) visitList(nested, level + 1);
+			}
+		}
+	};
+
+	const visit = (element: Element) => {
+		const tag = element.nodeName;
+
+		if (isNoteContainer(element)) {
+			noteContainers.push(element);
+		} else if (/^H[1-6]$/.test(tag)) {
+			const text = cleanText(element);
+			if (text) push({ type: 'heading', level: Number(tag.slice(1)), text });
+		} else if (tag === 'P') {
+			const text = cleanText(element);
+			if (text) push({ type: 'paragraph', text });
+			element.querySelectorAll('img').forEach((image) => push(imageBlock(image)));
+		} else if (tag === 'UL' || tag === 'OL') {
+			visitList(element, 1);
+		} else if (tag === 'TABLE') {
+			const rows = Array.from(element.querySelectorAll('tr'))
+				.filter((row) => row.closest('table') === element)
+				.map((row) =>
+					Array.from(row.children)
+						.filter((cell) => cell.nodeName === 'TD' || cell.nodeName === 'TH')
+						.map(cleanText),
+				);
+			push({ type: 'table', text: rows.map((row) => row.join(' | ')).join('\n'), rows });
+		} else if (tag === 'PRE') {
+			const code = element.querySelector('code');
+			const language = /(?:^|\s)(?:language|lang)-([\w+#-]+)/.exec(
+				code?.getAttribute('class') ?? '',
+			)?.[1];
+			push({ type: 'code', text: element.textContent ?? '', ...(language ? { language } : {}) });
+		} else if (tag === 'BLOCKQUOTE') {
+			push({ type: 'blockquote', text: cleanText(element) });
+		} else if (tag === 'HR') {
+			push({ type: 'thematicBreak', text: '' });
+		} else if (tag === 'IMG') {
+			push(imageBlock(element));
+		} else if (CONTAINERS.has(tag)) {
+			Array.from(element.children).forEach(visit);
+		} else {
+			const text = cleanText(element);
+			if (text) push({ type: 'paragraph', text });
+		}
+	};
+
+	Array.from(root.children).forEach(visit);
+
+	// Counted per block, textContent alone would glue adjacent blocks together
+	const text = blocks
+		.filter((block) => block.type !== 'image')
+		// Table cells without the " | " between them, which is no word
+		.map((block) => (block.rows ? block.rows.flat().join(' ') : block.text))
+		.map((blockText) => blockText.replace(/\s+/g, ' ').trim())
+		.filter((blockText) => blockText)
+		.join(' ');
+	const count = (type: OutlineBlockType) => blocks.filter((block) => block.type === type).length;
+	const inDocument = (element: Element) =>
+		!noteContainers.some((container) => container.contains(element));
+
+	return {
+		blocks,
+		stats: {
+			headings: count('heading'),
+			paragraphs: count('paragraph'),
+			words: text ? text.split(' ').length : 0,
+			characters: text.length,
+			lists: count('list'),
+			tables: count('table'),
+			images: Array.from(root.querySelectorAll('img')).filter(inDocument).length,
+			links: Array.from(root.querySelectorAll('a[href]')).filter(
+				(link) => inDocument(link) && !isBackLink(link),
+			).length,
+			codeBlocks: count('code'),
+		},
+	};
+}
@@ -0,0 +1,102 @@
+import mammoth from 'mammoth';
+import type TurndownService from 'turndown';
+
+export type ImageHandling = 'inline' | 'extract' | 'drop' | 'placeholder';
+
+type ImageConverter = ReturnType<typeof mammoth.images.imgElement>;
+
+export interface ExtractedImage {
+	/**
+	 * Binary property name the image is emitted under (image_0, image_1, ...)
+	 */
+	name: string;
+	fileName: string;
+	contentType: string;
+	/**
+	 * Size of the image in bytes
+	 */
+	size: number;
+	altText: string;
+	data: Buffer;
+}
+
+const EXTENSIONS: Record<string, string> = {
+	'image/bmp': 'bmp',
+	'image/gif': 'gif',
+	'image/jpeg': 'jpg',
+	'image/jpg': 'jpg',
+	'image/png': 'png',
+	'image/svg+xml': 'svg',
+	'image/tiff': 'tif',
+	'image/webp': 'webp',
+	'image/x-emf': 'emf',
+	'image/x-wmf': 'wmf',
+};
+
+/**
+ * File extension for an image content type, falling back to the MIME subtype
+ */
+export function imageExtension(contentType: string): string {
+	const type = contentType.toLowerCase();
+	if (EXTENSIONS[type]) return EXTENSIONS[type];
+	const subtype = type.split('/')[1] ?? '';
+	return subtype.replace(/^x-/, '').replace(/[^a-z0-9]/g, '') || 'bin';
+}
+
+/**
+ * Image content type for a file name, based on its extension
+ */
+export function imageContentType(fileName: string): string {
+	const extension = fileName.toLowerCase().split('.').pop() ?? '';
+	const known = Object.entries(EXTENSIONS).find(([, value]) => value === extension)?.[0];
+	if (known) return known;
+	return extension === 'jpeg' ? 'image/jpeg' : `image/${extension || 'png'}`;
+}
+
+/**
+ * Builds the mammoth image converter for the selected handling mode.
+ * Every image is recorded in `images` so callers can emit a manifest and,
+ * in extract mode, the image binaries themselves.
+ */
+export function createImageConverter(
+	mode: ImageHandling,
+	imageFolder = 'images',
+): { convertImage: ImageConverter; images: ExtractedImage[] } {
+	const images: ExtractedImage[] = [];
+
+	const convertImage = mammoth.images.imgElement(async (image) => {
+		const data = await image.read();
+		const contentType = image.contentType || 'image/png';
+		const name = `image_${images.length}`;
+		const fileName = `${name}.${imageExtension(contentType)}`;
+		const altText = (image as { altText?: string }).altText ?? '';
+
+		images.push({ name, fileName, contentType, size: data.length, altText, data });
+
+		const attributes: { src: string } & Record<string, string> = { src: '' };
+		if (mode === 'inline') {
+			attributes.src = `data:${contentType};base64,${Buffer.from(data).toString('base64')}`;
+		} else if (mode === 'extract') {
+			attributes.src = imageFolder ? `${imageFolder}/${fileName}` : fileName;
+		} else if (mode === 'placeholder') {
+			attributes['data-image-name'] = name;
+		}
+		return attributes;
+	});
+
+	return { convertImage, images };
+}
+
+/**
+ * Renders images as a `[Image: alt text]` marker instead of a Markdown image
+ */
+export function addImagePlaceholderRule(td: TurndownService): void {
+	td.addRule('imagePlaceholder', {
+		filter: (node) => node.nodeName === 'IMG' && node.hasAttribute('data-image-name'),
+		replacement: (_content, node) => {
+			const element = node as HTMLElement;
+			const label = element.getAttribute('alt') || element.getAttribute('data-image-name');
+			return `[Image: ${label}]`;
+		},
+	});
+}
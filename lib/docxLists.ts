@@ -0,0 +1,195 @@
+import { W_NS, wAttr, wElements, type DocxPackage } from './docxPackage';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Private use characters around the number of an ordered list paragraph,
+ * read and removed once mammoth is done
+ */
+const NUMBER_START = '\uE010';
+const NUMBER_END = '\uE011';
+const NUMBER_MARK = new RegExp(`${NUMBER_START}(\\d+)${NUMBER_END}`, 'g');
+
+interface NumberingLevel {
+	start: number;
+	ordered: boolean;
+}
+
+interface NumberingInstance {
+	abstractNumId: string;
+	startOverrides: Map<number, number>;
+}
+
+interface ListReference {
+	numId: string;
+	level: number;
+}
+
+function wVal(element: Element | undefined, name: string): string | undefined {
+	const child = element && wElements(element, name)[0];
+	return child ? (wAttr(child, 'val') ?? undefined) : undefined;
+}
+
+/**
+ * Direct w: children of an element
+ */
+function wChildren(element: Element, localName: string): Element[] {
+	return Array.from(element.children).filter(
+		(child) => child.namespaceURI === W_NS && child.localName === localName,
+	);
+}
+
+function readNumPr(properties: Element | undefined): Partial<ListReference> {
+	const numPr = properties && wChildren(properties, 'numPr')[0];
+	if (!numPr) return {};
+	const level = wVal(numPr, 'ilvl');
+	return { numId: wVal(numPr, 'numId'), level: level === undefined ? undefined : Number(level) };
+}
+
+/**
+ * List references of paragraph styles (e.g. "List Number"), following basedOn
+ */
+function readStyleNumbering(styles: Document | undefined): Map<string, Partial<ListReference>> {
+	const own = new Map<string, { numbering: Partial<ListReference>; basedOn?: string }>();
+	for (const style of styles ? wElements(styles, 'style') : []) {
+		if (wAttr(style, 'type') !== 'paragraph') continue;
+		own.set(wAttr(style, 'styleId') ?? '', {
+			numbering: readNumPr(wChildren(style, 'pPr')[0]),
+			basedOn: wVal(style, 'basedOn'),
+		});
+	}
+
+	const resolved = new Map<string, Partial<ListReference>>();
+	const resolve = (styleId: string, depth = 0): Partial<ListReference> => {
+		const style = own.get(styleId);
+		if (!style || depth > 10) return {};
+		const inherited = style.basedOn ? resolve(style.basedOn, depth + 1) : {};
+		return { ...inherited, ...style.numbering };
+	};
+	for (const styleId of own.keys()) resolved.set(styleId, resolve(styleId));
+	return resolved;
+}
+
+function markRun(document: Document, text: string): Element {
+	const run = document.createElementNS(W_NS, 'w:r');
+	const textElement = document.createElementNS(W_NS, 'w:t');
+	textElement.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+	textElement.textContent = text;
+	run.appendChild(textElement);
+	return run;
+}
+
+/**
+ * Marks every paragraph of a Word ordered list with the number Word shows
+ * for it. mammoth starts every list it emits at 1, which loses restarted
+ * numbering (startOverride) and lists continued after other paragraphs.
+ * Returns the buffer to hand to mammoth, undefined when mammoth's own
+ * counting already gives every item Word's number.
+ */
+export async function markListNumbers(pkg: DocxPackage): Promise<Buffer | undefined> {
+	const numberingXml = await pkg.readXml('word/numbering.xml');
+	if (!numberingXml) return undefined;
+
+	const abstractLevels = new Map<string, Map<number, NumberingLevel>>();
+	for (const abstractNum of wElements(numberingXml, 'abstractNum')) {
+		const levels = new Map<number, NumberingLevel>();
+		for (const level of wChildren(abstractNum, 'lvl')) {
+			const format = wVal(level, 'numFmt') ?? 'decimal';
+			levels.set(Number(wAttr(level, 'ilvl') ?? 0), {
+				start: Number(wVal(level, 'start') ?? 1),
+				ordered: format !== 'bullet' && format !== 'none',
+			});
+		}
+		abstractLevels.set(wAttr(abstractNum, 'abstractNumId') ?? '', levels);
+	}
+	if (![...abstractLevels.values()].some((levels) => [...levels.values()].some((l) => l.ordered))) {
+		return undefined;
+	}
+
+	const instances = new Map<string, NumberingInstance>();
+	for (const num of wElements(numberingXml, 'num')) {
+		const startOverrides = new Map<number, number>();
+		for (const override of wChildren(num, 'lvlOverride')) {
+			const start = wVal(override, 'startOverride');
+			if (start !== undefined)
+				startOverrides.set(Number(wAttr(override, 'ilvl') ?? 0), Number(start));
+		}
+		instances.set(wAttr(num, 'numId') ?? '', {
+			abstractNumId: wVal(num, 'abstractNumId') ?? '',
+			startOverrides,
+		});
+	}
+
+	const document = await pkg.readXml('word/document.xml');
+	if (!document) return undefined;
+	const styleNumbering = readStyleNumbering(await pkg.readXml('word/styles.xml'));
+
+	// Instances of the same abstract list share their counters, unless they restart it
+	const counters = new Map<string, number[]>();
+	// mammoth's numbers: counted from 1 per level within a run of list paragraphs
+	let mammothCounters: number[] = [];
+	const marks: Array<{ paragraph: Element; properties?: Element; number: number }> = [];
+	let renumbered = false;
+	for (const paragraph of wElements(document, 'p')) {
+		const properties = wChildren(paragraph, 'pPr')[0];
+		const style = properties && wVal(properties, 'pStyle');
+		const reference = { ...(style ? styleNumbering.get(style) : {}), ...readNumPr(properties) };
+		const instance = reference.numId && instances.get(reference.numId);
+		if (!instance) {
+			mammothCounters = [];
+			continue;
+		}
+
+		const level = reference.level ?? 0;
+		const definition = abstractLevels.get(instance.abstractNumId)?.get(level);
+		if (!definition?.ordered) {
+			mammothCounters.length = Math.min(mammothCounters.length, level);
+			continue;
+		}
+
+		const key = instance.startOverrides.size
+			? `num:${reference.numId}`
+			: `abstract:${instance.abstractNumId}`;
+		const levels = counters.get(key) ?? [];
+		counters.set(key, levels);
+		const number =
+			levels[level] === undefined
+				? (instance.startOverrides.get(level) ?? definition.start)
+				: levels[level] + 1;
+		levels[level] = number;
+		// A new item restarts the levels below it
+		levels.length = level + 1;
+
+		const mammothNumber = (mammothCounters[level] ?? 0) + 1;
+		mammothCounters[level] = mammothNumber;
+		mammothCounters.length = level + 1;
+		renumbered ||= number !== mammothNumber;
+
+		marks.push({ paragraph, properties, number });
+	}
+	// Rewriting the package is only worth it when a number differs
+	if (!renumbered) return undefined;
+
+	for (const { paragraph, properties, number } of marks) {
+		const mark = markRun(document, `${NUMBER_START}${number}${NUMBER_END}`);
+		paragraph.insertBefore(mark, properties ? properties.nextSibling : paragraph.firstChild);
+	}
+
+	const serializer = new document.defaultView!.XMLSerializer();
+	pkg.zip.file('word/document.xml', serializer.serializeToString(document));
+	return pkg.zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Gives ordered lists in mammoth's output the start number of their first
+ * item and removes the number marks
+ */
+export function renderListNumbers(html: string): string {
+	return html
+		.replace(
+			new RegExp(`<ol([^>]*)>(<li[^>]*>)${NUMBER_START}(\\d+)${NUMBER_END}`, 'g'),
+			(_, attributes: string, item: string, number: string) =>
+				number === '1' ? `<ol${attributes}>${item}` : `<ol${attributes} start="${number}">${item}`,
+		)
+		.replace(NUMBER_MARK, '');
+}
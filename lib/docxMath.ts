@@ -0,0 +1,319 @@
+import { parseXml, W_NS, wElements, type DocxPackage } from './docxPackage';
+import { MATHML_NS } from './mathml';
+
+/**
+ * Office Math Markup Language namespace (the `m:` prefix)
+ */
+export const M_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/math';
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Private use characters around the index of an equation, replaced with
+ * its MathML once mammoth is done (mammoth drops equations)
+ */
+const EQUATION_START = '\uE020';
+const EQUATION_END = '\uE021';
+const EQUATION_MARK = new RegExp(`${EQUATION_START}(\\d+)${EQUATION_END}`, 'g');
+
+/**
+ * Parts mammoth converts that can hold equations
+ */
+const MATH_PARTS = ['word/document.xml', 'word/footnotes.xml', 'word/endnotes.xml'];
+
+/**
+ * Characters Word uses when m:acc, m:nary and m:groupChr name none
+ */
+const DEFAULT_ACCENT = '\u0302';
+const DEFAULT_NARY = '∫';
+const DEFAULT_GROUP_CHAR = '⏟';
+
+function mChildren(element: Element, localName?: string): Element[] {
+	return Array.from(element.children).filter(
+		(child) => child.namespaceURI === M_NS && (!localName || child.localName === localName),
+	);
+}
+
+function mChild(element: Element, localName: string): Element | undefined {
+	return mChildren(element, localName)[0];
+}
+
+/**
+ * m:val of a property element, e.g. `<m:fPr><m:type m:val="noBar"/></m:fPr>`
+ */
+function mProperty(element: Element, properties: string, name: string): string | undefined {
+	const property = mChild(element, properties);
+	const value = property && mChild(property, name);
+	if (!value) return undefined;
+	return value.getAttributeNS(M_NS, 'val') ?? value.getAttribute('m:val') ?? '';
+}
+
+function isOn(value: string | undefined): boolean {
+	return value !== undefined && !['0', 'false', 'off'].includes(value);
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function tag(name: string, content: string, attributes = ''): string {
+	return `<${name}${attributes}>${content}</${name}>`;
+}
+
+function mo(char: string): string {
+	return char ? tag('mo', escapeXml(char)) : '';
+}
+
+/**
+ * Splits the text of a math run into identifiers, numbers and operators
+ */
+function runTokens(text: string, style: string | undefined): string {
+	if (style === 'p' && /^[a-zA-Z]{2,}$/.test(text.trim())) {
+		return tag('mi', escapeXml(text.trim()), ' mathvariant="normal"');
+	}
+	const variant = style === 'b' || style === 'bi' ? ' mathvariant="bold"' : '';
+	let tokens = '';
+	for (const [token] of text.matchAll(/\d+(?:\.\d+)?|\p{L}|\S/gu)) {
+		if (/^\d/.test(token)) tokens += tag('mn', token);
+		else if (/\p{L}/u.test(token)) tokens += tag('mi', escapeXml(token), variant);
+		else tokens += mo(token);
+	}
+	return tokens;
+}
+
+function runText(element: Element): string {
+	return Array.from(element.children)
+		.filter((child) => child.localName === 't')
+		.map((child) => child.textContent ?? '')
+		.join('');
+}
+
+function run(element: Element): string {
+	const properties = mChild(element, 'rPr');
+	// Normal text inside an equation
+	if (properties && mChild(properties, 'nor')) return tag('mtext', escapeXml(runText(element)));
+	return runTokens(runText(element), mProperty(element, 'rPr', 'sty'));
+}
+
+/**
+ * The runs of m:fName hold the function name, upright whatever their style: Word often
+ * leaves out m:sty="p" and may split the name over several runs
+ */
+function functionName(element: Element | undefined): string {
+	if (!element) return tag('mrow', '');
+	let content = '';
+	let name = '';
+	const flush = () => {
+		if (name.trim()) content += tag('mi', escapeXml(name.trim()), ' mathvariant="normal"');
+		name = '';
+	};
+	for (const child of Array.from(element.children)) {
+		if (child.namespaceURI === M_NS && child.localName === 'r') {
+			name += runText(child);
+			continue;
+		}
+		flush();
+		content += convert(child);
+	}
+	flush();
+	return tag('mrow', content);
+}
+
+function children(element: Element | undefined): string {
+	if (!element) return '';
+	return Array.from(element.children).map(convert).join('');
+}
+
+function argument(element: Element, name: string): string {
+	return tag('mrow', children(mChild(element, name)));
+}
+
+function convert(element: Element): string {
+	// Regular Word runs inside an equation hold text
+	if (element.namespaceURI === W_NS) {
+		return element.localName === 'r'
+			? tag(
+					'mtext',
+					escapeXml(
+						wElements(element, 't')
+							.map((t) => t.textContent)
+							.join(''),
+					),
+				)
+			: '';
+	}
+	if (element.namespaceURI !== M_NS) return '';
+
+	switch (element.localName) {
+		case 'r':
+			return run(element);
+		case 'f': {
+			const type = mProperty(element, 'fPr', 'type');
+			const num = argument(element, 'num');
+			const den = argument(element, 'den');
+			if (type === 'lin') return tag('mrow', `${num}${mo('/')}${den}`);
+			return tag('mfrac', num + den, type === 'noBar' ? ' linethickness="0"' : '');
+		}
+		case 'sSup':
+			return tag('msup', argument(element, 'e') + argument(element, 'sup'));
+		case 'sSub':
+			return tag('msub', argument(element, 'e') + argument(element, 'sub'));
+		case 'sSubSup':
+			return tag(
+				'msubsup',
+				argument(element, 'e') + argument(element, 'sub') + argument(element, 'sup'),
+			);
+		case 'sPre':
+			return tag(
+				'mmultiscripts',
+				`${argument(element, 'e')}<none/><none/><mprescripts/>${argument(element, 'sub')}${argument(element, 'sup')}`,
+			);
+		case 'rad': {
+			const degree = mChild(element, 'deg');
+			const hidden = isOn(mProperty(element, 'radPr', 'degHide'));
+			if (hidden || !degree?.textContent?.trim()) return tag('msqrt', argument(element, 'e'));
+			return tag('mroot', argument(element, 'e') + argument(element, 'deg'));
+		}
+		case 'nary': {
+			const operator = mo(mProperty(element, 'naryPr', 'chr') || DEFAULT_NARY);
+			const sub = isOn(mProperty(element, 'naryPr', 'subHide')) ? '' : argument(element, 'sub');
+			const sup = isOn(mProperty(element, 'naryPr', 'supHide')) ? '' : argument(element, 'sup');
+			const limits = mProperty(element, 'naryPr', 'limLoc') === 'subSup' ? 'msub' : 'munder';
+			let base = operator;
+			if (sub && sup)
+				base = tag(limits === 'msub' ? 'msubsup' : 'munderover', operator + sub + sup);
+			else if (sub) base = tag(limits, operator + sub);
+			else if (sup) base = tag(limits === 'msub' ? 'msup' : 'mover', operator + sup);
+			return tag('mrow', base + argument(element, 'e'));
+		}
+		case 'd': {
+			const begin = mProperty(element, 'dPr', 'begChr') ?? '(';
+			const end = mProperty(element, 'dPr', 'endChr') ?? ')';
+			const separator = mProperty(element, 'dPr', 'sepChr') ?? '|';
+			const items = mChildren(element, 'e').map((item) => tag('mrow', children(item)));
+			return tag('mrow', mo(begin) + items.join(mo(separator)) + mo(end));
+		}
+		case 'func':
+			return tag(
+				'mrow',
+				functionName(mChild(element, 'fName')) + mo('\u2061') + argument(element, 'e'),
+			);
+		case 'limLow':
+			return tag('munder', argument(element, 'e') + argument(element, 'lim'));
+		case 'limUpp':
+			return tag('mover', argument(element, 'e') + argument(element, 'lim'));
+		case 'acc': {
+			const accent = mProperty(element, 'accPr', 'chr') || DEFAULT_ACCENT;
+			return tag('mover', argument(element, 'e') + mo(accent), ' accent="true"');
+		}
+		case 'bar':
+			return mProperty(element, 'barPr', 'pos') === 'top'
+				? tag('mover', argument(element, 'e') + mo('¯'), ' accent="true"')
+				: tag('munder', argument(element, 'e') + mo('_'), ' accentunder="true"');
+		case 'groupChr': {
+			const char = mo(mProperty(element, 'groupChrPr', 'chr') || DEFAULT_GROUP_CHAR);
+			return mProperty(element, 'groupChrPr', 'pos') === 'top'
+				? tag('mover', argument(element, 'e') + char)
+				: tag('munder', argument(element, 'e') + char);
+		}
+		case 'borderBox':
+			return tag('menclose', argument(element, 'e'), ' notation="box"');
+		case 'eqArr':
+			return tag(
+				'mtable',
+				mChildren(element, 'e')
+					.map((line) => tag('mtr', tag('mtd', children(line))))
+					.join(''),
+			);
+		case 'm':
+			return tag(
+				'mtable',
+				mChildren(element, 'mr')
+					.map((matrixRow) =>
+						tag(
+							'mtr',
+							mChildren(matrixRow, 'e')
+								.map((cell) => tag('mtd', children(cell)))
+								.join(''),
+						),
+					)
+					.join(''),
+			);
+		case 'oMath':
+		case 'box':
+		case 'phant':
+		case 'e':
+			return tag('mrow', children(element));
+		default:
+			// Property elements (m:fPr, m:ctrlPr, ...) hold no content
+			return element.localName.endsWith('Pr') ? '' : children(element);
+	}
+}
+
+/**
+ * Converts an m:oMath element to a MathML `<math>` element
+ */
+export function ommlToMathml(oMath: Element, display = false): string {
+	return tag('math', children(oMath), ` xmlns="${MATHML_NS}"${display ? ' display="block"' : ''}`);
+}
+
+function markRun(document: Document, index: number): Element {
+	const run = document.createElementNS(W_NS, 'w:r');
+	const text = document.createElementNS(W_NS, 'w:t');
+	text.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+	text.textContent = `${EQUATION_START}${index}${EQUATION_END}`;
+	run.appendChild(text);
+	return run;
+}
+
+/**
+ * Replaces the equations of the document, footnotes and endnotes with marks
+ * and returns their MathML, in mark order. The buffer to hand to mammoth is
+ * undefined when there are no equations.
+ */
+export async function extractEquations(
+	pkg: DocxPackage,
+): Promise<{ buffer?: Buffer; equations: string[] }> {
+	const equations: string[] = [];
+
+	for (const path of MATH_PARTS) {
+		// Parsing is skipped for the parts without any equation, which is nearly every document
+		const xml = await pkg.readText(path);
+		if (!xml?.includes('oMath')) continue;
+		const document = parseXml(xml);
+
+		const found = Array.from(document.getElementsByTagNameNS(M_NS, 'oMath'));
+		if (found.length === 0) continue;
+
+		// A math paragraph is display math, holding one or more equations
+		for (const paragraph of Array.from(document.getElementsByTagNameNS(M_NS, 'oMathPara'))) {
+			const lines = mChildren(paragraph, 'oMath');
+			const mathml =
+				lines.length === 1
+					? ommlToMathml(lines[0], true)
+					: tag(
+							'math',
+							tag('mtable', lines.map((line) => tag('mtr', tag('mtd', children(line)))).join('')),
+							` xmlns="${MATHML_NS}" display="block"`,
+						);
+			paragraph.replaceWith(markRun(document, equations.push(mathml) - 1));
+		}
+		for (const oMath of Array.from(document.getElementsByTagNameNS(M_NS, 'oMath'))) {
+			oMath.replaceWith(markRun(document, equations.push(ommlToMathml(oMath)) - 1));
+		}
+
+		const serializer = new document.defaultView!.XMLSerializer();
+		pkg.zip.file(path, serializer.serializeToString(document));
+	}
+
+	const buffer = equations.length ? await pkg.zip.generateAsync({ type: 'nodebuffer' }) : undefined;
+	return { buffer, equations };
+}
+
+/**
+ * Puts the MathML of the equations back in place of their marks
+ */
+export function renderEquations(html: string, equations: string[]): string {
+	if (equations.length === 0) return html;
+	return html.replace(EQUATION_MARK, (_, index: string) => equations[Number(index)] ?? '');
+}
@@ -0,0 +1,108 @@
+import { parseXml, wAttr, wElements, W_NS, type DocxPackage } from './docxPackage';
+
+/**
+ * What a mammoth message is about, so workflows can react to some kinds and
+ * ignore others
+ */
+export type DocxMessageCategory =
+	| 'unmappedStyle'
+	| 'undefinedStyle'
+	| 'invalidStyleMapping'
+	| 'unsupportedElement'
+	| 'image'
+	| 'other';
+
+export interface DocxMessage {
+	/**
+	 * Errors mean content was lost, e.g. an image that could not be converted
+	 */
+	type: 'warning' | 'error';
+	category: DocxMessageCategory;
+	message: string;
+	/**
+	 * Name of the ignored element, for unsupported elements
+	 */
+	element?: string;
+}
+
+/**
+ * Namespace of Word 2010 checkbox content controls (`w14:checkbox`)
+ */
+const W14_NS = 'http://schemas.microsoft.com/office/word/2010/wordml';
+
+/**
+ * Parts mammoth converts that can hold checkbox content controls
+ */
+const CHECKBOX_PARTS = [
+	'word/document.xml',
+	'word/footnotes.xml',
+	'word/endnotes.xml',
+	'word/comments.xml',
+];
+
+const IGNORED_ELEMENT =
+	/^An unrecognised element was ignored: (\S+)|^A (\S+) element .* was ignored/;
+
+const CATEGORIES: Array<[RegExp, DocxMessageCategory]> = [
+	[/^Unrecognised (paragraph|run|table) style:/, 'unmappedStyle'],
+	[/ style with ID .* was referenced but not defined/, 'undefinedStyle'],
+	[/^Did not understand this style mapping/, 'invalidStyleMapping'],
+	[
+		/^An unrecognised element was ignored|^Unsupported break type|^A v:imagedata element without/,
+		'unsupportedElement',
+	],
+	[/^Could not find image file|^Image of type /, 'image'],
+];
+
+function isInCheckbox(element: Element): boolean {
+	for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+		if (parent.namespaceURI !== W_NS || parent.localName !== 'sdt') continue;
+		const properties = Array.from(parent.children).find(
+			(child) => child.namespaceURI === W_NS && child.localName === 'sdtPr',
+		);
+		if (properties?.getElementsByTagNameNS(W14_NS, 'checkbox').length) return true;
+	}
+	return false;
+}
+
+/**
+ * The warnings mammoth gives for symbol characters (`w:sym`) that only occur
+ * in checkbox content controls. The control becomes a checkbox all the same,
+ * so nothing is lost. mammoth reports each distinct symbol once, so a symbol
+ * that is also used elsewhere keeps its warning.
+ */
+export async function checkboxSymbolWarnings(pkg: DocxPackage): Promise<string[]> {
+	const inCheckboxOnly = new Map<string, boolean>();
+	for (const path of CHECKBOX_PARTS) {
+		const xml = await pkg.readText(path);
+		if (!xml?.includes('sym')) continue;
+
+		for (const symbol of wElements(parseXml(xml), 'sym')) {
+			const warning = `A w:sym element with an unsupported character was ignored: char ${wAttr(symbol, 'char')} in font ${wAttr(symbol, 'font')}`;
+			inCheckboxOnly.set(warning, (inCheckboxOnly.get(warning) ?? true) && isInCheckbox(symbol));
+		}
+	}
+	return [...inCheckboxOnly].filter(([, only]) => only).map(([warning]) => warning);
+}
+
+/**
+ * Sorts mammoth's conversion messages into warnings and errors with a
+ * category. Errors are raised while converting images, so uncategorised
+ * errors count as image errors. Messages listed in `skipped` are left out.
+ */
+export function classifyMessages(
+	messages: Array<{ type: string; message: string }> = [],
+	skipped: string[] = [],
+): DocxMessage[] {
+	const kept = messages.filter(({ message }) => !skipped.includes(message));
+	return kept.map(({ type, message }) => {
+		const category = CATEGORIES.find(([pattern]) => pattern.test(message))?.[1];
+		const ignored = IGNORED_ELEMENT.exec(message);
+		return {
+			type: type === 'error' ? 'error' : 'warning',
+			category: category ?? (type === 'error' ? 'image' : 'other'),
+			message,
+			...(ignored ? { element: ignored[1] ?? ignored[2] } : {}),
+		};
+	});
+}
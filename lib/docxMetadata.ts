@@ -0,0 +1,138 @@
+import type { DocxPackage } from './docxPackage';
+
+const NS = {
+	cp: 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties',
+	dc: 'http://purl.org/dc/elements/1.1/',
+	dcterms: 'http://purl.org/dc/terms/',
+	app: 'http://schemas.openxmlformats.org/officeDocument/2006/extended-properties',
+	custom: 'http://schemas.openxmlformats.org/officeDocument/2006/custom-properties',
+	vt: 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes',
+};
+
+export interface DocxMetadata {
+	title?: string;
+	subject?: string;
+	author?: string;
+	keywords?: string[];
+	description?: string;
+	category?: string;
+	lastModifiedBy?: string;
+	revision?: number;
+	created?: string;
+	modified?: string;
+	application?: string;
+	company?: string;
+	pages?: number;
+	words?: number;
+	characters?: number;
+	paragraphs?: number;
+	lines?: number;
+	/**
+	 * Total editing time in minutes
+	 */
+	totalEditingTime?: number;
+	/**
+	 * Properties from docProps/custom.xml, keyed by property name
+	 */
+	custom?: Record<string, string | number | boolean>;
+}
+
+function text(document: Document, namespace: string, localName: string): string | undefined {
+	const value = document.getElementsByTagNameNS(namespace, localName)[0]?.textContent?.trim();
+	return value || undefined;
+}
+
+function number(document: Document, namespace: string, localName: string): number | undefined {
+	const value = text(document, namespace, localName);
+	if (value === undefined) return undefined;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function customValue(property: Element): string | number | boolean | undefined {
+	const valueElement = Array.from(property.children).find((child) => child.namespaceURI === NS.vt);
+	if (!valueElement) return undefined;
+	const raw = valueElement.textContent?.trim() ?? '';
+
+	switch (valueElement.localName) {
+		case 'bool':
+			return raw === 'true' || raw === '1';
+		case 'i1':
+		case 'i2':
+		case 'i4':
+		case 'i8':
+		case 'int':
+		case 'ui1':
+		case 'ui2':
+		case 'ui4':
+		case 'ui8':
+		case 'uint':
+		case 'r4':
+		case 'r8':
+		case 'decimal': {
+			const parsed = Number(raw);
+			return Number.isFinite(parsed) ? parsed : raw;
+		}
+		default:
+			return raw;
+	}
+}
+
+/**
+ * Reads the core (docProps/core.xml), extended (docProps/app.xml) and
+ * custom (docProps/custom.xml) document properties. Missing values are omitted.
+ */
+export async function readDocxMetadata(pkg: DocxPackage): Promise<DocxMetadata> {
+	const metadata: DocxMetadata = {};
+
+	const core = await pkg.readXml('docProps/core.xml');
+	if (core) {
+		metadata.title = text(core, NS.dc, 'title');
+		metadata.subject = text(core, NS.dc, 'subject');
+		metadata.author = text(core, NS.dc, 'creator');
+		metadata.description = text(core, NS.dc, 'description');
+		metadata.category = text(core, NS.cp, 'category');
+		metadata.lastModifiedBy = text(core, NS.cp, 'lastModifiedBy');
+		metadata.revision = number(core, NS.cp, 'revision');
+		metadata.created = text(core, NS.dcterms, 'created');
+		metadata.modified = text(core, NS.dcterms, 'modified');
+
+		const keywords = text(core, NS.cp, 'keywords');
+		if (keywords) {
+			metadata.keywords = keywords
+				.split(/[,;]/)
+				.map((keyword) => keyword.trim())
+				.filter((keyword) => keyword);
+		}
+	}
+
+	const app = await pkg.readXml('docProps/app.xml');
+	if (app) {
+		metadata.application = text(app, NS.app, 'Application');
+		metadata.company = text(app, NS.app, 'Company');
+		metadata.pages = number(app, NS.app, 'Pages');
+		metadata.words = number(app, NS.app, 'Words');
+		metadata.characters = number(app, NS.app, 'Characters');
+		metadata.paragraphs = number(app, NS.app, 'Paragraphs');
+		metadata.lines = number(app, NS.app, 'Lines');
+		metadata.totalEditingTime = number(app, NS.app, 'TotalTime');
+	}
+
+	const custom = await pkg.readXml('docProps/custom.xml');
+	if (custom) {
+		const properties: Record<string, string | number | boolean> = {};
+		for (const property of Array.from(custom.getElementsByTagNameNS(NS.custom, 'property'))) {
+			const name = property.getAttribute('name');
+			const value = customValue(property);
+			if (name && value !== undefined) properties[name] = value;
+		}
+		if (Object.keys(properties).length > 0) metadata.custom = properties;
+	}
+
+	// Drop the keys that were not present in the document
+	for (const key of Object.keys(metadata) as Array<keyof DocxMetadata>) {
+		if (metadata[key] === undefined) delete metadata[key];
+	}
+
+	return metadata;
+}
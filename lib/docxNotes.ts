@@ -0,0 +1,186 @@
+import type TurndownService from 'turndown';
+
+import { W_NS, wAttr, wElements, wText, type DocxPackage } from './docxPackage';
+
+/**
+ * How Word comments end up in the output
+ *  - ignore:       dropped (mammoth's default)
+ *  - footnotes:    `[^cN]` references with a definition holding author, date and text
+ *  - htmlComments: `<!-- ... -->` at the anchor position
+ *  - json:         removed from the Markdown, returned as a `comments` array
+ */
+export type CommentHandling = 'ignore' | 'footnotes' | 'htmlComments' | 'json';
+
+export interface DocxComment {
+	id: string;
+	author: string;
+	initials: string;
+	date: string;
+	text: string;
+	/**
+	 * Document text the comment is anchored to
+	 */
+	anchoredText: string;
+}
+
+/**
+ * Style-map line that makes mammoth emit comment references and bodies
+ */
+export const COMMENT_STYLE_MAPPING = 'comment-reference => sup';
+
+/**
+ * Reads comments.xml and resolves the text each comment is anchored to in document.xml
+ */
+export async function readComments(pkg: DocxPackage): Promise<DocxComment[]> {
+	const commentsXml = await pkg.readXml('word/comments.xml');
+	if (!commentsXml) return [];
+
+	const anchored = new Map<string, string>();
+	const documentXml = await pkg.readXml('word/document.xml');
+	if (documentXml) {
+		const active = new Set<string>();
+		const visit = (element: Element) => {
+			if (element.namespaceURI === W_NS) {
+				const id = wAttr(element, 'id') ?? '';
+				switch (element.localName) {
+					case 'commentRangeStart':
+						active.add(id);
+						anchored.set(id, anchored.get(id) ?? '');
+						return;
+					case 'commentRangeEnd':
+						active.delete(id);
+						return;
+					case 't':
+						for (const activeId of active) {
+							anchored.set(activeId, anchored.get(activeId) + (element.textContent ?? ''));
+						}
+						return;
+				}
+			}
+			for (const child of Array.from(element.children)) visit(child);
+			if (element.namespaceURI === W_NS && element.localName === 'p') {
+				for (const activeId of active) anchored.set(activeId, anchored.get(activeId) + '\n');
+			}
+		};
+		visit(documentXml.documentElement);
+	}
+
+	return wElements(commentsXml, 'comment').map((comment) => {
+		const id = wAttr(comment, 'id') ?? '';
+		return {
+			id,
+			author: wAttr(comment, 'author') ?? '',
+			initials: wAttr(comment, 'initials') ?? '',
+			date: wAttr(comment, 'date') ?? '',
+			text: wText(comment),
+			anchoredText: (anchored.get(id) ?? '').trim(),
+		};
+	});
+}
+
+const REFERENCE_PATTERN = /^#(footnote|endnote|comment)-(.+)$/;
+
+function footnoteLabel(kind: string, id: string): string {
+	if (kind === 'endnote') return `e${id}`;
+	if (kind === 'comment') return `c${id}`;
+	return id;
+}
+
+function definition(label: string, markdown: string): string {
+	const [first, ...rest] = markdown.trim().split('\n');
+	const continuation = rest.map((line) => (line ? `    ${line}` : ''));
+	return [`[^${label}]: ${first}`, ...continuation].join('\n');
+}
+
+/**
+ * Markdown of a note body without mammoth's "↑" back-link
+ */
+function noteBody(td: TurndownService, node: Element): string {
+	const clone = node.cloneNode(true) as Element;
+	clone.querySelectorAll('a[href*="-ref-"]').forEach((link) => link.remove());
+	return td.turndown(clone.innerHTML).trim();
+}
+
+function describeComment(comment: DocxComment | undefined): string {
+	if (!comment) return '';
+	const date = comment.date ? ` (${comment.date})` : '';
+	return comment.author ? `${comment.author}${date}` : date.trim();
+}
+
+/**
+ * Converts mammoth's footnote/endnote anchors and note lists into Markdown
+ * footnotes (`[^1]` plus `[^1]: ...` definitions), and renders comments
+ * according to the selected handling.
+ */
+export function addNoteRules(
+	td: TurndownService,
+	options: { commentHandling?: CommentHandling; comments?: DocxComment[] } = {},
+): void {
+	const { commentHandling = 'ignore', comments = [] } = options;
+	const commentsById = new Map(comments.map((comment) => [comment.id, comment]));
+
+	td.addRule('noteReference', {
+		filter: (node) =>
+			node.nodeName === 'A' &&
+			REFERENCE_PATTERN.test(node.getAttribute('href') ?? '') &&
+			(node.getAttribute('id') ?? '').includes('-ref-'),
+		replacement: (_content, node) => {
+			const [, kind, id] = REFERENCE_PATTERN.exec((node as Element).getAttribute('href')!)!;
+			if (kind !== 'comment') return `[^${footnoteLabel(kind, id)}]`;
+
+			const comment = commentsById.get(id);
+			switch (commentHandling) {
+				case 'footnotes':
+					return `[^${footnoteLabel(kind, id)}]`;
+				case 'htmlComments': {
+					const text = `${describeComment(comment)}: ${comment?.text ?? ''}`
+						.replace(/^: /, '')
+						.replace(/--/g, '- -');
+					return `<!-- Comment ${text} -->`;
+				}
+				default:
+					return '';
+			}
+		},
+	});
+
+	td.addRule('noteList', {
+		filter: (node) => {
+			if (node.nodeName !== 'OL') return false;
+			const items = Array.from(node.children);
+			return (
+				items.length > 0 &&
+				items.every((item) => /^(footnote|endnote)-/.test(item.getAttribute('id') ?? ''))
+			);
+		},
+		replacement: (_content, node) => {
+			const definitions = Array.from((node as Element).children).map((item) => {
+				const [kind, ...id] = item.getAttribute('id')!.split('-');
+				return definition(footnoteLabel(kind, id.join('-')), noteBody(td, item));
+			});
+			return `\n\n${definitions.join('\n\n')}\n\n`;
+		},
+	});
+
+	td.addRule('commentList', {
+		filter: (node) =>
+			node.nodeName === 'DL' &&
+			Array.from(node.children).some((child) =>
+				(child.getAttribute('id') ?? '').startsWith('comment-'),
+			),
+		replacement: (_content, node) => {
+			if (commentHandling !== 'footnotes') return '';
+
+			const definitions: string[] = [];
+			for (const term of Array.from((node as Element).children)) {
+				if (term.nodeName !== 'DT') continue;
+				const id = (term.getAttribute('id') ?? '').replace(/^comment-/, '');
+				const body = term.nextElementSibling?.nodeName === 'DD' ? term.nextElementSibling : null;
+				const author = describeComment(commentsById.get(id));
+				const text = body ? noteBody(td, body) : (commentsById.get(id)?.text ?? '');
+				definitions.push(definition(`c${id}`, author ? `**${author}**: ${text}` : text));
+			}
+			return `\n\n${definitions.join('\n\n')}\n\n`;
+		},
+	});
+}
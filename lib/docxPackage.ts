@@ -0,0 +1,122 @@
+import JSZip from 'jszip';
+import { JSDOM } from 'jsdom';
+import { posix } from 'path';
+
+/**
+ * WordprocessingML main namespace (the `w:` prefix)
+ */
+export const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+/**
+ * Package relationships namespace (`.rels` parts)
+ */
+const REL_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export interface Relationship {
+	type: string;
+	target: string;
+	external: boolean;
+}
+
+export interface DocxPackage {
+	zip: JSZip;
+	/**
+	 * Reads a part as text, undefined when the part does not exist
+	 */
+	readText(path: string): Promise<string | undefined>;
+	/**
+	 * Reads and parses an XML part, undefined when the part does not exist
+	 */
+	readXml(path: string): Promise<Document | undefined>;
+}
+
+export function parseXml(xml: string): Document {
+	return new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+}
+
+/**
+ * Opens a .docx buffer for reading the XML parts mammoth does not expose.
+ * Works for the other ZIP-based Office formats (ODT, PPTX, XLSX) as well.
+ */
+export async function loadDocxPackage(buffer: Buffer): Promise<DocxPackage> {
+	const zip = await JSZip.loadAsync(buffer);
+
+	const readText = async (path: string) => zip.file(path)?.async('string');
+	const readXml = async (path: string) => {
+		const xml = await readText(path);
+		return xml === undefined ? undefined : parseXml(xml);
+	};
+
+	return { zip, readText, readXml };
+}
+
+/**
+ * Reads the relationships of a part, with targets resolved to package paths
+ */
+export async function readRelationships(
+	pkg: DocxPackage,
+	partPath: string,
+): Promise<Map<string, Relationship>> {
+	const relationships = new Map<string, Relationship>();
+	const directory = posix.dirname(partPath);
+	const rels = await pkg.readXml(`${directory}/_rels/${posix.basename(partPath)}.rels`);
+	if (!rels) return relationships;
+
+	for (const relationship of Array.from(rels.getElementsByTagNameNS(REL_NS, 'Relationship'))) {
+		const target = relationship.getAttribute('Target') ?? '';
+		const external = relationship.getAttribute('TargetMode') === 'External';
+		relationships.set(relationship.getAttribute('Id') ?? '', {
+			type: relationship.getAttribute('Type') ?? '',
+			target: external
+				? target
+				: target.startsWith('/')
+					? target.slice(1)
+					: posix.normalize(posix.join(directory, target)),
+			external,
+		});
+	}
+	return relationships;
+}
+
+/**
+ * `w:` attribute value of an element
+ */
+export function wAttr(element: Element, name: string): string | null {
+	return element.getAttributeNS(W_NS, name) ?? element.getAttribute(`w:${name}`);
+}
+
+/**
+ * Direct or nested `w:` elements of a node, in document order
+ */
+export function wElements(node: Document | Element, localName: string): Element[] {
+	return Array.from(node.getElementsByTagNameNS(W_NS, localName));
+}
+
+/**
+ * Plain text of a WordprocessingML fragment: runs are concatenated,
+ * paragraphs end with a newline, tabs and breaks are kept
+ */
+export function wText(node: Element): string {
+	let text = '';
+	const visit = (element: Element) => {
+		if (element.namespaceURI === W_NS) {
+			switch (element.localName) {
+				case 't':
+				case 'delText':
+					text += element.textContent ?? '';
+					return;
+				case 'tab':
+					text += '\t';
+					return;
+				case 'br':
+				case 'cr':
+					text += '\n';
+					return;
+			}
+		}
+		for (const child of Array.from(element.children)) visit(child);
+		if (element.namespaceURI === W_NS && element.localName === 'p') text += '\n';
+	};
+	visit(node);
+	return text.replace(/\n+$/, '');
+}
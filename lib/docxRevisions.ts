@@ -0,0 +1,214 @@
+import { W_NS, wAttr, wElements, wText, type DocxPackage } from './docxPackage';
+
+/**
+ * How tracked changes end up in the output
+ *  - accept:       insertions kept, deletions dropped (mammoth's default)
+ *  - reject:       insertions dropped, deletions kept
+ *  - criticMarkup: both shown as `{++inserted++}` and `{--deleted--}`
+ *  - html:         both shown as `<ins>` and `<del>`
+ */
+export type TrackedChangesMode = 'accept' | 'reject' | 'criticMarkup' | 'html';
+
+export interface DocxRevision {
+	id: string;
+	/**
+	 * Moved text counts as a deletion at its old and an insertion at its new position
+	 */
+	type: 'insertion' | 'deletion';
+	author: string;
+	date: string;
+	text: string;
+}
+
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Parts mammoth converts that can carry tracked changes
+ */
+const REVISION_PARTS = ['word/document.xml', 'word/footnotes.xml', 'word/endnotes.xml'];
+
+const INSERTION_ELEMENTS = ['ins', 'moveTo'];
+const DELETION_ELEMENTS = ['del', 'moveFrom'];
+
+/**
+ * Private use characters wrapped around revised runs, replaced once mammoth is done
+ */
+const MARKS = {
+	insertionStart: '\uE000',
+	insertionEnd: '\uE001',
+	deletionStart: '\uE002',
+	deletionEnd: '\uE003',
+};
+
+const RENDERED_MARKS: Record<'criticMarkup' | 'html', Record<keyof typeof MARKS, string>> = {
+	criticMarkup: {
+		insertionStart: '{++',
+		insertionEnd: '++}',
+		deletionStart: '{--',
+		deletionEnd: '--}',
+	},
+	html: {
+		insertionStart: '<ins>',
+		insertionEnd: '</ins>',
+		deletionStart: '<del>',
+		deletionEnd: '</del>',
+	},
+};
+
+/**
+ * Run-level revision containers. The same element names also flag revised
+ * paragraph marks and table rows inside property elements (w:rPr, w:trPr).
+ */
+function revisionElements(document: Document, localNames: string[]): Element[] {
+	return localNames
+		.flatMap((localName) => wElements(document, localName))
+		.filter((element) => !element.parentElement?.localName.endsWith('Pr'));
+}
+
+function isIn(element: Element, localNames: string[]): boolean {
+	return element.namespaceURI === W_NS && localNames.includes(element.localName);
+}
+
+/**
+ * Lists the insertions and deletions of a part in document order
+ */
+export function readRevisions(document: Document): DocxRevision[] {
+	return revisionElements(document, [...INSERTION_ELEMENTS, ...DELETION_ELEMENTS])
+		.sort((a, b) => (a.compareDocumentPosition(b) & 4 ? -1 : 1))
+		.map((element) => ({
+			id: wAttr(element, 'id') ?? '',
+			type: isIn(element, INSERTION_ELEMENTS) ? 'insertion' : 'deletion',
+			author: wAttr(element, 'author') ?? '',
+			date: wAttr(element, 'date') ?? '',
+			text: wText(element),
+		}));
+}
+
+function markRun(document: Document, mark: string): Element {
+	const run = document.createElementNS(W_NS, 'w:r');
+	const text = document.createElementNS(W_NS, 'w:t');
+	text.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+	text.textContent = mark;
+	run.appendChild(text);
+	return run;
+}
+
+function unwrap(element: Element, start?: Element, end?: Element) {
+	const parent = element.parentNode!;
+	if (start) parent.insertBefore(start, element);
+	while (element.firstChild) parent.insertBefore(element.firstChild, element);
+	if (end) parent.insertBefore(end, element);
+	element.remove();
+}
+
+/**
+ * Turns deleted text (w:delText, w:delInstrText) back into regular text
+ */
+function restoreDeletedText(document: Document, deletion: Element) {
+	for (const [deleted, restored] of [
+		['delText', 'w:t'],
+		['delInstrText', 'w:instrText'],
+	]) {
+		for (const element of wElements(deletion, deleted)) {
+			const replacement = document.createElementNS(W_NS, restored);
+			replacement.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+			replacement.textContent = element.textContent;
+			element.replaceWith(replacement);
+		}
+	}
+}
+
+/**
+ * Rewrites the tracked changes of a part so mammoth renders the chosen
+ * version. Returns whether the part changed.
+ */
+function resolveRevisions(document: Document, mode: TrackedChangesMode): boolean {
+	const insertions = revisionElements(document, INSERTION_ELEMENTS);
+	const deletions = revisionElements(document, DELETION_ELEMENTS);
+	if (insertions.length === 0 && deletions.length === 0) return false;
+
+	const marked = mode === 'criticMarkup' || mode === 'html';
+
+	for (const insertion of insertions) {
+		if (mode === 'reject') {
+			insertion.remove();
+		} else if (marked) {
+			unwrap(
+				insertion,
+				markRun(document, MARKS.insertionStart),
+				markRun(document, MARKS.insertionEnd),
+			);
+		} else {
+			// mammoth reads w:ins but not w:moveTo
+			unwrap(insertion);
+		}
+	}
+
+	for (const deletion of deletions) {
+		if (mode === 'accept') {
+			deletion.remove();
+			continue;
+		}
+		restoreDeletedText(document, deletion);
+		if (marked) {
+			unwrap(
+				deletion,
+				markRun(document, MARKS.deletionStart),
+				markRun(document, MARKS.deletionEnd),
+			);
+		} else {
+			unwrap(deletion);
+		}
+	}
+
+	// A deleted paragraph mark makes mammoth merge the paragraph into the next one
+	if (mode !== 'accept') {
+		for (const mark of wElements(document, 'del')) {
+			if (mark.parentElement?.localName === 'rPr') mark.remove();
+		}
+	}
+
+	return true;
+}
+
+/**
+ * Applies the tracked changes mode to the document, footnotes and endnotes.
+ * Returns the revisions found and, when a part had to be rewritten, the
+ * buffer to hand to mammoth instead of the original one.
+ */
+export async function applyTrackedChanges(
+	pkg: DocxPackage,
+	mode: TrackedChangesMode,
+): Promise<{ buffer?: Buffer; revisions: DocxRevision[] }> {
+	const revisions: DocxRevision[] = [];
+	let changed = false;
+
+	for (const path of REVISION_PARTS) {
+		const document = await pkg.readXml(path);
+		if (!document) continue;
+
+		revisions.push(...readRevisions(document));
+		if (resolveRevisions(document, mode)) {
+			const serializer = new document.defaultView!.XMLSerializer();
+			pkg.zip.file(path, serializer.serializeToString(document));
+			changed = true;
+		}
+	}
+
+	const buffer = changed ? await pkg.zip.generateAsync({ type: 'nodebuffer' }) : undefined;
+	return { buffer, revisions };
+}
+
+/**
+ * Replaces the revision marks left in mammoth's output with CriticMarkup or
+ * `<ins>`/`<del>` tags (the marks only exist in the criticMarkup and html modes)
+ */
+export function renderRevisionMarks(html: string, mode: TrackedChangesMode): string {
+	if (mode !== 'criticMarkup' && mode !== 'html') return html;
+	const rendered = RENDERED_MARKS[mode];
+	let result = html;
+	for (const name of Object.keys(MARKS) as Array<keyof typeof MARKS>) {
+		result = result.split(MARKS[name]).join(rendered[name]);
+	}
+	return result;
+}
@@ -0,0 +1,270 @@
+import type TurndownService from 'turndown';
+
+import { W_NS, readRelationships, wAttr, wElements, wText, type DocxPackage } from './docxPackage';
+
+/**
+ * Where page headers and footers end up in the output
+ *  - ignore:      dropped (mammoth's default)
+ *  - frontMatter: `headers` and `footers` fields of the YAML front matter
+ *  - sections:    headers above and footers below the document, set off by `---`
+ */
+export type HeaderFooterHandling = 'ignore' | 'frontMatter' | 'sections';
+
+/**
+ * Which breaks are marked with the separator
+ *  - ignore:   none
+ *  - page:     page breaks and sections starting on a new page
+ *  - sections: page breaks and all section breaks, continuous ones included
+ */
+export type BreakHandling = 'ignore' | 'page' | 'sections';
+
+/**
+ * Header and footer variants: every page, the first page of a section
+ * (w:titlePg) and even pages (w:evenAndOddHeaders)
+ */
+export type HeaderFooterType = 'default' | 'first' | 'even';
+
+export interface DocxHeaderFooter {
+	kind: 'header' | 'footer';
+	type: HeaderFooterType;
+	text: string;
+}
+
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MC_NS = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+
+/**
+ * Private use character standing for a break, replaced once mammoth is done
+ */
+const BREAK_MARK = '\uE030';
+
+const TYPE_ORDER: HeaderFooterType[] = ['first', 'default', 'even'];
+
+function isOn(element: Element | undefined): boolean {
+	if (!element) return false;
+	const value = wAttr(element, 'val');
+	return value === null || !['0', 'false', 'off'].includes(value);
+}
+
+function wChild(element: Element | undefined, localName: string): Element | undefined {
+	return element
+		? Array.from(element.children).find(
+				(child) => child.namespaceURI === W_NS && child.localName === localName,
+			)
+		: undefined;
+}
+
+/**
+ * Nearest enclosing w: element with the given name
+ */
+function ancestor(element: Element, localName: string): Element | undefined {
+	for (let node = element.parentElement; node; node = node.parentElement) {
+		if (node.namespaceURI === W_NS && node.localName === localName) return node;
+	}
+	return undefined;
+}
+
+function textRun(document: Document, text: string): Element {
+	const run = document.createElementNS(W_NS, 'w:r');
+	const textElement = document.createElementNS(W_NS, 'w:t');
+	textElement.setAttributeNS(XML_NS, 'xml:space', 'preserve');
+	textElement.textContent = text;
+	run.appendChild(textElement);
+	return run;
+}
+
+function breakRun(document: Document): Element {
+	const run = document.createElementNS(W_NS, 'w:r');
+	run.appendChild(document.createElementNS(W_NS, 'w:br'));
+	return run;
+}
+
+/**
+ * Reads the headers and footers the sections of the document show, in
+ * section order, without repeating the same text
+ */
+export async function readHeadersFooters(pkg: DocxPackage): Promise<DocxHeaderFooter[]> {
+	const document = await pkg.readXml('word/document.xml');
+	if (!document) return [];
+	const relationships = await readRelationships(pkg, 'word/document.xml');
+	const settings = await pkg.readXml('word/settings.xml');
+	const evenAndOdd = settings ? isOn(wElements(settings, 'evenAndOddHeaders')[0]) : false;
+
+	const result: DocxHeaderFooter[] = [];
+	for (const section of wElements(document, 'sectPr')) {
+		const titlePage = isOn(wChild(section, 'titlePg'));
+		for (const kind of ['header', 'footer'] as const) {
+			const references = Array.from(section.children).filter(
+				(child) => child.namespaceURI === W_NS && child.localName === `${kind}Reference`,
+			);
+			for (const reference of references) {
+				const type = (wAttr(reference, 'type') ?? 'default') as HeaderFooterType;
+				// Variants Word does not show are left out
+				if ((type === 'first' && !titlePage) || (type === 'even' && !evenAndOdd)) continue;
+
+				const id = reference.getAttributeNS(R_NS, 'id') ?? reference.getAttribute('r:id') ?? '';
+				const target = relationships.get(id)?.target;
+				const part = target ? await pkg.readXml(target) : undefined;
+				const text = part ? wText(part.documentElement).trim() : '';
+				const seen = result.some(
+					(entry) => entry.kind === kind && entry.type === type && entry.text === text,
+				);
+				if (text && !seen) result.push({ kind, type, text });
+			}
+		}
+	}
+	return result.sort((a, b) => TYPE_ORDER.indexOf(a.type) - TYPE_ORDER.indexOf(b.type));
+}
+
+/**
+ * Front matter fields: `headers` and `footers` keyed by variant, texts of
+ * several sections joined by line breaks
+ */
+export function headerFooterFields(
+	headersFooters: DocxHeaderFooter[],
+): Record<string, Record<string, string>> {
+	const fields: Record<string, Record<string, string>> = {};
+	for (const { kind, type, text } of headersFooters) {
+		const group = (fields[`${kind}s`] ??= {});
+		group[type] = group[type] ? `${group[type]}\n${text}` : text;
+	}
+	return fields;
+}
+
+/**
+ * Puts the headers above and the footers below the Markdown, each set off
+ * by a thematic break
+ */
+export function addHeaderFooterSections(
+	markdown: string,
+	headersFooters: DocxHeaderFooter[],
+): string {
+	const block = (kind: DocxHeaderFooter['kind']) =>
+		headersFooters
+			.filter((entry) => entry.kind === kind)
+			// Line breaks inside a header are kept as hard line breaks
+			.map((entry) => entry.text.replace(/\n/g, '  \n'))
+			.join('\n\n');
+	const headers = block('header');
+	const footers = block('footer');
+	return [headers, headers && '---', markdown, footers && '---', footers]
+		.filter((part) => part)
+		.join('\n\n');
+}
+
+/**
+ * Replaces text boxes and shapes with text (DrawingML and legacy VML) by
+ * their text at the anchor position, paragraphs as line breaks. mammoth
+ * drops DrawingML text boxes and moves VML ones after their paragraph.
+ * Returns the buffer to hand to mammoth, undefined when there are none.
+ */
+export async function inlineTextBoxes(pkg: DocxPackage): Promise<Buffer | undefined> {
+	const document = await pkg.readXml('word/document.xml');
+	if (!document) return undefined;
+
+	// The runs holding the outermost text boxes; nested ones go with them
+	const anchors = new Set<Element>();
+	for (const content of wElements(document, 'txbxContent')) {
+		const run = ancestor(content, 'r');
+		if (run && !ancestor(content, 'txbxContent')) anchors.add(run);
+	}
+	if (anchors.size === 0) return undefined;
+
+	for (const run of anchors) {
+		// Alternate content holds the same text box twice, the DrawingML choice is read
+		const choice = Array.from(run.getElementsByTagNameNS(MC_NS, 'Choice'))[0];
+		const contents = wElements(choice ?? run, 'txbxContent').filter(
+			(content) => !ancestor(content, 'txbxContent'),
+		);
+		const lines = contents
+			.flatMap((content) =>
+				Array.from(content.children).flatMap((child) => wText(child).split('\n')),
+			)
+			.map((line) => line.trim())
+			.filter((line) => line);
+
+		// Line breaks set the text apart from the text around it in the paragraph
+		const replacement = lines.flatMap((line, index) =>
+			index ? [breakRun(document), textRun(document, line)] : [textRun(document, line)],
+		);
+		const previous = run.previousElementSibling;
+		if (replacement.length && previous && previous.localName !== 'pPr') {
+			replacement.unshift(breakRun(document));
+		}
+		if (replacement.length && run.nextElementSibling) replacement.push(breakRun(document));
+		run.replaceWith(...replacement);
+	}
+
+	const serializer = new document.defaultView!.XMLSerializer();
+	pkg.zip.file('word/document.xml', serializer.serializeToString(document));
+	return pkg.zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Marks page breaks (w:br, w:pageBreakBefore) and section breaks for
+ * renderBreaks. Returns the buffer to hand to mammoth, undefined when the
+ * document has no breaks to mark.
+ */
+export async function markBreaks(
+	pkg: DocxPackage,
+	handling: BreakHandling,
+): Promise<Buffer | undefined> {
+	if (handling === 'ignore') return undefined;
+	const document = await pkg.readXml('word/document.xml');
+	if (!document) return undefined;
+	let marked = false;
+
+	for (const pageBreak of wElements(document, 'br')) {
+		if (wAttr(pageBreak, 'type') !== 'page') continue;
+		const text = document.createElementNS(W_NS, 'w:t');
+		text.textContent = BREAK_MARK;
+		pageBreak.replaceWith(text);
+		marked = true;
+	}
+
+	for (const paragraph of wElements(document, 'p')) {
+		const properties = wChild(paragraph, 'pPr');
+		if (!isOn(wChild(properties, 'pageBreakBefore'))) continue;
+		paragraph.insertBefore(textRun(document, BREAK_MARK), properties!.nextSibling);
+		marked = true;
+	}
+
+	// A section's w:type tells how it starts; the sectPr of the last section is the body's
+	const sections = wElements(document, 'sectPr');
+	sections.forEach((section, index) => {
+		const paragraph = section.parentElement?.parentElement;
+		const next = sections[index + 1];
+		if (!next || !paragraph || paragraph.localName !== 'p') return;
+		const typeElement = wChild(next, 'type');
+		const type = (typeElement && wAttr(typeElement, 'val')) ?? 'nextPage';
+		if (handling === 'page' && type === 'continuous') return;
+		paragraph.appendChild(textRun(document, BREAK_MARK));
+		marked = true;
+	});
+
+	if (!marked) return undefined;
+	const serializer = new document.defaultView!.XMLSerializer();
+	pkg.zip.file('word/document.xml', serializer.serializeToString(document));
+	return pkg.zip.generateAsync({ type: 'nodebuffer' });
+}
+
+/**
+ * Replaces the break marks in mammoth's output with `<hr data-break>`,
+ * which ends the paragraph it is in
+ */
+export function renderBreaks(html: string): string {
+	return html
+		.replace(new RegExp(`<p>${BREAK_MARK}+</p>`, 'g'), '<hr data-break="page" />')
+		.replace(new RegExp(`${BREAK_MARK}+`, 'g'), '<hr data-break="page" />');
+}
+
+/**
+ * Renders marked breaks as the separator, e.g. `---` or `<!-- pagebreak -->`
+ */
+export function addBreakRule(td: TurndownService, separator: string): void {
+	td.addRule('pageBreak', {
+		filter: (node) => node.nodeName === 'HR' && node.hasAttribute('data-break'),
+		replacement: () => `\n\n${separator}\n\n`,
+	});
+}
@@ -0,0 +1,151 @@
+import type TurndownService from 'turndown';
+
+export type StyleTarget =
+	| 'h1'
+	| 'h2'
+	| 'h3'
+	| 'h4'
+	| 'h5'
+	| 'h6'
+	| 'pre'
+	| 'code'
+	| 'blockquote'
+	| 'admonition'
+	| 'strong'
+	| 'em';
+
+export interface StyleMapping {
+	/**
+	 * Whether the Word style is a paragraph style or a character (run) style
+	 */
+	styleType: 'paragraph' | 'run';
+	/**
+	 * Style name as shown in Word, e.g. "Heading Custom 1"
+	 */
+	styleName: string;
+	target: StyleTarget;
+	/**
+	 * Admonition kind when target is "admonition" (NOTE, TIP, IMPORTANT, WARNING, CAUTION)
+	 */
+	admonitionType?: string;
+}
+
+export interface UnmappedStyle {
+	type: 'paragraph' | 'run';
+	name: string;
+	styleId: string;
+}
+
+/**
+ * Mappings that were always applied before style maps became configurable
+ */
+export const DEFAULT_STYLE_MAP = [
+	"p[style-name='Title'] => h1:fresh",
+	"p[style-name='Subtitle'] => h2:fresh",
+];
+
+const PARAGRAPH_TARGETS: Record<StyleTarget, string> = {
+	h1: 'h1:fresh',
+	h2: 'h2:fresh',
+	h3: 'h3:fresh',
+	h4: 'h4:fresh',
+	h5: 'h5:fresh',
+	h6: 'h6:fresh',
+	pre: "pre > code:separator('\\n')",
+	code: "pre > code:separator('\\n')",
+	blockquote: 'blockquote > p:fresh',
+	admonition: 'blockquote.admonition-{type} > p:fresh',
+	strong: 'p:fresh > strong',
+	em: 'p:fresh > em',
+};
+
+const RUN_TARGETS: Record<StyleTarget, string> = {
+	h1: 'strong',
+	h2: 'strong',
+	h3: 'strong',
+	h4: 'strong',
+	h5: 'strong',
+	h6: 'strong',
+	pre: 'code',
+	code: 'code',
+	blockquote: 'em',
+	admonition: 'strong',
+	strong: 'strong',
+	em: 'em',
+};
+
+function quoteStyleName(name: string): string {
+	return `'${name.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Converts one user mapping into a mammoth style-map line
+ */
+export function styleMappingToRule(mapping: StyleMapping): string {
+	const selector = mapping.styleType === 'run' ? 'r' : 'p';
+	const targets = mapping.styleType === 'run' ? RUN_TARGETS : PARAGRAPH_TARGETS;
+	const admonitionType = (mapping.admonitionType || 'note').toLowerCase();
+	const target = targets[mapping.target].replace('{type}', admonitionType);
+	return `${selector}[style-name=${quoteStyleName(mapping.styleName)}] => ${target}`;
+}
+
+/**
+ * Builds the full mammoth style map. Mammoth applies the first matching rule,
+ * so raw lines win over the mapping collection, which wins over the defaults.
+ */
+export function buildStyleMap(mappings: StyleMapping[] = [], rawStyleMap = ''): string[] {
+	const rawLines = rawStyleMap
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line && !line.startsWith('#'));
+
+	const mappedLines = mappings
+		.filter((mapping) => mapping.styleName?.trim())
+		.map((mapping) => styleMappingToRule({ ...mapping, styleName: mapping.styleName.trim() }));
+
+	return [...rawLines, ...mappedLines, ...DEFAULT_STYLE_MAP];
+}
+
+/**
+ * Collects the Word styles mammoth reported as unrecognised, without duplicates
+ */
+export function findUnmappedStyles(messages: Array<{ message: string }> = []): UnmappedStyle[] {
+	const pattern = /^Unrecognised (paragraph|run) style: '(.*)' \(Style ID: (.*)\)$/;
+	const seen = new Set<string>();
+	const styles: UnmappedStyle[] = [];
+
+	for (const { message } of messages) {
+		const match = pattern.exec(message);
+		if (!match) continue;
+		const [, type, name, styleId] = match;
+		const key = `${type}:${styleId}`;
+		if (seen.has(key)) continue;
+		seen.add(key);
+		styles.push({ type: type as UnmappedStyle['type'], name, styleId });
+	}
+
+	return styles;
+}
+
+/**
+ * Renders `blockquote.admonition-<type>` as a GitHub admonition (`> [!NOTE]`)
+ */
+export function addAdmonitionRule(td: TurndownService): void {
+	td.addRule('admonition', {
+		filter: (node) =>
+			node.nodeName === 'BLOCKQUOTE' &&
+			Array.from((node as HTMLElement).classList).some((c) => c.startsWith('admonition-')),
+		replacement: (content, node) => {
+			const className = Array.from((node as HTMLElement).classList).find((c) =>
+				c.startsWith('admonition-'),
+			)!;
+			const type = className.slice('admonition-'.length).toUpperCase();
+			const body = content
+				.replace(/^\n+|\n+$/g, '')
+				.split('\n')
+				.map((line) => (line ? `> ${line}` : '>'))
+				.join('\n');
+			return `\n\n> [!${type}]\n${body}\n\n`;
+		},
+	});
+}
@@ -0,0 +1,363 @@
+import { createInflateRaw, inflateRawSync } from 'zlib';
+
+/**
+ * Machine-readable reasons a file is rejected before conversion
+ */
+export type DocxErrorCode =
+	| 'EMPTY_FILE'
+	| 'FILE_TOO_LARGE'
+	| 'UNCOMPRESSED_TOO_LARGE'
+	| 'UNSUPPORTED_FORMAT'
+	| 'LEGACY_DOC'
+	| 'ENCRYPTED_DOCUMENT'
+	| 'CORRUPT_PACKAGE'
+	| 'NOT_WORD_DOCUMENT'
+	| 'MACRO_ENABLED_DOCUMENT'
+	| 'TEMPLATE_DOCUMENT';
+
+/**
+ * Word package variants, told apart by the content type of the main part
+ */
+export type DocxVariant = 'docx' | 'docm' | 'dotx' | 'dotm';
+
+export interface PackageLimits {
+	/**
+	 * Largest accepted file, in bytes (0 = no limit)
+	 */
+	maxFileSize?: number;
+	/**
+	 * Largest accepted total size of the unpacked parts, in bytes (0 = no limit)
+	 */
+	maxUncompressedSize?: number;
+}
+
+export interface DocxValidationOptions extends PackageLimits {
+	/**
+	 * Variants that may be converted, defaults to plain .docx only
+	 */
+	acceptedVariants?: DocxVariant[];
+}
+
+export interface DocxValidationResult {
+	variant: DocxVariant;
+	uncompressedSize: number;
+}
+
+export class DocxValidationError extends Error {
+	constructor(
+		readonly code: DocxErrorCode,
+		message: string,
+		/**
+		 * What the user can do about it
+		 */
+		readonly hint?: string,
+	) {
+		super(message);
+		this.name = 'DocxValidationError';
+	}
+}
+
+interface ZipEntry {
+	name: string;
+	method: number;
+	compressedSize: number;
+	uncompressedSize: number;
+	localHeaderOffset: number;
+}
+
+const MAIN_CONTENT_TYPES: Record<string, DocxVariant> = {
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml': 'docx',
+	'application/vnd.ms-word.document.macroEnabled.main+xml': 'docm',
+	'application/vnd.openxmlformats-officedocument.wordprocessingml.template.main+xml': 'dotx',
+	'application/vnd.ms-word.template.macroEnabledTemplate.main+xml': 'dotm',
+};
+
+const OTHER_PACKAGES: Array<[RegExp, string]> = [
+	[/presentationml|ms-powerpoint/, 'a PowerPoint presentation'],
+	[/spreadsheetml|ms-excel/, 'an Excel workbook'],
+	[/drawingml\.diagram|visio/, 'a Visio drawing'],
+];
+
+const ZIP_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CFB_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+/**
+ * Lists the entries of a ZIP archive from its central directory, without
+ * inflating anything. Undefined when the archive structure is broken.
+ */
+function readZipEntries(buffer: Buffer): ZipEntry[] | undefined {
+	if (buffer.length < 22) return undefined;
+
+	// The end of central directory record sits in the last 22 + 65535 (comment) bytes
+	let end = -1;
+	for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 65557); offset--) {
+		if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			end = offset;
+			break;
+		}
+	}
+	if (end === -1) return undefined;
+
+	const count = buffer.readUInt16LE(end + 10);
+	let offset = buffer.readUInt32LE(end + 16);
+	const entries: ZipEntry[] = [];
+
+	for (let index = 0; index < count; index++) {
+		if (offset + 46 > buffer.length) return undefined;
+		if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) return undefined;
+		const nameLength = buffer.readUInt16LE(offset + 28);
+		const extraLength = buffer.readUInt16LE(offset + 30);
+		const commentLength = buffer.readUInt16LE(offset + 32);
+		entries.push({
+			name: buffer.toString('utf-8', offset + 46, offset + 46 + nameLength),
+			method: buffer.readUInt16LE(offset + 10),
+			compressedSize: buffer.readUInt32LE(offset + 20),
+			// 0xFFFFFFFF means the real size is in a ZIP64 field, i.e. at least 4 GB
+			uncompressedSize: buffer.readUInt32LE(offset + 24),
+			localHeaderOffset: buffer.readUInt32LE(offset + 42),
+		});
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	return entries;
+}
+
+/**
+ * Compressed bytes of an entry, undefined when its local header is missing
+ */
+function entryData(buffer: Buffer, entry: ZipEntry): Buffer | undefined {
+	const header = entry.localHeaderOffset;
+	if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== ZIP_SIGNATURE) {
+		return undefined;
+	}
+	const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+	return buffer.subarray(start, start + entry.compressedSize);
+}
+
+function readZipEntry(buffer: Buffer, entry: ZipEntry): string | undefined {
+	const data = entryData(buffer, entry);
+	if (!data) return undefined;
+	try {
+		if (entry.method === 0) return data.toString('utf-8');
+		if (entry.method === 8) return inflateRawSync(data).toString('utf-8');
+	} catch {
+		return undefined;
+	}
+	return undefined;
+}
+
+/**
+ * Inflates deflated data only to count its bytes, stopping as soon as there
+ * are more than the limit, so nothing large is ever held in memory
+ */
+function inflatedSize(data: Buffer, limit: number): Promise<number> {
+	return new Promise((resolve, reject) => {
+		const inflate = createInflateRaw();
+		let size = 0;
+		inflate.on('data', (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > limit) {
+				inflate.destroy();
+				resolve(size);
+			}
+		});
+		inflate.on('end', () => resolve(size));
+		inflate.on('error', reject);
+		inflate.end(data);
+	});
+}
+
+/**
+ * Actual unpacked size of the entries, up to just past the limit. The sizes
+ * the ZIP headers declare can be forged, so every entry is inflated.
+ */
+async function measureUncompressedSize(
+	buffer: Buffer,
+	entries: ZipEntry[],
+	limit: number,
+): Promise<number | undefined> {
+	let total = 0;
+	for (const entry of entries) {
+		const data = entryData(buffer, entry);
+		if (!data) return undefined;
+		try {
+			total += entry.method === 8 ? await inflatedSize(data, limit - total) : data.length;
+		} catch {
+			return undefined;
+		}
+		if (total > limit) break;
+	}
+	return total;
+}
+
+function containsUtf16(buffer: Buffer, text: string): boolean {
+	return buffer.includes(Buffer.from(text, 'utf16le'));
+}
+
+function megabytes(bytes: number): string {
+	return `${Math.round((bytes / 1024 / 1024) * 10) / 10} MB`;
+}
+
+/**
+ * Identifies non-ZIP input for a helpful error message
+ */
+function describeNonZip(buffer: Buffer): DocxValidationError {
+	if (buffer.subarray(0, CFB_SIGNATURE.length).equals(CFB_SIGNATURE)) {
+		// OLE compound files: encrypted OOXML packages and legacy Office formats
+		if (containsUtf16(buffer, 'EncryptedPackage')) {
+			return new DocxValidationError(
+				'ENCRYPTED_DOCUMENT',
+				'The document is password-protected (encrypted)',
+				'Remove the password in Word and convert the saved copy',
+			);
+		}
+		if (containsUtf16(buffer, 'WordDocument')) {
+			return new DocxValidationError(
+				'LEGACY_DOC',
+				'The file is a legacy Word 97-2003 document (.doc)',
+				'Save it as .docx in Word or LibreOffice first',
+			);
+		}
+		return new DocxValidationError(
+			'UNSUPPORTED_FORMAT',
+			'The file is a legacy Office binary file (.xls, .ppt, .msg, ...), not a Word document',
+		);
+	}
+
+	const head = buffer.subarray(0, 16).toString('latin1');
+	const known: Array<[RegExp, string]> = [
+		[/^%PDF/, 'a PDF'],
+		[/^\{\\rtf/, 'an RTF document'],
+		[/^\s*<(!doctype html|html)/i, 'an HTML page'],
+		[/^\x89PNG|^\xff\xd8\xff|^GIF8/, 'an image'],
+	];
+	const match = known.find(([pattern]) => pattern.test(head));
+	return new DocxValidationError(
+		'UNSUPPORTED_FORMAT',
+		`The file is ${match ? match[1] : 'not a ZIP package'}, not a .docx document`,
+		match?.[1] === 'an RTF document' ? 'Use the Office → Markdown node for RTF files' : undefined,
+	);
+}
+
+/**
+ * Size limits of any file, and for a ZIP package its structure and total
+ * unpacked size. Returns the ZIP entries, undefined when the file is no ZIP.
+ */
+async function checkLimits(
+	buffer: Buffer,
+	limits: PackageLimits,
+): Promise<{ entries: ZipEntry[]; uncompressedSize: number } | undefined> {
+	const { maxFileSize = 0, maxUncompressedSize = 0 } = limits;
+
+	if (buffer.length === 0) {
+		throw new DocxValidationError('EMPTY_FILE', 'The file is empty');
+	}
+	if (maxFileSize > 0 && buffer.length > maxFileSize) {
+		throw new DocxValidationError(
+			'FILE_TOO_LARGE',
+			`The file is ${megabytes(buffer.length)}, more than the ${megabytes(maxFileSize)} limit`,
+		);
+	}
+	if (buffer.length < 4 || buffer.readUInt32LE(0) !== ZIP_SIGNATURE) return undefined;
+
+	const entries = readZipEntries(buffer);
+	if (!entries) {
+		throw new DocxValidationError(
+			'CORRUPT_PACKAGE',
+			'The ZIP structure of the file is damaged (truncated or corrupt download?)',
+		);
+	}
+
+	// The declared sizes reject honest large files without inflating anything
+	let uncompressedSize = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+	let measured = false;
+	if (maxUncompressedSize > 0 && uncompressedSize <= maxUncompressedSize) {
+		const size = await measureUncompressedSize(buffer, entries, maxUncompressedSize);
+		if (size === undefined) {
+			throw new DocxValidationError(
+				'CORRUPT_PACKAGE',
+				'The ZIP structure of the file is damaged (truncated or corrupt download?)',
+			);
+		}
+		uncompressedSize = size;
+		measured = true;
+	}
+	if (maxUncompressedSize > 0 && uncompressedSize > maxUncompressedSize) {
+		throw new DocxValidationError(
+			'UNCOMPRESSED_TOO_LARGE',
+			`The document unpacks to ${measured ? 'at least ' : ''}${megabytes(uncompressedSize)}, more than the ${megabytes(maxUncompressedSize)} limit`,
+		);
+	}
+
+	return { entries, uncompressedSize };
+}
+
+/**
+ * Applies the size limits to a document of any format. ZIP-based packages
+ * (DOCX, ODT, PPTX, XLSX) also have their structure and actual unpacked size
+ * checked before a ZIP library opens them, against zip bombs.
+ */
+export async function validatePackageLimits(buffer: Buffer, limits: PackageLimits): Promise<void> {
+	await checkLimits(buffer, limits);
+}
+
+/**
+ * Checks that a buffer really is a Word package, by content rather than file
+ * name or MIME type: size limits, ZIP structure (including the total unpacked
+ * size, against zip bombs) and the content type of the main document part.
+ * Rejects with a DocxValidationError with a specific code otherwise.
+ */
+export async function validateDocx(
+	buffer: Buffer,
+	options: DocxValidationOptions = {},
+): Promise<DocxValidationResult> {
+	const { acceptedVariants = ['docx'] } = options;
+
+	const zip = await checkLimits(buffer, options);
+	if (!zip) throw describeNonZip(buffer);
+	const { entries, uncompressedSize } = zip;
+
+	if (entries.some((entry) => entry.name === 'mimetype')) {
+		throw new DocxValidationError(
+			'NOT_WORD_DOCUMENT',
+			'The file is an OpenDocument file, not a Word document',
+			'Use the Office → Markdown node for ODT files',
+		);
+	}
+
+	const contentTypesEntry = entries.find((entry) => entry.name === '[Content_Types].xml');
+	const contentTypes = contentTypesEntry && readZipEntry(buffer, contentTypesEntry);
+	if (!contentTypes) {
+		throw new DocxValidationError(
+			'NOT_WORD_DOCUMENT',
+			'The file is a ZIP archive but not an Office document ([Content_Types].xml is missing)',
+		);
+	}
+
+	const variant = Object.entries(MAIN_CONTENT_TYPES).find(([contentType]) =>
+		contentTypes.includes(contentType),
+	)?.[1];
+	if (!variant) {
+		const other = OTHER_PACKAGES.find(([pattern]) => pattern.test(contentTypes));
+		throw new DocxValidationError(
+			'NOT_WORD_DOCUMENT',
+			`The file is ${other ? other[1] : 'an Office package without a Word document part'}, not a Word document`,
+			other ? 'Use the Office → Markdown node for PowerPoint and Excel files' : undefined,
+		);
+	}
+
+	if (!acceptedVariants.includes(variant)) {
+		const macroEnabled = variant === 'docm' || variant === 'dotm';
+		throw new DocxValidationError(
+			macroEnabled ? 'MACRO_ENABLED_DOCUMENT' : 'TEMPLATE_DOCUMENT',
+			macroEnabled
+				? `The file is a macro-enabled Word ${variant === 'docm' ? 'document' : 'template'} (.${variant})`
+				: 'The file is a Word template (.dotx)',
+			`Add ".${variant}" to the accepted document types to convert it anyway`,
+		);
+	}
+
+	return { variant, uncompressedSize };
+}
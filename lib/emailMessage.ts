@@ -0,0 +1,473 @@
+/**
+ * Minimal MIME reader for .eml messages: the main headers, the HTML and
+ * plain text bodies and the attachments, with transfer encodings, charsets
+ * and encoded words (RFC 2047/2231) decoded
+ */
+
+import { JSDOM } from 'jsdom';
+
+import { imageExtension } from './docxImages';
+
+export interface EmailHeaders {
+	from?: string;
+	to: string[];
+	cc: string[];
+	subject?: string;
+	/**
+	 * ISO 8601 when the Date header can be parsed, as written otherwise
+	 */
+	date?: string;
+	messageId?: string;
+}
+
+export interface EmailAttachment {
+	/**
+	 * Binary property name the attachment is emitted under (attachment_0, attachment_1, ...)
+	 */
+	name: string;
+	fileName: string;
+	contentType: string;
+	/**
+	 * Size of the attachment in bytes
+	 */
+	size: number;
+	/**
+	 * Content-ID without angle brackets, referenced from the HTML as cid:<id>
+	 */
+	contentId?: string;
+	/**
+	 * Whether the attachment is shown inside the body (inline image) rather than attached
+	 */
+	inline: boolean;
+	data: Buffer;
+}
+
+export interface ParsedEmail {
+	headers: EmailHeaders;
+	html?: string;
+	text?: string;
+	attachments: EmailAttachment[];
+}
+
+export interface EmailBodyOptions {
+	/**
+	 * Remove the quoted history of replies and forwards' "Original Message" blocks
+	 */
+	trimQuotedReplies?: boolean;
+	/**
+	 * Remove the sender's signature
+	 */
+	removeSignature?: boolean;
+	/**
+	 * How cid: images are resolved: embedded as data URIs, or linked by attachment file name
+	 */
+	inlineImages?: 'embed' | 'link';
+}
+
+interface MimePart {
+	headers: Map<string, string>;
+	/**
+	 * Raw body, one character per byte
+	 */
+	body: string;
+}
+
+interface HeaderValue {
+	value: string;
+	params: Record<string, string>;
+}
+
+const HEADER_NAME = /^[!-9;-~]+$/;
+
+/**
+ * Lines that introduce quoted history: "On ... wrote:", Outlook's reply
+ * header and "Original Message" separators
+ */
+const REPLY_HEADERS = [
+	/^(On|Le|Am|El|Il|Op) .{1,300}(wrote|a écrit|schrieb|escribió|ha scritto|schreef)\s?:?$/i,
+	/^-{2,}\s*(Original Message|Message d'origine|Ursprüngliche Nachricht|Mensaje original)\s*-{2,}$/i,
+	/^From: .+\s(Sent|Date): /i,
+];
+
+const QUOTE_SELECTORS =
+	'blockquote[type="cite"], .gmail_quote, .yahoo_quoted, .moz-cite-prefix + blockquote, .moz-cite-prefix';
+
+/**
+ * Outlook starts the quoted history with these elements and puts it in their following siblings
+ */
+const QUOTE_START_SELECTORS = '#divRplyFwdMsg, #appendonsend';
+
+const SIGNATURE_SELECTORS =
+	'.gmail_signature, [data-smartmail="gmail_signature"], #Signature, .moz-signature, #signature';
+
+function decodeText(bytes: Buffer, charset = 'utf-8'): string {
+	try {
+		return new TextDecoder(charset.trim().toLowerCase() || 'utf-8').decode(bytes);
+	} catch {
+		// Unknown charset label
+		return bytes.toString('utf8');
+	}
+}
+
+function decodeQuotedPrintable(text: string): Buffer {
+	const joined = text.replace(/[ \t]+(?=\r?\n)/g, '').replace(/=\r?\n/g, '');
+	return Buffer.from(
+		joined.replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+			String.fromCharCode(parseInt(hex, 16)),
+		),
+		'latin1',
+	);
+}
+
+const ENCODED_WORD = /=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g;
+const ENCODED_RUN = /=\?[^?]+\?[BbQq]\?[^?]*\?=(?:\s+=\?[^?]+\?[BbQq]\?[^?]*\?=)*/g;
+
+/**
+ * Decodes RFC 2047 encoded words. Adjacent words are joined before decoding,
+ * since a multi-byte character may be split across two of them.
+ */
+function decodeWords(value: string): string {
+	return value.replace(ENCODED_RUN, (run) => {
+		let text = '';
+		let bytes: Buffer[] = [];
+		let charset = '';
+		for (const [, wordCharset, encoding, content] of run.matchAll(ENCODED_WORD)) {
+			if (bytes.length && wordCharset.toLowerCase() !== charset) {
+				text += decodeText(Buffer.concat(bytes), charset);
+				bytes = [];
+			}
+			charset = wordCharset.toLowerCase();
+			bytes.push(
+				encoding.toUpperCase() === 'B'
+					? Buffer.from(content, 'base64')
+					: decodeQuotedPrintable(content.replace(/_/g, ' ')),
+			);
+		}
+		return text + decodeText(Buffer.concat(bytes), charset);
+	});
+}
+
+/**
+ * Header value as text: raw 8-bit headers are read as UTF-8, then encoded words are decoded
+ */
+function headerText(raw: string | undefined): string | undefined {
+	if (raw === undefined) return undefined;
+	return decodeWords(decodeText(Buffer.from(raw, 'latin1'))).trim() || undefined;
+}
+
+/**
+ * Splits a header value with parameters (Content-Type, Content-Disposition),
+ * joining RFC 2231 continuations and decoding their charset
+ */
+function parseHeaderValue(raw = ''): HeaderValue {
+	const [value] = raw.split(';');
+	const sections: Record<string, Array<{ text: string; extended: boolean }>> = {};
+	const param = /;\s*([^=\s;]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+
+	for (const [, key, quoted, plain] of raw.matchAll(param)) {
+		const [, name, index, extended] = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key.toLowerCase()) ?? [];
+		if (!name) continue;
+		const text = quoted !== undefined ? quoted.replace(/\\(.)/g, '$1') : plain.trim();
+		(sections[name] ??= [])[Number(index ?? 0)] = { text, extended: !!extended };
+	}
+
+	const params: Record<string, string> = {};
+	for (const [name, parts] of Object.entries(sections)) {
+		const [first] = parts;
+		if (!first?.extended) {
+			params[name] = headerText(parts.map((part) => part?.text ?? '').join('')) ?? '';
+			continue;
+		}
+		// charset'language'percent-encoded value
+		const [charset, , ...rest] = first.text.split("'");
+		const bytes = parts.map((part, index) => {
+			const text = index === 0 ? rest.join("'") : (part?.text ?? '');
+			return part?.extended
+				? Buffer.from(
+						text.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+							String.fromCharCode(parseInt(hex, 16)),
+						),
+						'latin1',
+					)
+				: Buffer.from(text, 'latin1');
+		});
+		params[name] = decodeText(Buffer.concat(bytes), charset || 'utf-8');
+	}
+
+	return { value: value.trim().toLowerCase(), params };
+}
+
+function parsePart(raw: string): MimePart {
+	// A part without headers starts with the blank line
+	const separator = /^\r?\n|\r?\n\r?\n/.exec(raw);
+	const head = separator ? raw.slice(0, separator.index) : raw;
+	const body = separator ? raw.slice(separator.index + separator[0].length) : '';
+
+	const headers = new Map<string, string>();
+	for (const line of head.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+		const colon = line.indexOf(':');
+		const name = line.slice(0, colon).trim().toLowerCase();
+		// The first occurrence wins; mbox "From " lines have no valid header name
+		if (colon > 0 && HEADER_NAME.test(name) && !headers.has(name)) {
+			headers.set(name, line.slice(colon + 1).trim());
+		}
+	}
+	return { headers, body };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+	const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+	const parts: string[] = [];
+	let start = -1;
+	let closed = false;
+
+	for (const match of body.matchAll(delimiter)) {
+		if (start >= 0) parts.push(body.slice(start, match.index));
+		if (match[1]) {
+			closed = true;
+			break;
+		}
+		start = match.index + match[0].length;
+	}
+	// Truncated messages lack the closing delimiter
+	if (!closed && start >= 0) parts.push(body.slice(start));
+	return parts;
+}
+
+function decodeBody(part: MimePart): Buffer {
+	const encoding = (part.headers.get('content-transfer-encoding') ?? '').trim().toLowerCase();
+	if (encoding === 'base64') {
+		return Buffer.from(part.body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+	}
+	if (encoding === 'quoted-printable') return decodeQuotedPrintable(part.body);
+	return Buffer.from(part.body, 'latin1');
+}
+
+/**
+ * Splits an address list on the commas outside quotes and angle brackets
+ */
+function addressList(value: string | undefined): string[] {
+	if (!value) return [];
+	const addresses: string[] = [];
+	let current = '';
+	let quoted = false;
+	let depth = 0;
+	for (const character of value) {
+		if (character === '"') quoted = !quoted;
+		else if (!quoted && character === '<') depth++;
+		else if (!quoted && character === '>') depth = Math.max(0, depth - 1);
+		if (character === ',' && !quoted && depth === 0) {
+			addresses.push(current);
+			current = '';
+		} else {
+			current += character;
+		}
+	}
+	addresses.push(current);
+	return addresses.map((address) => address.trim()).filter((address) => address);
+}
+
+function readHeaders(headers: Map<string, string>): EmailHeaders {
+	const rawDate = headerText(headers.get('date'));
+	const date = rawDate ? new Date(rawDate) : undefined;
+	return {
+		from: headerText(headers.get('from')),
+		to: addressList(headerText(headers.get('to'))),
+		cc: addressList(headerText(headers.get('cc'))),
+		subject: headerText(headers.get('subject')),
+		date: date && !isNaN(date.getTime()) ? date.toISOString() : rawDate,
+		messageId: headerText(headers.get('message-id'))?.replace(/^<|>$/g, ''),
+	};
+}
+
+/**
+ * Parses a raw .eml message. The first text/html and text/plain parts that
+ * are not attachments become the bodies, every other leaf part (and attached
+ * messages) an attachment.
+ */
+export function parseEmail(source: Buffer | string): ParsedEmail {
+	const raw = typeof source === 'string' ? Buffer.from(source, 'utf8') : source;
+	const root = parsePart(raw.toString('latin1'));
+	const email: ParsedEmail = { headers: readHeaders(root.headers), attachments: [] };
+
+	const visit = (part: MimePart, depth: number) => {
+		const contentType = parseHeaderValue(part.headers.get('content-type') ?? 'text/plain');
+		const type = contentType.value || 'text/plain';
+
+		if (type.startsWith('multipart/') && contentType.params.boundary && depth < 20) {
+			for (const child of splitMultipart(part.body, contentType.params.boundary)) {
+				visit(parsePart(child), depth + 1);
+			}
+			return;
+		}
+
+		const disposition = parseHeaderValue(part.headers.get('content-disposition'));
+		const fileName = disposition.params.filename || contentType.params.name;
+		const isBody = disposition.value !== 'attachment' && !fileName;
+
+		if (isBody && type === 'text/html' && email.html === undefined) {
+			email.html = decodeText(decodeBody(part), contentType.params.charset);
+			return;
+		}
+		if (isBody && type === 'text/plain' && email.text === undefined) {
+			email.text = decodeText(decodeBody(part), contentType.params.charset);
+			return;
+		}
+
+		const data = decodeBody(part);
+		const name = `attachment_${email.attachments.length}`;
+		const subject =
+			type === 'message/rfc822' ? parsePart(data.toString('latin1')).headers : undefined;
+		const contentId = headerText(part.headers.get('content-id'))?.replace(/^<|>$/g, '');
+		email.attachments.push({
+			name,
+			fileName:
+				fileName ||
+				(subject ? `${headerText(subject.get('subject')) ?? 'message'}.eml` : undefined) ||
+				`${name}.${type === 'message/rfc822' ? 'eml' : imageExtension(type)}`,
+			contentType: type,
+			size: data.length,
+			contentId,
+			inline: disposition.value === 'inline' || (!!contentId && disposition.value !== 'attachment'),
+			data,
+		});
+	};
+	visit(root, 0);
+
+	return email;
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Plain text body as HTML paragraphs, keeping its line breaks
+ */
+function textToHtml(text: string): string {
+	return text
+		.split(/\r?\n\s*\r?\n/)
+		.filter((paragraph) => paragraph.trim())
+		.map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\r?\n/g, '<br>\n')}</p>`)
+		.join('\n');
+}
+
+function isReplyHeader(text: string): boolean {
+	const normalized = text.replace(/\s+/g, ' ').trim();
+	return REPLY_HEADERS.some((pattern) => pattern.test(normalized));
+}
+
+/**
+ * Cuts the plain text body at the quoted history and the "-- " signature delimiter
+ */
+function trimText(text: string, options: EmailBodyOptions): string {
+	let lines = text.split(/\r?\n/);
+
+	if (options.trimQuotedReplies) {
+		// Attribution lines are often wrapped, so each line is also tried with the next one
+		const start = lines.findIndex(
+			(line, index) => isReplyHeader(line) || isReplyHeader(`${line} ${lines[index + 1] ?? ''}`),
+		);
+		if (start >= 0) lines = lines.slice(0, start);
+		while (lines.length && /^\s*(>|$)/.test(lines[lines.length - 1])) lines.pop();
+	}
+	if (options.removeSignature) {
+		const delimiter = lines.map((line) => line.trimEnd()).lastIndexOf('--');
+		if (delimiter >= 0) lines = lines.slice(0, delimiter);
+	}
+	return lines.join('\n');
+}
+
+/**
+ * Removes a node and everything that follows it in document order
+ */
+function removeFrom(node: Node, body: HTMLElement): void {
+	for (let current: Node | null = node; current && current !== body; current = current.parentNode) {
+		while (current.nextSibling) current.nextSibling.remove();
+	}
+	(node as ChildNode).remove();
+}
+
+function trimHtml(html: string, options: EmailBodyOptions): string {
+	const dom = new JSDOM(html);
+	const { document, NodeFilter } = dom.window;
+	const body = document.body;
+
+	if (options.trimQuotedReplies) {
+		body.querySelectorAll(QUOTE_SELECTORS).forEach((element) => element.remove());
+		const outlookStart = body.querySelector(QUOTE_START_SELECTORS);
+		if (outlookStart) {
+			// Outlook draws a rule above its reply header
+			const previous = outlookStart.previousElementSibling;
+			if (previous?.tagName === 'HR') previous.remove();
+			removeFrom(outlookStart, body);
+		}
+		const replyHeader = Array.from(body.querySelectorAll('p, div, span, b, font')).find(
+			(element) => element.textContent!.length < 500 && isReplyHeader(element.textContent!),
+		);
+		if (replyHeader) removeFrom(replyHeader, body);
+	}
+
+	if (options.removeSignature) {
+		body.querySelectorAll(SIGNATURE_SELECTORS).forEach((element) => element.remove());
+		// A "-- " line of its own starts the signature
+		const walker = document.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+		let delimiter: Node | undefined;
+		for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+			const ownLine =
+				(!node.previousSibling || node.previousSibling.nodeName === 'BR') &&
+				(!node.nextSibling || node.nextSibling.nodeName === 'BR');
+			if (ownLine && node.textContent!.trim() === '--') delimiter = node;
+		}
+		if (delimiter) removeFrom(delimiter, body);
+	}
+
+	return dom.serialize();
+}
+
+/**
+ * Points cid: image sources at their attachments
+ */
+function resolveContentIds(
+	html: string,
+	attachments: EmailAttachment[],
+	mode: 'embed' | 'link',
+): string {
+	return html.replace(
+		/(\bsrc\s*=\s*["']?)cid:([^"'\s>]+)/gi,
+		(match, prefix: string, id: string) => {
+			const contentId = decodeURIComponent(id).toLowerCase();
+			const attachment = attachments.find(
+				(candidate) => candidate.contentId?.toLowerCase() === contentId,
+			);
+			if (!attachment) return match;
+			const target =
+				mode === 'embed'
+					? `data:${attachment.contentType};base64,${attachment.data.toString('base64')}`
+					: encodeURI(attachment.fileName);
+			return prefix + target;
+		},
+	);
+}
+
+/**
+ * HTML to convert for an email: the HTML body, or the plain text body when
+ * there is none, trimmed as requested and with cid: images resolved.
+ * Undefined when the email has neither.
+ */
+export function emailBodyHtml(
+	email: ParsedEmail,
+	options: EmailBodyOptions = {},
+): string | undefined {
+	let html: string;
+	if (email.html !== undefined && email.html.trim()) {
+		html = email.html;
+		if (options.trimQuotedReplies || options.removeSignature) html = trimHtml(html, options);
+	} else if (email.text !== undefined && email.text.trim()) {
+		html = textToHtml(trimText(email.text, options));
+	} else {
+		return undefined;
+	}
+	return resolveContentIds(html, email.attachments, options.inlineImages ?? 'embed');
+}
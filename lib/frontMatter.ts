@@ -0,0 +1,128 @@
+/**
+ * Minimal YAML serializer for front matter: strings, numbers, booleans,
+ * dates, arrays of scalars and nested objects. Empty values are skipped.
+ * The reader takes back the top-level scalars and lists it writes.
+ */
+
+type YamlValue = string | number | boolean | Date | null | undefined | YamlValue[] | YamlObject;
+
+interface YamlObject {
+	[key: string]: YamlValue;
+}
+
+const PLAIN_SCALAR = /^[A-Za-z0-9_][\w .,/()@+:-]*$/;
+const RESERVED = /^(true|false|yes|no|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?)$/i;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const ENTRY = /^([A-Za-z_][\w-]*|"(?:[^"\\]|\\.)*"):(?:\s+(.*))?$/;
+const LIST_ENTRY = /^\s+-\s+(.*)$/;
+
+function isEmpty(value: YamlValue): boolean {
+	if (value === undefined || value === null || value === '') return true;
+	if (Array.isArray(value)) return value.length === 0;
+	if (value instanceof Date) return isNaN(value.getTime());
+	if (typeof value === 'object') return Object.values(value).every(isEmpty);
+	return false;
+}
+
+function scalar(value: string | number | boolean | Date): string {
+	if (value instanceof Date) return value.toISOString();
+	if (typeof value !== 'string') return String(value);
+	const plain = PLAIN_SCALAR.test(value) && !RESERVED.test(value) && !/: |\s$/.test(value);
+	return plain ? value : JSON.stringify(value);
+}
+
+function key(name: string): string {
+	return /^[A-Za-z_][\w-]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function serialize(object: YamlObject, indent: string): string[] {
+	const lines: string[] = [];
+
+	for (const [name, value] of Object.entries(object)) {
+		if (isEmpty(value)) continue;
+
+		if (Array.isArray(value)) {
+			lines.push(`${indent}${key(name)}:`);
+			for (const entry of value) {
+				if (isEmpty(entry)) continue;
+				lines.push(
+					`${indent}  - ${typeof entry === 'object' && !(entry instanceof Date) ? JSON.stringify(entry) : scalar(entry as string)}`,
+				);
+			}
+		} else if (typeof value === 'object' && !(value instanceof Date)) {
+			lines.push(`${indent}${key(name)}:`);
+			lines.push(...serialize(value as YamlObject, `${indent}  `));
+		} else {
+			lines.push(`${indent}${key(name)}: ${scalar(value as string | number | boolean | Date)}`);
+		}
+	}
+
+	return lines;
+}
+
+export function toYaml(data: Record<string, unknown>): string {
+	return serialize(data as YamlObject, '').join('\n');
+}
+
+/**
+ * Wraps the data in a `---` delimited front matter block, or returns an
+ * empty string when there is nothing to write
+ */
+export function toFrontMatter(data: Record<string, unknown>): string {
+	const yaml = toYaml(data);
+	return yaml ? `---\n${yaml}\n---\n\n` : '';
+}
+
+function parseScalar(text: string): string {
+	const value = text.trim();
+	if (value.startsWith('"')) {
+		try {
+			return String(JSON.parse(value));
+		} catch {
+			return value;
+		}
+	}
+	if (/^'.*'$/.test(value)) return value.slice(1, -1).replace(/''/g, "'");
+	return value;
+}
+
+/**
+ * Takes a leading `---` delimited front matter block off the Markdown and
+ * reads its top-level values, as strings or lists of strings. Nested objects
+ * are skipped. Without front matter the data is empty.
+ */
+export function parseFrontMatter(markdown: string): {
+	data: Record<string, string | string[]>;
+	body: string;
+} {
+	const match = FRONT_MATTER.exec(markdown);
+	if (!match) return { data: {}, body: markdown };
+
+	const data: Record<string, string | string[]> = {};
+	let list: string[] | undefined;
+	for (const line of match[1].split(/\r?\n/)) {
+		const item = LIST_ENTRY.exec(line);
+		if (item && list) {
+			list.push(parseScalar(item[1]));
+			continue;
+		}
+		const entry = ENTRY.exec(line);
+		// Lines of nested objects end the list they would belong to
+		list = undefined;
+		if (!entry) continue;
+		const name = entry[1].startsWith('"') ? parseScalar(entry[1]) : entry[1];
+		if (entry[2]?.trim()) {
+			data[name] = parseScalar(entry[2]);
+		} else {
+			list = [];
+			data[name] = list;
+		}
+	}
+	// A key without value or list entries holds a nested object
+	for (const [name, value] of Object.entries(data)) {
+		if (Array.isArray(value) && !value.length) delete data[name];
+	}
+
+	return { data, body: markdown.slice(match[0].length).replace(/^(\s*\n)+/, '') };
+}
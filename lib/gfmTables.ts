@@ -0,0 +1,157 @@
+import type TurndownService from 'turndown';
+
+/**
+ * What to do with tables that use colspan/rowspan, which GFM cannot express
+ *  - html:    keep the table as raw HTML
+ *  - flatten: un-merge the cells, content stays in the first cell of the span
+ *  - skip:    drop the table
+ */
+export type MergedCellStrategy = 'html' | 'flatten' | 'skip';
+
+export interface GfmTableOptions {
+	mergedCellStrategy?: MergedCellStrategy;
+	/**
+	 * Called for every table that could not be rendered as a plain GFM table
+	 */
+	onFallback?: (strategy: MergedCellStrategy) => void;
+}
+
+/**
+ * Private use characters around the converted content of a cell, so the
+ * table rule can tell the cells apart in its content
+ */
+const CELL_START = '\uE040';
+const CELL_END = '\uE041';
+const CELL_CONTENT = new RegExp(`${CELL_START}([\\s\\S]*?)${CELL_END}`, 'g');
+
+function ownRows(table: Element): Element[] {
+	// Only rows belonging to this table, not to tables nested inside its cells
+	return Array.from(table.querySelectorAll('tr')).filter((row) => row.closest('table') === table);
+}
+
+function cellsOf(row: Element): Element[] {
+	return Array.from(row.children).filter(
+		(cell) => cell.nodeName === 'TD' || cell.nodeName === 'TH',
+	);
+}
+
+function spanOf(cell: Element, attribute: 'colspan' | 'rowspan'): number {
+	const value = parseInt(cell.getAttribute(attribute) ?? '1', 10);
+	return Number.isFinite(value) && value > 1 ? value : 1;
+}
+
+function isComplexTable(rows: Element[]): boolean {
+	return rows.some((row) =>
+		cellsOf(row).some(
+			(cell) =>
+				spanOf(cell, 'colspan') > 1 || spanOf(cell, 'rowspan') > 1 || !!cell.querySelector('table'),
+		),
+	);
+}
+
+function isHeaderRow(row: Element): boolean {
+	if (row.parentElement?.nodeName === 'THEAD') return true;
+	const cells = cellsOf(row);
+	return cells.length > 0 && cells.every((cell) => cell.nodeName === 'TH');
+}
+
+/**
+ * Lays the rows out on a rectangular grid, leaving the slots covered by a
+ * colspan/rowspan empty
+ */
+function buildGrid(rows: Element[]): Array<Array<Element | null>> {
+	const grid: Array<Array<Element | null | undefined>> = rows.map(() => []);
+
+	rows.forEach((row, r) => {
+		let c = 0;
+		for (const cell of cellsOf(row)) {
+			while (grid[r][c] !== undefined) c++;
+			const colspan = spanOf(cell, 'colspan');
+			const rowspan = spanOf(cell, 'rowspan');
+			for (let dr = 0; dr < rowspan && r + dr < rows.length; dr++) {
+				for (let dc = 0; dc < colspan; dc++) {
+					grid[r + dr][c + dc] = dr === 0 && dc === 0 ? cell : null;
+				}
+			}
+			c += colspan;
+		}
+	});
+
+	const width = Math.max(0, ...grid.map((row) => row.length));
+	return grid.map((row) => Array.from({ length: width }, (_, c) => row[c] ?? null));
+}
+
+/**
+ * Escapes a converted cell so it fits on a single table row
+ */
+export function formatCell(markdown: string): string {
+	// Hard line breaks ("  \n") lose their trailing spaces
+	return markdown
+		.trim()
+		.replace(/\|/g, '\\|')
+		.replace(/ *\n{2,}/g, '<br>')
+		.replace(/ *\n/g, '<br>')
+		.replace(/(<br>\s*)+$/, '');
+}
+
+function renderRow(cells: string[]): string {
+	return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Replaces Turndown's table handling with GitHub-Flavored Markdown pipe tables.
+ * Cells are converted in the same pass as the rest of the document, so inline
+ * formatting (bold, links, code) survives inside cells and reference-style
+ * links share the document's numbering and definitions.
+ */
+export function addGfmTableRules(td: TurndownService, options: GfmTableOptions = {}): void {
+	const { mergedCellStrategy = 'html', onFallback } = options;
+
+	td.addRule('gfmTableCell', {
+		filter: ['td', 'th'],
+		replacement: (content) => `${CELL_START}${content}${CELL_END}`,
+	});
+
+	td.addRule('gfmTable', {
+		filter: 'table',
+		replacement: (content, node) => {
+			const table = node as HTMLElement;
+			const rows = ownRows(table);
+			if (rows.length === 0) return '';
+
+			if (isComplexTable(rows)) {
+				onFallback?.(mergedCellStrategy);
+				if (mergedCellStrategy === 'skip') return '\n\n';
+				if (mergedCellStrategy === 'html') return `\n\n${table.outerHTML}\n\n`;
+			}
+
+			const grid = buildGrid(rows);
+			const width = grid[0]?.length ?? 0;
+			if (width === 0) return '';
+
+			// Nested tables are converted first, so the marks left are this table's cells
+			const converted = new Map<Element, string>();
+			const contents = Array.from(content.matchAll(CELL_CONTENT), (match) => match[1]);
+			rows.flatMap(cellsOf).forEach((cell, index) => converted.set(cell, contents[index] ?? ''));
+			const lines = grid.map((row) =>
+				row.map((cell) => (cell ? formatCell(converted.get(cell) ?? '') : '')),
+			);
+
+			// GFM needs a header row: the first row is promoted unless it is the only one
+			let header = lines[0];
+			let body = lines.slice(1);
+			if (!isHeaderRow(rows[0]) && body.length === 0) {
+				body = [header];
+				header = header.map(() => '');
+			}
+
+			const output = [
+				renderRow(header),
+				renderRow(Array.from({ length: width }, () => '---')),
+				...body.map(renderRow),
+			];
+
+			return `\n\n${output.join('\n')}\n\n`;
+		},
+	});
+}
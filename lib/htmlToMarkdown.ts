@@ -1,6 +1,31 @@
 import TurndownService from "turndown";
 import { JSDOM } from "jsdom";
 import sanitizeHtml from "sanitize-html";
+import { addGfmTableRules, type MergedCellStrategy } from "./gfmTables";
+import { insertToc, normalizeHeadings, renderToc, type TocOptions } from "./toc";
+import { buildOutline, type DocumentOutline } from "./documentOutline";
+import { applyMarkdownStyle, type MarkdownStyle } from "./markdownStyle";
+import { extractMainContent, type ArticleMetadata } from "./mainContent";
+import { addCodeBlockRule, prepareCodeBlocks } from "./codeBlocks";
+import { cleanupMarkdown } from "./markdownCleanup";
+import { addListRules, wrapTaskParagraphs } from "./markdownLists";
+import { addMathRule, MATHML_ATTRIBUTES, MATHML_TAGS, type MathHandling } from "./mathml";
+import { truncateMarkdown, type TruncationStrategy, type TruncationUnit } from "./markdownTruncation";
+import {
+  createLinkRewriter,
+  detectBaseUrl,
+  hostnameOf,
+  matchesDomain,
+  resolveUrl,
+  type LinkRewriteRule,
+} from "./linkRewriting";
+import {
+  addDroppedElement,
+  createConversionReport,
+  describeReport,
+  scoreConversion,
+  type ConversionReport,
+} from "./conversionReport";
 
 interface HtmlToMarkdownOptions {
   /**
@@ -8,101 +33,272 @@ interface HtmlToMarkdownOptions {
    */
   preserveTables?: boolean;
   /**
-   * Maximum length of output (0 = no limit)
+   * How to render tables with merged cells when preserving tables
+   */
+  mergedCellStrategy?: MergedCellStrategy;
+  /**
+   * Maximum length of output (0 = no limit), in truncationUnit
    */
   maxLength?: number;
+  truncationUnit?: TruncationUnit;
+  truncationStrategy?: TruncationStrategy;
   /**
    * Whether to include image alt text
    */
   includeImageAlt?: boolean;
   /**
-   * Custom domain whitelist for links and images
+   * Custom domain whitelist for links and images, `*.example.com` for subdomains
    */
   allowedDomains?: string[];
+  /**
+   * Domains whose links and images are removed, `*.example.com` for subdomains
+   */
+  blockedDomains?: string[];
+  /**
+   * What is left of filtered links and images: nothing, or the link text and image alt text
+   */
+  filteredElements?: "drop" | "keepText";
   /**
    * Whether to preserve line breaks
    */
   preserveLineBreaks?: boolean;
+  /**
+   * Table of contents generation and Word TOC removal
+   */
+  toc?: TocOptions;
+  /**
+   * Whether to also return a structured outline of the document
+   */
+  includeOutline?: boolean;
+  /**
+   * Markdown syntax: heading style, list marker, delimiters, link and code block style
+   */
+  markdownStyle?: MarkdownStyle;
+  /**
+   * Tags to keep on top of the built-in list, those Markdown has no syntax for stay HTML
+   */
+  additionalTags?: string[];
+  /**
+   * Attributes to keep, by tag name ("*" for every tag)
+   */
+  additionalAttributes?: Record<string, string[]>;
+  /**
+   * Tags to remove together with their content
+   */
+  removeTags?: string[];
+  /**
+   * CSS selectors of elements to remove before conversion, e.g. ".footer, nav"
+   */
+  removeSelectors?: string;
+  /**
+   * Whether to convert only the main content of a web page (Readability-style)
+   */
+  extractMainContent?: boolean;
+  /**
+   * URL relative links and images are resolved against, defaults to the page's <base href>
+   */
+  baseUrl?: string;
+  /**
+   * Rewrites applied to every link and image URL, in order
+   */
+  linkRewriteRules?: LinkRewriteRule[];
+  /**
+   * How <math> is converted: LaTeX, kept as MathML or replaced by a placeholder
+   */
+  mathHandling?: MathHandling;
 }
 
+export interface HtmlConversionResult {
+  markdown: string;
+  /**
+   * Sanitized HTML the Markdown was converted from
+   */
+  html: string;
+  /**
+   * Block list and statistics, only when includeOutline is set
+   */
+  outline?: DocumentOutline;
+  /**
+   * What was dropped or approximated, with a fidelity score
+   */
+  report: ConversionReport;
+  /**
+   * Readable summary of the report
+   */
+  warnings: string[];
+  /**
+   * Title, byline, date, site name and excerpt, only when extractMainContent is set
+   */
+  article?: ArticleMetadata;
+}
+
+/**
+ * Elements that carry content without any text
+ */
+const CONTENT_WITHOUT_TEXT = "img, br, hr, input";
+
+/**
+ * Markup around an image or media element that is dropped with no loss of
+ * its own: the image is counted once, as converted or as removed by the
+ * domain filter, and a dropped <video> or <audio> is counted by its own tag
+ */
+const IMAGE_WRAPPERS = ["picture", "source"];
+
 export function htmlToMarkdown(
   html: string, 
   options: HtmlToMarkdownOptions = {}
 ): string {
+  return convertHtml(html, options).markdown;
+}
+
+/**
+ * Same conversion as htmlToMarkdown, returning the Markdown together with
+ * the optional extras computed on the sanitized DOM
+ */
+export function convertHtml(
+  html: string,
+  options: HtmlToMarkdownOptions = {}
+): HtmlConversionResult {
   const {
     preserveTables = false,
+    mergedCellStrategy = "html",
     maxLength = 0,
+    truncationUnit = "characters",
+    truncationStrategy = "head",
     includeImageAlt = true,
     allowedDomains = [],
-    preserveLineBreaks = false
+    blockedDomains = [],
+    filteredElements = "drop",
+    preserveLineBreaks = false,
+    toc = {},
+    includeOutline = false,
+    markdownStyle = {},
+    additionalTags = [],
+    additionalAttributes = {},
+    removeTags = [],
+    removeSelectors = "",
+    extractMainContent: extractMain = false,
+    baseUrl = "",
+    linkRewriteRules = [],
+    mathHandling = "latex"
   } = options;
 
+  const report = createConversionReport();
+  const emptyResult = () => ({ markdown: '', html: '', report, warnings: [] });
+
   // Input validation
   if (!html || typeof html !== 'string') {
-    return '';
+    return emptyResult();
   }
 
   // Clean HTML to prevent JSDOM issues
   html = html.trim();
   if (html === '') {
-    return '';
+    return emptyResult();
+  }
+
+  // Links and images get absolute, rewritten URLs; in-page anchors and data URIs stay
+  const pageBaseUrl = baseUrl.trim() || detectBaseUrl(html);
+  const rewriteLink = createLinkRewriter(linkRewriteRules);
+  const rewriteUrl = (url: string) =>
+    url.startsWith("#") || url.startsWith("data:") ? url : rewriteLink(resolveUrl(url, pageBaseUrl));
+
+  // Code languages are read from highlighter classes, which sanitizing strips
+  html = prepareCodeBlocks(html);
+
+  // Selectors usually target classes and ids, so they run before sanitizing strips them
+  if (removeSelectors.trim()) {
+    const { document } = new JSDOM(html).window;
+    document.querySelectorAll(removeSelectors).forEach(element => element.remove());
+    html = document.documentElement.outerHTML;
   }
 
-  // Early return for very long content
-  if (maxLength > 0 && html.length > maxLength * 10) {
-    html = html.substring(0, maxLength * 10);
+  // The main content is picked from the whole page, before any length limit applies
+  let article: ArticleMetadata | undefined;
+  const extraWarnings: string[] = [];
+  if (extractMain) {
+    const main = extractMainContent(html);
+    html = main.html;
+    article = main.metadata;
+    if (!main.found) {
+      extraWarnings.push("No main content found, the whole page was converted");
+    }
   }
 
   // Build allowed tags list
-  const allowedTags = [
+  let allowedTags = [
     "p", "br", "b", "strong", "i", "em", "a",
-    "ul", "ol", "li", "blockquote", "code",
+    "ul", "ol", "li", "dl", "dt", "dd", "blockquote", "code",
     "pre", "h1", "h2", "h3", "h4", "h5", "h6",
-    "img", "hr"
+    "img", "hr", "input"
   ];
 
   if (preserveTables) {
     allowedTags.push("table", "thead", "tbody", "tr", "th", "td");
   }
+  allowedTags.push(...MATHML_TAGS);
+
+  const extraTags = additionalTags.filter(tag => !allowedTags.includes(tag));
+  allowedTags.push(...extraTags);
+  allowedTags = allowedTags.filter(tag => !removeTags.includes(tag));
+
+  const transformTags: Record<string, string> = {
+    // Convert semantic tags to more basic ones
+    "div": preserveLineBreaks ? "p" : "",
+    "span": "",
+    "section": "p",
+    "article": "p",
+    "header": "p",
+    "footer": "p",
+    "aside": "blockquote",
+    // Convert heading tags that are too nested
+    "h7": "h6",
+    "h8": "h6",
+  };
+  // Tags removed with their content must not be renamed into allowed ones
+  removeTags.forEach(tag => delete transformTags[tag]);
+
+  const allowedAttributes: Record<string, string[]> = {
+    // Ids and names are kept so in-page links can be pointed at heading slugs
+    a: ["href", "title", "id", "name"],
+    h1: ["id"], h2: ["id"], h3: ["id"], h4: ["id"], h5: ["id"], h6: ["id"],
+    pre: ["data-language"],
+    // Start numbers of ordered lists and the state of task list checkboxes
+    ol: ["start"],
+    input: ["type", "checked"],
+    img: includeImageAlt ? ["src", "alt", "title"] : ["src", "title"],
+    // Spans are needed to detect merged cells GFM tables cannot express
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan"],
+  };
+  for (const tag of MATHML_TAGS) {
+    allowedAttributes[tag] = MATHML_ATTRIBUTES;
+  }
+  for (const [tag, attributes] of Object.entries(additionalAttributes)) {
+    allowedAttributes[tag] = [...(allowedAttributes[tag] ?? []), ...attributes];
+  }
 
   // 1. Sanitize input: remove scripts, styles, and unwanted tags
   const sanitized = sanitizeHtml(html, {
     allowedTags,
-    allowedAttributes: {
-      a: ["href", "title"],
-      img: includeImageAlt ? ["src", "alt", "title"] : ["src", "title"],
-    },
+    allowedAttributes,
+    nonTextTags: ["script", "style", "textarea", "option", "noscript", ...removeTags],
     allowedSchemes: ["http", "https", "mailto"],
     allowedSchemesByTag: {
       img: ["http", "https", "data"],
     },
-    transformTags: {
-      // Convert semantic tags to more basic ones
-      "div": preserveLineBreaks ? "p" : "",
-      "span": "",
-      "section": "p",
-      "article": "p",
-      "header": "p",
-      "footer": "p",
-      "aside": "blockquote",
-      // Convert heading tags that are too nested
-      "h7": "h6",
-      "h8": "h6",
-    },
-    // Filter URLs if domain whitelist is provided
+    transformTags,
     allowedIframeHostnames: [],
-    exclusiveFilter: (frame) => {
-      if (allowedDomains.length === 0) return false;
-      
-      if (frame.tag === 'a' && frame.attribs.href) {
-        try {
-          const url = new URL(frame.attribs.href);
-          return !allowedDomains.includes(url.hostname);
-        } catch {
-          return true; // Remove malformed URLs
-        }
+    // Checkboxes are kept for task lists, form fields are not
+    exclusiveFilter: (frame) => frame.tag === "input" && frame.attribs.type?.toLowerCase() !== "checkbox",
+    // Record what the sanitizer drops, the document wrapper, image markup and requested removals aside
+    onOpenTag: (name) => {
+      if (
+        !allowedTags.includes(name) && !(name in transformTags) && !removeTags.includes(name) &&
+        name !== "html" && name !== "body" && !IMAGE_WRAPPERS.includes(name)
+      ) {
+        addDroppedElement(report, name);
       }
-      return false;
     }
   });
 
@@ -124,10 +320,51 @@ export function htmlToMarkdown(
     } catch (fallbackError) {
       // If both attempts fail, return empty string
       console.error('Both JSDOM parsing attempts failed:', fallbackError instanceof Error ? fallbackError.message : String(fallbackError));
-      return '';
+      return emptyResult();
     }
   }
 
+  // Slugs are assigned before empty bookmark anchors are cleaned up below
+  const headings = normalizeHeadings(document.body, toc);
+
+  // Relative and tracking URLs are replaced by absolute, rewritten ones
+  document.body.querySelectorAll("a[href]").forEach(link => {
+    link.setAttribute("href", rewriteUrl(link.getAttribute("href")!));
+  });
+  document.body.querySelectorAll("img[src]").forEach(image => {
+    image.setAttribute("src", rewriteUrl(image.getAttribute("src")!));
+  });
+
+  // Domain filter on the final URLs: links resolved against the base URL are checked by the
+  // host they resolve to, only links left relative (no base URL) point to the page's own site and stay
+  const isFiltered = (url: string) => {
+    const hostname = hostnameOf(url);
+    if (hostname === undefined) return false;
+    return (allowedDomains.length > 0 && !matchesDomain(hostname, allowedDomains)) ||
+      matchesDomain(hostname, blockedDomains);
+  };
+  document.body.querySelectorAll("a[href]").forEach(link => {
+    const href = link.getAttribute("href")!;
+    if (!isFiltered(href)) return;
+    report.removedLinks.push(href);
+    if (filteredElements === "keepText") {
+      link.replaceWith(...Array.from(link.childNodes));
+    } else {
+      link.remove();
+    }
+  });
+  document.body.querySelectorAll("img[src]").forEach(image => {
+    const src = image.getAttribute("src")!;
+    if (!isFiltered(src)) return;
+    report.removedImages.push(src);
+    const alt = image.getAttribute("alt")?.trim();
+    if (filteredElements === "keepText" && alt) {
+      image.replaceWith(document.createTextNode(alt));
+    } else {
+      image.remove();
+    }
+  });
+
   // Pre-processing: clean up empty elements and normalize whitespace
   const walker = document.createTreeWalker(
     document.body,
@@ -135,6 +372,10 @@ export function htmlToMarkdown(
     {
       acceptNode: (node: any) => {
         const element = node as Element;
+        // Math has elements without text (mspace, none) that carry meaning
+        if (element.tagName.toLowerCase() === "math") {
+          return domWindow.NodeFilter.FILTER_REJECT;
+        }
         // Remove empty paragraphs and divs
         if (['p', 'div'].includes(element.tagName.toLowerCase()) && 
             !element.textContent?.trim()) {
@@ -149,15 +390,20 @@ export function htmlToMarkdown(
   let node;
   while (node = walker.nextNode()) {
     const element = node as Element;
-    if (!element.textContent?.trim()) {
+    // Images and line breaks have no text but are content
+    const hasContent = element.matches(CONTENT_WITHOUT_TEXT) ||
+      element.querySelector(CONTENT_WITHOUT_TEXT) !== null;
+    if (!element.textContent?.trim() && !hasContent) {
       elementsToRemove.push(element);
     }
   }
 
   elementsToRemove.forEach(el => el.remove());
 
+  const outline = includeOutline ? buildOutline(document.body) : undefined;
+
   // 3. Initialize Turndown with enhanced options
-  const turndown = new TurndownService({
+  const turndown = new TurndownService(applyMarkdownStyle({
     headingStyle: "atx", // # Heading
     codeBlockStyle: "fenced", // ``` code blocks
     emDelimiter: "*", // *italic*
@@ -167,7 +413,7 @@ export function htmlToMarkdown(
     linkReferenceStyle: "full", // [text][1] [1]: url
     hr: "---", // horizontal rule
     br: preserveLineBreaks ? "\n" : " ", // line break handling
-  });
+  }, markdownStyle));
 
   // Custom rules for better conversion
   turndown.addRule('removeEmptyParagraphs', {
@@ -206,33 +452,65 @@ export function htmlToMarkdown(
     }
   });
 
+  if (preserveTables) {
+    addGfmTableRules(turndown, {
+      mergedCellStrategy,
+      onFallback: (strategy) => report.tableFallbacks[strategy]++
+    });
+  }
+
+  // Nested, ordered, task and definition lists
+  addListRules(turndown);
+  addMathRule(turndown, mathHandling);
+
+  // Fenced code blocks get the language detected before sanitizing
+  addCodeBlockRule(turndown);
+
   // Remove unwanted elements that might have slipped through
   turndown.remove(["script", "style", "meta", "link", "noscript", "iframe"]);
 
+  // Extra allowed tags without a Markdown rule (sup, u, ...) stay as HTML
+  if (extraTags.length > 0) {
+    turndown.keep((node) => extraTags.includes(node.nodeName.toLowerCase()));
+  }
+
+  // Paragraphs starting with a checkbox become task list items
+  wrapTaskParagraphs(document.body);
+
+  report.imagesConverted = document.body.querySelectorAll("img").length;
+
   // 4. Convert to Markdown
-  let markdown = turndown.turndown(document.body.innerHTML);
-
-  // Post-processing cleanup
-  markdown = markdown
-    // Remove excessive newlines (more than 2 consecutive)
-    .replace(/\n{3,}/g, '\n\n')
-    // Remove leading/trailing whitespace
-    .trim()
-    // Fix spacing around headers
-    .replace(/\n+#/g, '\n\n#')
-    // Clean up list formatting
-    .replace(/\n+(\s*[-*+])/g, '\n$1')
-    // Remove empty links
-    .replace(/\[]\([^)]*\)/g, '')
-    // Clean up multiple spaces
-    .replace(/ {2,}/g, ' ');
-
-  // Apply length limit if specified
-  if (maxLength > 0 && markdown.length > maxLength) {
-    markdown = markdown.substring(0, maxLength) + '...';
+  const cleanHtml = document.body.innerHTML;
+  let markdown = turndown.turndown(cleanHtml);
+
+  // Post-processing cleanup; code blocks and code spans are left as they are
+  markdown = cleanupMarkdown(markdown);
+
+  if (toc.generate) {
+    markdown = insertToc(markdown, renderToc(headings, toc.maxDepth), toc.position);
+  }
+
+  // Apply length limit if specified, at block boundaries
+  const truncation = truncateMarkdown(markdown, {
+    maxSize: maxLength,
+    unit: truncationUnit,
+    strategy: truncationStrategy,
+  });
+  if (truncation.truncated) {
+    markdown = truncation.markdown;
+    report.truncated = true;
+    report.originalLength = truncation.originalLength;
   }
 
-  return markdown;
+  scoreConversion(report);
+  return {
+    markdown,
+    html: cleanHtml,
+    outline,
+    report,
+    warnings: [...describeReport(report), ...extraWarnings],
+    article
+  };
 }
 
 /**
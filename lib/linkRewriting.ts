@@ -0,0 +1,140 @@
+/**
+ * Rewrite applied to every link and image URL:
+ *  - removeParams:    drop query parameters by name, `*` matches any suffix (utm_*)
+ *  - replace:         regular expression replacement on the whole URL
+ *  - unwrapRedirects: replace redirector URLs by the target in one of the given parameters
+ */
+export type LinkRewriteRule =
+	| { type: 'removeParams'; params: string[] }
+	| { type: 'replace'; pattern: string; replacement: string }
+	| { type: 'unwrapRedirects'; params: string[] };
+
+const SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+/**
+ * Whether a URL is relative to the page (no scheme, not protocol-relative)
+ */
+export function isRelativeUrl(url: string): boolean {
+	return !SCHEME.test(url) && !url.startsWith('//');
+}
+
+/**
+ * The `<base href>` of a page, if it has one
+ */
+export function detectBaseUrl(html: string): string | undefined {
+	const match = /<base\s[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i.exec(html);
+	const href = match?.[1] ?? match?.[2] ?? match?.[3];
+	return href?.trim() || undefined;
+}
+
+/**
+ * Resolves a URL against the base URL; in-page anchors and URLs that cannot
+ * be resolved are returned as they are
+ */
+export function resolveUrl(url: string, baseUrl?: string): string {
+	if (!baseUrl || url.startsWith('#')) return url;
+	try {
+		return new URL(url, baseUrl).href;
+	} catch {
+		return url;
+	}
+}
+
+/**
+ * Host name of a web URL (http, https or protocol-relative), empty for a
+ * malformed one and undefined for relative, mailto:, data: and other URLs
+ */
+export function hostnameOf(url: string): string | undefined {
+	if (!/^(https?:)?\/\//i.test(url)) return undefined;
+	try {
+		return new URL(url, 'https://localhost').hostname.toLowerCase();
+	} catch {
+		return '';
+	}
+}
+
+/**
+ * Whether a host name is in the list: `example.com` matches only itself,
+ * `*.example.com` matches its subdomains
+ */
+export function matchesDomain(hostname: string, domains: string[]): boolean {
+	return domains.some((domain) => {
+		const pattern = domain.trim().toLowerCase();
+		return pattern.startsWith('*.') ? hostname.endsWith(pattern.slice(1)) : hostname === pattern;
+	});
+}
+
+function wildcardPattern(name: string): RegExp {
+	const source = name.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+	return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Compiles the rules into a function that rewrites one URL. Throws on an
+ * invalid regular expression.
+ */
+export function createLinkRewriter(rules: LinkRewriteRule[]): (url: string) => string {
+	const steps = rules.map((rule): ((url: string) => string) => {
+		if (rule.type === 'replace') {
+			let pattern: RegExp;
+			try {
+				pattern = new RegExp(rule.pattern, 'g');
+			} catch (error) {
+				throw new Error(
+					`Invalid link rewrite pattern "${rule.pattern}": ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+			return (url) => url.replace(pattern, rule.replacement);
+		}
+
+		const params = rule.params.map(wildcardPattern);
+		if (rule.type === 'removeParams') {
+			return (url) =>
+				withParsedUrl(url, (parsed) => {
+					for (const name of Array.from(parsed.searchParams.keys())) {
+						if (params.some((param) => param.test(name))) parsed.searchParams.delete(name);
+					}
+				});
+		}
+
+		return (url) => {
+			// Nested redirectors (a safelink around a tracking link) are unwrapped in turn
+			for (let depth = 0; depth < 5; depth++) {
+				const target = redirectTarget(url, params);
+				if (!target) break;
+				url = target;
+			}
+			return url;
+		};
+	});
+
+	return (url) => steps.reduce((current, step) => step(current), url);
+}
+
+/**
+ * Applies a change to an absolute URL; relative URLs are returned unchanged
+ */
+function withParsedUrl(url: string, change: (parsed: URL) => void): string {
+	if (isRelativeUrl(url)) return url;
+	try {
+		const parsed = new URL(url);
+		const before = parsed.href;
+		change(parsed);
+		// Untouched URLs keep their original spelling
+		return parsed.href === before ? url : parsed.href.replace(/\?$/, '');
+	} catch {
+		return url;
+	}
+}
+
+function redirectTarget(url: string, params: RegExp[]): string | undefined {
+	if (isRelativeUrl(url)) return undefined;
+	try {
+		for (const [name, value] of new URL(url).searchParams) {
+			if (params.some((param) => param.test(name)) && /^https?:\/\//i.test(value)) return value;
+		}
+	} catch {
+		// Not a parseable URL, nothing to unwrap
+	}
+	return undefined;
+}
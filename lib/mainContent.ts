@@ -0,0 +1,268 @@
+import { JSDOM } from 'jsdom';
+
+/**
+ * Article details read from the page's meta tags, JSON-LD and markup
+ */
+export interface ArticleMetadata {
+	title?: string;
+	byline?: string;
+	publishedDate?: string;
+	siteName?: string;
+	excerpt?: string;
+}
+
+export interface MainContent {
+	/**
+	 * HTML of the main content, or of the page without its clutter when none was found
+	 */
+	html: string;
+	found: boolean;
+	metadata: ArticleMetadata;
+}
+
+/**
+ * Elements that are never part of an article
+ */
+const REMOVED_TAGS =
+	'script, style, noscript, template, iframe, svg, canvas, form, button, input, select, textarea, nav, aside, dialog';
+
+const REMOVED_ROLES =
+	'[role="navigation"], [role="menu"], [role="menubar"], [role="complementary"], [role="alert"], [role="alertdialog"], [role="dialog"], [aria-hidden="true"], [hidden]';
+
+const UNLIKELY =
+	/banner|breadcrumb|combx|comment|community|consent|cookie|disqus|footer|gdpr|header|menu|modal|newsletter|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|supplemental/i;
+const MAYBE_CANDIDATE = /article|body|column|content|main|post|entry|story/i;
+const POSITIVE = /article|body|content|entry|h-entry|hentry|main|page|post|text|blog|story/i;
+const NEGATIVE =
+	/-ad-|hidden|banner|combx|comment|contact|foot|gdpr|masthead|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|tool|widget/i;
+
+/**
+ * Starting score of a candidate by tag; <main> and <article> mark the content explicitly
+ */
+const TAG_SCORES: Record<string, number> = {
+	MAIN: 25,
+	ARTICLE: 25,
+	DIV: 5,
+	SECTION: 5,
+	PRE: 3,
+	TD: 3,
+	BLOCKQUOTE: 3,
+	ADDRESS: -3,
+	OL: -3,
+	UL: -3,
+	DL: -3,
+	DD: -3,
+	DT: -3,
+	LI: -3,
+	FORM: -3,
+	H1: -5,
+	H2: -5,
+	H3: -5,
+	H4: -5,
+	H5: -5,
+	H6: -5,
+	TH: -5,
+};
+
+const BLOCK_CHILDREN = 'p, div, section, article, table, ul, ol, pre, blockquote, h1, h2, h3, h4';
+
+function textOf(element: Element): string {
+	return (element.textContent ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Share of the element's text that is link text
+ */
+function linkDensity(element: Element): number {
+	const length = textOf(element).length;
+	if (!length) return 0;
+	const linkLength = Array.from(element.querySelectorAll('a')).reduce(
+		(total, link) => total + textOf(link).length,
+		0,
+	);
+	return linkLength / length;
+}
+
+function classWeight(element: Element): number {
+	const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+	return (NEGATIVE.test(names) ? -25 : 0) + (POSITIVE.test(names) ? 25 : 0);
+}
+
+/**
+ * Removes scripts, navigation, banners, sidebars and other page chrome
+ */
+function removeClutter(body: HTMLElement): void {
+	body.querySelectorAll(`${REMOVED_TAGS}, ${REMOVED_ROLES}`).forEach((element) => element.remove());
+	// Page headers and footers go, those of the article itself stay
+	for (const element of Array.from(body.querySelectorAll('header, footer'))) {
+		if (!element.closest('article, main')) element.remove();
+	}
+
+	for (const element of Array.from(body.querySelectorAll('*'))) {
+		if (!element.isConnected || ['MAIN', 'ARTICLE', 'A'].includes(element.tagName)) continue;
+		if (element.closest('table, pre, code')) continue;
+		const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+		if (UNLIKELY.test(names) && !MAYBE_CANDIDATE.test(names)) element.remove();
+	}
+}
+
+/**
+ * Scores the elements that may hold the article: paragraphs score their
+ * ancestors by length and commas, candidates are weighted by tag, class names
+ * and link density, like Mozilla's Readability
+ */
+function scoreCandidates(body: HTMLElement): Map<Element, number> {
+	const scores = new Map<Element, number>();
+
+	const paragraphs = Array.from(
+		body.querySelectorAll('p, pre, td, blockquote, div, section'),
+	).filter(
+		(element) =>
+			!['DIV', 'SECTION'].includes(element.tagName) || !element.querySelector(BLOCK_CHILDREN),
+	);
+
+	for (const paragraph of paragraphs) {
+		const text = textOf(paragraph);
+		if (text.length < 25) continue;
+		const score = 1 + text.split(/[,，、]/).length - 1 + Math.min(Math.floor(text.length / 100), 3);
+
+		let ancestor = paragraph.parentElement;
+		for (let level = 0; ancestor && ancestor !== body.parentElement && level < 5; level++) {
+			if (!scores.has(ancestor)) {
+				scores.set(ancestor, (TAG_SCORES[ancestor.tagName] ?? 0) + classWeight(ancestor));
+			}
+			const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+			scores.set(ancestor, scores.get(ancestor)! + score / divider);
+			ancestor = ancestor.parentElement;
+		}
+	}
+
+	for (const [element, score] of scores) {
+		scores.set(element, score * (1 - linkDensity(element)));
+	}
+	return scores;
+}
+
+function meta(document: Document, ...names: string[]): string | undefined {
+	for (const name of names) {
+		const content = document
+			.querySelector(`meta[property="${name}"], meta[name="${name}"], meta[itemprop="${name}"]`)
+			?.getAttribute('content')
+			?.trim();
+		if (content) return content;
+	}
+	return undefined;
+}
+
+/**
+ * Article objects from JSON-LD scripts (including @graph lists)
+ */
+function readJsonLd(document: Document): Array<Record<string, unknown>> {
+	const objects: Array<Record<string, unknown>> = [];
+	for (const script of Array.from(
+		document.querySelectorAll('script[type="application/ld+json"]'),
+	)) {
+		try {
+			const data = JSON.parse(script.textContent ?? '');
+			const queue = Array.isArray(data) ? data : [data];
+			for (const item of queue) {
+				if (!item || typeof item !== 'object') continue;
+				if (Array.isArray(item['@graph'])) queue.push(...item['@graph']);
+				else objects.push(item);
+			}
+		} catch {
+			// Broken JSON-LD is common, the other sources still apply
+		}
+	}
+	return objects;
+}
+
+function nameOf(value: unknown): string | undefined {
+	if (typeof value === 'string') return value.trim() || undefined;
+	if (Array.isArray(value)) {
+		const names = value.map(nameOf).filter((name): name is string => !!name);
+		return names.length ? names.join(', ') : undefined;
+	}
+	if (value && typeof value === 'object' && 'name' in value) return nameOf(value.name);
+	return undefined;
+}
+
+function readMetadata(document: Document): ArticleMetadata {
+	const jsonLd = readJsonLd(document).find((item) => item.headline || item.datePublished) ?? {};
+
+	const siteName = meta(document, 'og:site_name', 'application-name') ?? nameOf(jsonLd.publisher);
+
+	let title =
+		meta(document, 'og:title', 'twitter:title') ??
+		nameOf(jsonLd.headline) ??
+		(document.title.trim() || undefined);
+	// "Article | Site" titles lose the site part
+	if (title && !meta(document, 'og:title', 'twitter:title')) {
+		const parts = title.split(/\s+[|\-–—:»]\s+/);
+		if (parts.length > 1 && parts[0].split(/\s+/).length >= 3) title = parts[0];
+		else if (siteName && parts.length > 1 && parts[parts.length - 1] === siteName) {
+			title = parts.slice(0, -1).join(' - ');
+		}
+	}
+	const heading = document.querySelector('h1');
+	title ??= (heading && textOf(heading)) || undefined;
+
+	const bylineElement = document.querySelector(
+		'[rel="author"], [itemprop="author"], .byline, .author, [class*="byline"]',
+	);
+	const bylineText = bylineElement ? textOf(bylineElement) : '';
+	const byline =
+		meta(document, 'author', 'article:author', 'twitter:creator') ??
+		nameOf(jsonLd.author) ??
+		(bylineText && bylineText.length < 100 ? bylineText.replace(/^by\s+/i, '') : undefined);
+
+	const publishedDate =
+		meta(document, 'article:published_time', 'datePublished', 'date', 'DC.date.issued') ??
+		(typeof jsonLd.datePublished === 'string' ? jsonLd.datePublished : undefined) ??
+		document.querySelector('time[datetime]')?.getAttribute('datetime') ??
+		undefined;
+
+	const excerpt = meta(document, 'og:description', 'description', 'twitter:description');
+
+	return { title, byline, publishedDate, siteName, excerpt };
+}
+
+/**
+ * Picks the main content of a web page (article body without navigation,
+ * banners, sidebars and footers) and reads the article metadata
+ */
+export function extractMainContent(html: string): MainContent {
+	const { document } = new JSDOM(html).window;
+	const metadata = readMetadata(document);
+	const body = document.body;
+
+	removeClutter(body);
+	const scores = scoreCandidates(body);
+	let top: Element | undefined;
+	for (const [element, score] of scores) {
+		if (score > 0 && (!top || score > scores.get(top)!)) top = element;
+	}
+	if (!top) {
+		return { html: body.innerHTML, found: false, metadata };
+	}
+
+	// Siblings that look like part of the article (split containers, loose paragraphs) come along
+	const threshold = Math.max(10, scores.get(top)! * 0.2);
+	const parent = top.parentElement;
+	const siblings = parent && top !== body ? Array.from(parent.children) : [];
+	const content = siblings.filter((sibling) => {
+		if (sibling === top || (scores.get(sibling) ?? 0) >= threshold) return true;
+		if (sibling.tagName !== 'P') return false;
+		const text = textOf(sibling);
+		const density = linkDensity(sibling);
+		return (text.length > 80 && density < 0.25) || (density === 0 && /\.( |$)/.test(text));
+	});
+
+	metadata.excerpt ??= textOf(top.querySelector('p') ?? top).slice(0, 300) || undefined;
+
+	return {
+		html: top === body ? body.innerHTML : content.map((element) => element.outerHTML).join('\n'),
+		found: true,
+		metadata,
+	};
+}
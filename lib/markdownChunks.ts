@@ -0,0 +1,347 @@
+export type SplitMode = 'heading' | 'size' | 'both';
+
+export type ChunkSizeUnit = 'characters' | 'tokens';
+
+export interface SplitOptions {
+	mode: SplitMode;
+	/**
+	 * Headings at this level or above start a new chunk (heading and both modes)
+	 */
+	headingLevel?: number;
+	/**
+	 * Maximum chunk size (size and both modes), in `unit`
+	 */
+	maxSize?: number;
+	/**
+	 * Size of the context repeated from the end of the previous chunk, in `unit`
+	 */
+	overlap?: number;
+	unit?: ChunkSizeUnit;
+}
+
+export interface MarkdownChunk {
+	text: string;
+	index: number;
+	total: number;
+	/**
+	 * Breadcrumb of the headings the chunk sits under, outermost first
+	 */
+	headingPath: string[];
+	/**
+	 * Character offsets of the chunk in the full Markdown (end is exclusive)
+	 */
+	startOffset: number;
+	endOffset: number;
+}
+
+export type BlockKind = 'text' | 'fence' | 'table' | 'list' | 'frontMatter';
+
+export interface Block {
+	start: number;
+	end: number;
+	/**
+	 * Tables, code blocks, list items and front matter are never split
+	 */
+	atomic: boolean;
+	kind?: BlockKind;
+	heading?: { level: number; text: string };
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s/;
+const TABLE_ROW = /^\s*\|/;
+
+/**
+ * Rough token estimate for LLM budgets (about four characters per token)
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function measure(text: string, unit: ChunkSizeUnit): number {
+	return unit === 'tokens' ? estimateTokens(text) : text.length;
+}
+
+/**
+ * Cuts Markdown into blocks separated by blank lines, keeping fenced code,
+ * tables, front matter and list items (with their indented continuation) whole
+ */
+export function splitBlocks(markdown: string): Block[] {
+	const blocks: Block[] = [];
+	const lines = markdown.split('\n');
+
+	let offset = 0;
+	let current: Block | undefined;
+	let kind: BlockKind | undefined;
+	let fenceMarker = '';
+
+	const close = () => {
+		if (current) {
+			// Trailing newlines belong between blocks, not to them
+			current.end = current.start + markdown.slice(current.start, current.end).trimEnd().length;
+			blocks.push(current);
+		}
+		current = undefined;
+		kind = undefined;
+	};
+
+	const open = (start: number, newKind: BlockKind, atomic: boolean) => {
+		close();
+		current = { start, end: start, atomic, kind: newKind };
+		kind = newKind;
+	};
+
+	lines.forEach((line, index) => {
+		const start = offset;
+		const end = offset + line.length;
+		offset = end + 1;
+
+		if (kind === 'frontMatter' || kind === 'fence') {
+			current!.end = end;
+			if (kind === 'frontMatter' && /^(---|\.\.\.)\s*$/.test(line)) close();
+			else if (
+				kind === 'fence' &&
+				line.trim().startsWith(fenceMarker) &&
+				!line.trim().slice(fenceMarker.length).trim()
+			) {
+				close();
+			}
+			return;
+		}
+
+		if (index === 0 && line === '---') {
+			open(start, 'frontMatter', true);
+			current!.end = end;
+			return;
+		}
+
+		if (!line.trim()) {
+			// A blank line inside a list item only ends it when the next line is not indented
+			const next = lines[index + 1] ?? '';
+			if (kind === 'list' && /^(\s{2,}|\t)\S/.test(next) && !LIST_ITEM.test(next)) return;
+			close();
+			return;
+		}
+
+		const fence = FENCE.exec(line);
+		if (fence) {
+			open(start, 'fence', true);
+			fenceMarker = fence[1];
+			current!.end = end;
+			return;
+		}
+
+		// A setext underline (=== or ---) turns the paragraph above it into a heading
+		const underline = SETEXT_UNDERLINE.exec(line);
+		if (underline && kind === 'text' && !current!.heading) {
+			const text = markdown
+				.slice(current!.start, start - 1)
+				.split('\n')
+				// Hard line breaks inside the heading text are joined with a space
+				.map((headingLine) => headingLine.trim().replace(/\\$/, ''))
+				.join(' ');
+			current!.end = end;
+			current!.heading = { level: underline[1].startsWith('=') ? 1 : 2, text };
+			close();
+			return;
+		}
+
+		const heading = HEADING.exec(line);
+		if (heading) {
+			open(start, 'text', false);
+			current!.end = end;
+			current!.heading = { level: heading[1].length, text: heading[2] };
+			close();
+			return;
+		}
+
+		const listItem = LIST_ITEM.exec(line);
+		if (listItem && (listItem[1].length < 2 || kind !== 'list')) {
+			// Every top-level list item is a block of its own; nested items stay with their parent
+			open(start, 'list', true);
+		} else if (TABLE_ROW.test(line) && kind !== 'table' && kind !== 'list') {
+			open(start, 'table', true);
+		} else if (!current || (kind === 'table' && !TABLE_ROW.test(line))) {
+			open(start, 'text', false);
+		}
+
+		current!.end = end;
+	});
+
+	close();
+	return blocks;
+}
+
+/**
+ * Breaks a paragraph that is larger than the limit at sentence, then word, boundaries
+ */
+function splitOversized(
+	block: Block,
+	markdown: string,
+	maxSize: number,
+	unit: ChunkSizeUnit,
+): Block[] {
+	const text = markdown.slice(block.start, block.end);
+	if (block.atomic || block.heading || measure(text, unit) <= maxSize) return [block];
+
+	const pieces: Block[] = [];
+	const boundaries = /[.!?](?=\s)|\s(?=\S)/g;
+	let pieceStart = 0;
+	let lastBoundary = 0;
+	let match: RegExpExecArray | null;
+
+	while ((match = boundaries.exec(text))) {
+		const boundary = match.index + 1;
+		if (measure(text.slice(pieceStart, boundary), unit) > maxSize && lastBoundary > pieceStart) {
+			pieces.push({
+				start: block.start + pieceStart,
+				end: block.start + lastBoundary,
+				atomic: false,
+			});
+			pieceStart = lastBoundary;
+			while (/\s/.test(text[pieceStart] ?? '')) pieceStart++;
+		}
+		lastBoundary = boundary;
+	}
+	pieces.push({ start: block.start + pieceStart, end: block.end, atomic: false });
+
+	return pieces
+		.map((piece) => ({
+			...piece,
+			end: piece.start + markdown.slice(piece.start, piece.end).trimEnd().length,
+		}))
+		.filter((piece) => piece.end > piece.start);
+}
+
+/**
+ * Splits Markdown into chunks for retrieval: at headings, by size, or both.
+ * Chunks never cut through a code block, table or list item, and stay within
+ * the maximum size with their overlap unless a single such block is larger.
+ * Front matter and headings go with the content after them. There is always
+ * at least one chunk.
+ */
+export function splitMarkdown(markdown: string, options: SplitOptions): MarkdownChunk[] {
+	const { mode, headingLevel = 2, unit = 'characters' } = options;
+	const bySize = mode !== 'heading' && (options.maxSize ?? 0) > 0;
+	const byHeading = mode !== 'size';
+	const maxSize = options.maxSize ?? 0;
+	const overlap = bySize ? Math.max(0, Math.min(options.overlap ?? 0, maxSize / 2)) : 0;
+
+	const size = (from: number, to: number) => measure(markdown.slice(from, to), unit);
+	// Front matter and headings are kept with the content that follows them
+	const leadsIn = (block: Block) => !!block.heading || block.kind === 'frontMatter';
+
+	let blocks = splitBlocks(markdown);
+	if (bySize) {
+		const whole = blocks;
+		blocks = whole.flatMap((block, index) => {
+			// Pieces leave room for the blocks leading into them and the overlap
+			let from = block.start;
+			for (let b = index - 1; b >= 0 && leadsIn(whole[b]); b--) from = whole[b].start;
+			const limit = Math.max(1, maxSize - overlap - size(from, block.start));
+			return splitOversized(block, markdown, limit, unit);
+		});
+	}
+
+	interface Draft {
+		blocks: Block[];
+		overlapStart?: number;
+		headingPath: string[];
+	}
+
+	const drafts: Draft[] = [];
+	const headingStack: Array<{ level: number; text: string }> = [];
+	let draft: Draft | undefined;
+
+	const startDraft = (previous?: Draft) => {
+		let overlapStart: number | undefined;
+		if (previous && overlap > 0) {
+			// Repeat whole trailing blocks of the previous chunk while they fit the overlap
+			const last = previous.blocks[previous.blocks.length - 1];
+			for (let b = previous.blocks.length - 1; b > 0; b--) {
+				if (size(previous.blocks[b].start, last.end) > overlap) break;
+				overlapStart = previous.blocks[b].start;
+			}
+			// Otherwise the end of a text block, from the first word that fits
+			if (overlapStart === undefined && !last.atomic && !last.heading) {
+				const text = markdown.slice(last.start, last.end);
+				for (const match of text.matchAll(/\s+/g)) {
+					const start = last.start + match.index + match[0].length;
+					if (size(start, last.end) <= overlap) {
+						overlapStart = start;
+						break;
+					}
+				}
+			}
+		}
+		draft = { blocks: [], overlapStart, headingPath: headingStack.map((h) => h.text) };
+		drafts.push(draft);
+	};
+
+	for (const block of blocks) {
+		if (block.heading) {
+			while (
+				headingStack.length &&
+				headingStack[headingStack.length - 1].level >= block.heading.level
+			) {
+				headingStack.pop();
+			}
+			headingStack.push(block.heading);
+			if (
+				byHeading &&
+				block.heading.level <= headingLevel &&
+				draft?.blocks.some((b) => b.kind !== 'frontMatter')
+			) {
+				draft = undefined;
+			}
+		}
+
+		// A heading or the front matter is never left alone at the end of a chunk
+		if (
+			draft?.blocks.some((b) => !leadsIn(b)) &&
+			bySize &&
+			size(draft.overlapStart ?? draft.blocks[0].start, block.end) > maxSize
+		) {
+			const previous = draft!;
+			const leading: Block[] = [];
+			while (leadsIn(previous.blocks[previous.blocks.length - 1])) {
+				leading.unshift(previous.blocks.pop()!);
+			}
+			startDraft(previous);
+			draft!.blocks.push(...leading);
+			// The overlap gives way to a block too large to share the chunk with it
+			if (draft!.overlapStart !== undefined && size(draft!.overlapStart, block.end) > maxSize) {
+				draft!.overlapStart = undefined;
+			}
+		}
+		if (!draft) startDraft();
+
+		if (draft!.blocks.every((b) => b.kind === 'frontMatter')) {
+			draft!.headingPath = headingStack.map((h) => h.text);
+		}
+		draft!.blocks.push(block);
+	}
+
+	const chunks = drafts
+		.filter((d) => d.blocks.length > 0)
+		.map((d, index, all) => {
+			const startOffset = d.overlapStart ?? d.blocks[0].start;
+			const endOffset = d.blocks[d.blocks.length - 1].end;
+			return {
+				text: markdown.slice(startOffset, endOffset),
+				index,
+				total: all.length,
+				headingPath: d.headingPath,
+				startOffset,
+				endOffset,
+			};
+		});
+
+	// An empty document is still one (empty) chunk, so its item is not dropped
+	if (chunks.length === 0) {
+		return [{ text: '', index: 0, total: 1, headingPath: [], startOffset: 0, endOffset: 0 }];
+	}
+	return chunks;
+}
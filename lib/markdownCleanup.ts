@@ -0,0 +1,79 @@
+/**
+ * Whitespace and leftover cleanup of converted Markdown. Works line by line
+ * and leaves code blocks and code spans as they are.
+ */
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const HEADING = /^ {0,3}#{1,6}(\s|$)/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+\S/;
+const INDENTED = /^( {4}|\t)/;
+
+/**
+ * Cleans text outside code spans
+ */
+function cleanInline(line: string): string {
+	return line
+		.split(/(`+[^`]*?`+)/)
+		.map((part, index) =>
+			index % 2
+				? part
+				: part
+						// Remove empty links, images without alt text aside
+						.replace(/(^|[^!])\[]\([^)]*\)/g, '$1')
+						// Collapse runs of spaces; indentation and hard line breaks stay
+						.replace(/(\S) {2,}(?=\S)/g, '$1 '),
+		)
+		.join('');
+}
+
+/**
+ * Collapses blank line runs, puts a blank line before headings and
+ * collapses runs of spaces, outside fenced and indented code. Blank lines
+ * between list items stay: they separate loose items and adjacent lists.
+ */
+export function cleanupMarkdown(markdown: string): string {
+	const output: string[] = [];
+	let fence: string | undefined;
+	let blankLines = 0;
+	let inList = false;
+	let inIndentedCode = false;
+
+	for (const line of markdown.split('\n')) {
+		if (fence) {
+			output.push(line);
+			if (line.trim().startsWith(fence) && !line.trim().slice(fence.length).trim()) {
+				fence = undefined;
+			}
+			continue;
+		}
+
+		if (!line.trim()) {
+			blankLines++;
+			continue;
+		}
+
+		const listItem = LIST_ITEM.test(line);
+		// Indented lines after a blank line are code, unless they continue a list item
+		inIndentedCode =
+			INDENTED.test(line) && (inIndentedCode || (blankLines > 0 && !inList && !listItem));
+
+		let blanks = output.length ? Math.min(blankLines, 1) : 0;
+		if (HEADING.test(line) && output.length) blanks = 1;
+		if (inIndentedCode) blanks = Math.min(blankLines, 2);
+		for (let blank = 0; blank < blanks; blank++) output.push('');
+		blankLines = 0;
+
+		const opening = FENCE.exec(line);
+		if (opening) {
+			fence = opening[1];
+			inList = false;
+			output.push(line);
+			continue;
+		}
+
+		output.push(inIndentedCode ? line : cleanInline(line));
+		inList = !inIndentedCode && (listItem || (inList && (INDENTED.test(line) || /^\s/.test(line))));
+	}
+
+	return output.join('\n').trimEnd();
+}
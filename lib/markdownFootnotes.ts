@@ -0,0 +1,101 @@
+import { Marked, type TokenizerExtension, type Tokens } from 'marked';
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})/;
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+const FOOTNOTE_REFERENCE = /^\[\^([^\]\s]+)\]/;
+const FOOTNOTE_INDENT = /^( {4}|\t)/;
+
+/**
+ * Footnotes of the Markdown, by label in definition order, numbered from 1
+ */
+export type Footnotes = Map<string, { number: number; text: string }>;
+
+export interface FootnoteReferenceToken extends Tokens.Generic {
+	type: 'footnoteReference';
+	number: number;
+}
+
+/**
+ * Takes the footnote definitions (`[^1]: Note`, with continuation lines
+ * indented by four spaces) out of the Markdown, code blocks aside. marked
+ * has no footnote syntax and would read them as link definitions.
+ */
+export function extractFootnotes(markdown: string): { body: string; footnotes: Footnotes } {
+	const lines = markdown.split('\n');
+	const body: string[] = [];
+	const footnotes: Footnotes = new Map();
+	let note: string[] | undefined;
+	let label = '';
+	let fence = '';
+
+	const closeNote = () => {
+		if (note && !footnotes.has(label)) {
+			footnotes.set(label, { number: footnotes.size + 1, text: note.join('\n').trim() });
+		}
+		note = undefined;
+	};
+
+	lines.forEach((line, index) => {
+		if (note) {
+			const next = lines[index + 1] ?? '';
+			if (FOOTNOTE_INDENT.test(line)) {
+				note.push(line.replace(FOOTNOTE_INDENT, ''));
+				return;
+			}
+			// A blank line only ends the note when the next line is not indented
+			if (!line.trim() && FOOTNOTE_INDENT.test(next) && next.trim()) {
+				note.push('');
+				return;
+			}
+			closeNote();
+		}
+
+		const fenceMatch = FENCE.exec(line);
+		if (fence) {
+			if (
+				fenceMatch &&
+				fenceMatch[1].startsWith(fence) &&
+				!line.trim().slice(fence.length).trim()
+			) {
+				fence = '';
+			}
+		} else if (fenceMatch) {
+			fence = fenceMatch[1];
+		} else {
+			const definition = FOOTNOTE_DEFINITION.exec(line);
+			if (definition) {
+				label = definition[1];
+				note = [definition[2]];
+				return;
+			}
+		}
+		body.push(line);
+	});
+	closeNote();
+
+	return { body: body.join('\n').trimEnd(), footnotes };
+}
+
+/**
+ * marked with the `[^label]` references of the given footnotes as tokens,
+ * rendered in HTML as a superscript link to the note
+ */
+export function footnoteMarked(footnotes: Footnotes): Marked {
+	const reference: TokenizerExtension & { renderer(token: Tokens.Generic): string } = {
+		name: 'footnoteReference',
+		level: 'inline',
+		start: (src) => {
+			const index = src.indexOf('[^');
+			return index === -1 ? undefined : index;
+		},
+		tokenizer: (src): FootnoteReferenceToken | undefined => {
+			const match = FOOTNOTE_REFERENCE.exec(src);
+			const footnote = match && footnotes.get(match[1]);
+			if (!match || !footnote) return undefined;
+			return { type: 'footnoteReference', raw: match[0], number: footnote.number };
+		},
+		renderer: (token) =>
+			`<sup id="fnref-${token.number}"><a href="#fn-${token.number}">${token.number}</a></sup>`,
+	};
+	return new Marked({ extensions: [reference] });
+}
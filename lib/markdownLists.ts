@@ -0,0 +1,115 @@
+import type TurndownService from 'turndown';
+
+function isCheckbox(node: Node): boolean {
+	const element = node as Element;
+	return node.nodeName === 'INPUT' && element.getAttribute('type')?.toLowerCase() === 'checkbox';
+}
+
+/**
+ * Checkbox an element starts with, before any text, e.g. the one of a GitHub
+ * task list item (`<li><input type="checkbox"> Task</li>`) or of a Word
+ * checkbox content control (`<p><input type="checkbox"> Task</p>`)
+ */
+export function leadingCheckbox(element: Node): Element | undefined {
+	for (let node = element.firstChild; node; ) {
+		if (isCheckbox(node)) return node as Element;
+		if (node.nodeType === 3) {
+			if (node.textContent?.trim()) return undefined;
+			node = node.nextSibling;
+		} else if (['LABEL', 'P', 'SPAN', 'STRONG', 'B', 'EM', 'I'].includes(node.nodeName)) {
+			node = node.firstChild ?? node.nextSibling;
+		} else {
+			return undefined;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Turns runs of paragraphs that start with a checkbox into a task list
+ */
+export function wrapTaskParagraphs(body: HTMLElement): void {
+	const document = body.ownerDocument;
+	for (const paragraph of Array.from(body.querySelectorAll('p'))) {
+		if (paragraph.closest('li') || !leadingCheckbox(paragraph)) continue;
+		const previous = paragraph.previousElementSibling;
+		let list = previous?.nodeName === 'UL' && previous.hasAttribute('data-tasks') ? previous : null;
+		if (!list) {
+			list = document.createElement('ul');
+			list.setAttribute('data-tasks', '');
+			paragraph.before(list);
+		}
+		const item = document.createElement('li');
+		item.append(...Array.from(paragraph.childNodes));
+		list.append(item);
+		paragraph.remove();
+	}
+}
+
+/**
+ * Indents the lines after the first one, blank lines aside
+ */
+function indent(content: string, width: number): string {
+	return content.replace(/\n(?=[^\n])/g, `\n${' '.repeat(width)}`);
+}
+
+/**
+ * List items indented by the width of their marker, so nested lists line up
+ * under ordered and unordered items alike; ordered lists keep their start
+ * number and task list items get `[ ]` or `[x]`. Definition lists use the
+ * `Term` / `: Definition` syntax of Pandoc and PHP Markdown Extra.
+ */
+export function addListRules(turndown: TurndownService): void {
+	turndown.addRule('listItem', {
+		filter: 'li',
+		replacement: (content, node, options) => {
+			const item = node as HTMLElement;
+			const list = item.parentNode as HTMLElement | null;
+
+			let marker: string = options.bulletListMarker ?? '-';
+			if (list?.nodeName === 'OL') {
+				const start = parseInt(list.getAttribute('start') ?? '', 10);
+				const siblings = Array.from(list.childNodes).filter((child) => child.nodeName === 'LI');
+				marker = `${(Number.isNaN(start) ? 1 : start) + siblings.indexOf(item)}.`;
+			}
+
+			const checkbox = leadingCheckbox(item);
+			const task = checkbox ? (checkbox.hasAttribute('checked') ? '[x] ' : '[ ] ') : '';
+
+			// Items with paragraphs end with a newline and stay apart from the next one
+			const loose = /\n$/.test(content);
+			const text = indent(content.replace(/^\s+/, '').replace(/\n+$/, ''), marker.length + 1);
+			return `${marker} ${task}${text}${loose || item.nextSibling ? '\n' : ''}`;
+		},
+	});
+
+	turndown.addRule('checkbox', {
+		filter: isCheckbox,
+		replacement: (_, node) => {
+			const checkbox = node as Element;
+			let item = checkbox.parentNode;
+			while (item && item.nodeName !== 'LI') item = item.parentNode;
+			// Task list checkboxes are rendered by their list item
+			if (item && leadingCheckbox(item) === checkbox) return '';
+			return checkbox.hasAttribute('checked') ? '[x] ' : '[ ] ';
+		},
+	});
+
+	turndown.addRule('definitionList', {
+		filter: 'dl',
+		replacement: (content) => `\n\n${content.trim()}\n\n`,
+	});
+
+	turndown.addRule('definitionTerm', {
+		filter: 'dt',
+		replacement: (content, node) => {
+			const previous = (node as Element).previousElementSibling;
+			return `${previous?.nodeName === 'DT' ? '\n' : '\n\n'}${content.trim()}\n`;
+		},
+	});
+
+	turndown.addRule('definitionDescription', {
+		filter: 'dd',
+		replacement: (content) => `\n: ${indent(content.trim(), 4)}\n`,
+	});
+}
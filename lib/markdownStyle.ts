@@ -0,0 +1,30 @@
+import type TurndownService from 'turndown';
+
+/**
+ * Markdown syntax choices shared by the Markdown-producing nodes
+ */
+export type MarkdownStyle = Pick<
+	TurndownService.Options,
+	| 'headingStyle'
+	| 'bulletListMarker'
+	| 'emDelimiter'
+	| 'strongDelimiter'
+	| 'linkStyle'
+	| 'linkReferenceStyle'
+	| 'codeBlockStyle'
+	| 'fence'
+>;
+
+/**
+ * Turndown options with the style applied over a node's own defaults
+ */
+export function applyMarkdownStyle(
+	defaults: TurndownService.Options,
+	style: MarkdownStyle = {},
+): TurndownService.Options {
+	const options = { ...defaults };
+	for (const [key, value] of Object.entries(style)) {
+		if (value !== undefined) Object.assign(options, { [key]: value });
+	}
+	return options;
+}
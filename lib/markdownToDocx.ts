@@ -0,0 +1,505 @@
+import {
+	AlignmentType,
+	BorderStyle,
+	Document,
+	ExternalHyperlink,
+	FootnoteReferenceRun,
+	HeadingLevel,
+	ImageRun,
+	LevelFormat,
+	Packer,
+	Paragraph,
+	ShadingType,
+	Table,
+	TableCell,
+	TableRow,
+	TextRun,
+	WidthType,
+	type ILevelsOptions,
+	type INumberingOptions,
+	type ParagraphChild,
+} from 'docx';
+import JSZip from 'jszip';
+import type { Token, Tokens } from 'marked';
+
+import { parseFrontMatter } from './frontMatter';
+import { extractFootnotes, footnoteMarked, type FootnoteReferenceToken } from './markdownFootnotes';
+
+export interface ResolvedImage {
+	data: Buffer;
+	contentType: string;
+}
+
+export interface MarkdownToDocxOptions {
+	/**
+	 * word/styles.xml of a template document whose styles should be reused
+	 */
+	templateStyles?: string;
+	/**
+	 * Looks up non data-URI image sources, e.g. binary properties of the input item
+	 */
+	resolveImage?: (src: string) => Promise<ResolvedImage | undefined>;
+	/**
+	 * Maximum width of embedded images in pixels
+	 */
+	maxImageWidth?: number;
+}
+
+export interface MarkdownToDocxResult {
+	buffer: Buffer;
+	warnings: string[];
+}
+
+interface InlineFormat {
+	bold?: boolean;
+	italics?: boolean;
+	strike?: boolean;
+	code?: boolean;
+	link?: boolean;
+}
+
+type BlockChild = Paragraph | Table;
+
+const HEADING_LEVELS = [
+	HeadingLevel.HEADING_1,
+	HeadingLevel.HEADING_2,
+	HeadingLevel.HEADING_3,
+	HeadingLevel.HEADING_4,
+	HeadingLevel.HEADING_5,
+	HeadingLevel.HEADING_6,
+];
+
+const CODE_FONT = 'Consolas';
+const INDENT_STEP = 360;
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+		.replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;|&apos;/g, "'")
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads pixel dimensions from PNG, GIF, BMP and JPEG headers
+ */
+function imageDimensions(data: Buffer): { width: number; height: number } | undefined {
+	if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+		return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+	}
+	if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+		return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+	}
+	if (data.length >= 26 && data.toString('ascii', 0, 2) === 'BM') {
+		return { width: data.readInt32LE(18), height: Math.abs(data.readInt32LE(22)) };
+	}
+	if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+		let offset = 2;
+		while (offset + 9 < data.length) {
+			if (data[offset] !== 0xff) return undefined;
+			const marker = data[offset + 1];
+			const length = data.readUInt16BE(offset + 2);
+			// SOF0..SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+			if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+				return { height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+			}
+			offset += 2 + length;
+		}
+	}
+	return undefined;
+}
+
+function imageType(contentType: string): 'png' | 'jpg' | 'gif' | 'bmp' | undefined {
+	const type = contentType.toLowerCase();
+	if (type === 'image/png') return 'png';
+	if (type === 'image/jpeg' || type === 'image/jpg') return 'jpg';
+	if (type === 'image/gif') return 'gif';
+	if (type === 'image/bmp') return 'bmp';
+	return undefined;
+}
+
+function parseDataUri(src: string): ResolvedImage | undefined {
+	const match = /^data:([^;,]+)(;base64)?,(.*)$/s.exec(src);
+	if (!match) return undefined;
+	const [, contentType, base64, payload] = match;
+	const data = base64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload));
+	return { data, contentType };
+}
+
+function orderedLevels(start: number): ILevelsOptions[] {
+	const formats = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+	return Array.from({ length: 9 }, (_, level) => ({
+		level,
+		format: formats[level % formats.length],
+		text: `%${level + 1}.`,
+		start: level === 0 ? start : 1,
+		alignment: AlignmentType.START,
+		style: { paragraph: { indent: { left: INDENT_STEP * 2 * (level + 1), hanging: INDENT_STEP } } },
+	}));
+}
+
+function bulletLevels(): ILevelsOptions[] {
+	const bullets = ['•', '◦', '▪'];
+	return Array.from({ length: 9 }, (_, level) => ({
+		level,
+		format: LevelFormat.BULLET,
+		text: bullets[level % bullets.length],
+		alignment: AlignmentType.START,
+		style: { paragraph: { indent: { left: INDENT_STEP * 2 * (level + 1), hanging: INDENT_STEP } } },
+	}));
+}
+
+/**
+ * Walks the marked token tree and builds docx paragraphs and tables
+ */
+class DocxBuilder {
+	readonly warnings: string[] = [];
+
+	private readonly numberingConfigs: Array<{ reference: string; levels: ILevelsOptions[] }> = [
+		{ reference: 'bullet-list', levels: bulletLevels() },
+	];
+
+	private listInstance = 0;
+
+	constructor(private readonly options: MarkdownToDocxOptions) {}
+
+	get numbering(): INumberingOptions {
+		return { config: this.numberingConfigs };
+	}
+
+	async blocks(tokens: Token[], indentLevel = 0): Promise<BlockChild[]> {
+		const children: BlockChild[] = [];
+		for (const token of tokens) {
+			children.push(...(await this.block(token, indentLevel)));
+		}
+		return children;
+	}
+
+	private async block(token: Token, indentLevel: number): Promise<BlockChild[]> {
+		const indent = indentLevel > 0 ? { left: INDENT_STEP * 2 * indentLevel } : undefined;
+
+		switch (token.type) {
+			case 'heading': {
+				const { depth, tokens } = token as Tokens.Heading;
+				return [
+					new Paragraph({
+						heading: HEADING_LEVELS[Math.min(depth, 6) - 1],
+						children: await this.inline(tokens),
+					}),
+				];
+			}
+			case 'paragraph':
+				return [
+					new Paragraph({
+						indent,
+						children: await this.inline((token as Tokens.Paragraph).tokens),
+					}),
+				];
+			case 'text': {
+				const text = token as Tokens.Text;
+				return [
+					new Paragraph({
+						indent,
+						children: await this.inline(text.tokens ?? [{ ...text, type: 'text' }]),
+					}),
+				];
+			}
+			case 'list':
+				return this.list(token as Tokens.List, 0);
+			case 'code':
+				return [this.codeBlock((token as Tokens.Code).text, indent)];
+			case 'blockquote':
+				return this.blocks((token as Tokens.Blockquote).tokens, indentLevel + 1);
+			case 'table':
+				return [await this.table(token as Tokens.Table)];
+			case 'hr':
+				return [new Paragraph({ thematicBreak: true, children: [] })];
+			case 'html':
+				return [
+					new Paragraph({ indent, children: [new TextRun((token as Tokens.HTML).text.trim())] }),
+				];
+			case 'space':
+				return [];
+			default:
+				if ('text' in token && typeof token.text === 'string') {
+					return [new Paragraph({ indent, children: [new TextRun(decodeEntities(token.text))] })];
+				}
+				return [];
+		}
+	}
+
+	private async list(list: Tokens.List, level: number, instance?: number): Promise<BlockChild[]> {
+		let reference = 'bullet-list';
+		let listInstance = instance ?? this.listInstance++;
+
+		if (list.ordered) {
+			const start = typeof list.start === 'number' ? list.start : 1;
+			reference = `ordered-list-${start}`;
+			if (!this.numberingConfigs.some((config) => config.reference === reference)) {
+				this.numberingConfigs.push({ reference, levels: orderedLevels(start) });
+			}
+			// Nested ordered lists restart, so they get their own instance
+			if (level > 0) listInstance = this.listInstance++;
+		}
+
+		const children: BlockChild[] = [];
+		for (const item of list.items) {
+			const [first, ...rest] = item.tokens.filter((t) => t.type !== 'checkbox');
+			const prefix: ParagraphChild[] = item.task ? [new TextRun(item.checked ? '☒ ' : '☐ ')] : [];
+			// The first text of the item shares the numbered paragraph, everything else follows it
+			const leadsWithText = !!first && (first.type === 'text' || first.type === 'paragraph');
+			const firstInline = leadsWithText
+				? await this.inline((first as Tokens.Text).tokens ?? [first])
+				: [];
+
+			children.push(
+				new Paragraph({
+					numbering: { reference, level, instance: listInstance },
+					children: [...prefix, ...firstInline],
+				}),
+			);
+
+			const remaining = leadsWithText || !first ? rest : [first, ...rest];
+			for (const token of remaining) {
+				if (token.type === 'list') {
+					children.push(
+						...(await this.list(token as Tokens.List, Math.min(level + 1, 8), listInstance)),
+					);
+				} else {
+					children.push(...(await this.block(token, level + 1)));
+				}
+			}
+		}
+		return children;
+	}
+
+	private codeBlock(code: string, indent?: { left: number }): Paragraph {
+		const lines = code.replace(/\n$/, '').split('\n');
+		return new Paragraph({
+			indent,
+			shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F3F3' },
+			children: lines.map(
+				(line, index) =>
+					new TextRun({ text: line, font: CODE_FONT, size: 20, break: index > 0 ? 1 : 0 }),
+			),
+		});
+	}
+
+	private async table(table: Tokens.Table): Promise<Table> {
+		const alignments: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+			left: AlignmentType.LEFT,
+			center: AlignmentType.CENTER,
+			right: AlignmentType.RIGHT,
+		};
+
+		const cell = async (data: Tokens.TableCell, column: number, header: boolean) =>
+			new TableCell({
+				children: [
+					new Paragraph({
+						alignment: alignments[table.align[column] ?? ''],
+						children: await this.inline(data.tokens, header ? { bold: true } : {}),
+					}),
+				],
+			});
+
+		const rows = [
+			new TableRow({
+				tableHeader: true,
+				children: await Promise.all(table.header.map((data, c) => cell(data, c, true))),
+			}),
+		];
+		for (const row of table.rows) {
+			rows.push(
+				new TableRow({
+					children: await Promise.all(row.map((data, c) => cell(data, c, false))),
+				}),
+			);
+		}
+
+		const border = { style: BorderStyle.SINGLE, size: 4, color: 'BFBFBF' };
+		return new Table({
+			rows,
+			width: { size: 100, type: WidthType.PERCENTAGE },
+			borders: {
+				top: border,
+				bottom: border,
+				left: border,
+				right: border,
+				insideHorizontal: border,
+				insideVertical: border,
+			},
+		});
+	}
+
+	private async inline(tokens: Token[] = [], format: InlineFormat = {}): Promise<ParagraphChild[]> {
+		const runs: ParagraphChild[] = [];
+
+		for (const token of tokens) {
+			switch (token.type) {
+				case 'strong':
+					runs.push(
+						...(await this.inline((token as Tokens.Strong).tokens, { ...format, bold: true })),
+					);
+					break;
+				case 'em':
+					runs.push(
+						...(await this.inline((token as Tokens.Em).tokens, { ...format, italics: true })),
+					);
+					break;
+				case 'del':
+					runs.push(
+						...(await this.inline((token as Tokens.Del).tokens, { ...format, strike: true })),
+					);
+					break;
+				case 'codespan':
+					runs.push(
+						this.textRun(decodeEntities((token as Tokens.Codespan).text), {
+							...format,
+							code: true,
+						}),
+					);
+					break;
+				case 'br':
+					runs.push(new TextRun({ break: 1 }));
+					break;
+				case 'link': {
+					const link = token as Tokens.Link;
+					const children = await this.inline(link.tokens, { ...format, link: true });
+					if (link.href.startsWith('#')) {
+						runs.push(...children);
+					} else {
+						runs.push(new ExternalHyperlink({ link: link.href, children }));
+					}
+					break;
+				}
+				case 'image':
+					runs.push(await this.image(token as Tokens.Image));
+					break;
+				case 'footnoteReference':
+					runs.push(new FootnoteReferenceRun((token as FootnoteReferenceToken).number));
+					break;
+				case 'text': {
+					const text = token as Tokens.Text;
+					if (text.tokens?.length) {
+						runs.push(...(await this.inline(text.tokens, format)));
+					} else {
+						runs.push(this.textRun(decodeEntities(text.text), format));
+					}
+					break;
+				}
+				case 'escape':
+					runs.push(this.textRun((token as Tokens.Escape).text, format));
+					break;
+				case 'html':
+					// Inline tags such as <b> are dropped, their text content is kept as separate tokens
+					break;
+				default:
+					if ('text' in token && typeof token.text === 'string') {
+						runs.push(this.textRun(decodeEntities(token.text), format));
+					}
+			}
+		}
+
+		return runs;
+	}
+
+	private textRun(text: string, format: InlineFormat): TextRun {
+		return new TextRun({
+			text,
+			bold: format.bold,
+			italics: format.italics,
+			strike: format.strike,
+			font: format.code ? CODE_FONT : undefined,
+			style: format.link ? 'Hyperlink' : undefined,
+		});
+	}
+
+	private async image(token: Tokens.Image): Promise<ParagraphChild> {
+		const { href, text } = token;
+		let resolved = parseDataUri(href);
+		if (!resolved && this.options.resolveImage) {
+			resolved = await this.options.resolveImage(href);
+		}
+
+		const type = resolved && imageType(resolved.contentType);
+		const size = resolved && imageDimensions(resolved.data);
+		if (!resolved || !type || !size) {
+			this.warnings.push(
+				resolved
+					? `Unsupported image "${href.slice(0, 80)}" (${resolved.contentType}), replaced with its alt text`
+					: `Image "${href.slice(0, 80)}" could not be resolved, replaced with its alt text`,
+			);
+			return new TextRun(text ? `[${text}]` : '[image]');
+		}
+
+		const maxWidth = this.options.maxImageWidth ?? 600;
+		const scale = size.width > maxWidth ? maxWidth / size.width : 1;
+
+		return new ImageRun({
+			type,
+			data: resolved.data,
+			transformation: {
+				width: Math.round(size.width * scale),
+				height: Math.round(size.height * scale),
+			},
+			altText: { name: text || 'image', description: text, title: token.title ?? text },
+		});
+	}
+}
+
+/**
+ * Reads word/styles.xml from a template .docx so its styles can be reused
+ */
+export async function readTemplateStyles(template: Buffer): Promise<string | undefined> {
+	const zip = await JSZip.loadAsync(template);
+	return zip.file('word/styles.xml')?.async('string');
+}
+
+function propertyText(value: string | string[] | undefined): string | undefined {
+	return Array.isArray(value) ? value.join(', ') : value;
+}
+
+/**
+ * Converts Markdown (CommonMark + GFM tables, task lists, strikethrough,
+ * footnotes) into a .docx file. Front matter fills the document properties.
+ */
+export async function markdownToDocx(
+	markdown: string,
+	options: MarkdownToDocxOptions = {},
+): Promise<MarkdownToDocxResult> {
+	const { data, body: withoutFrontMatter } = parseFrontMatter(markdown ?? '');
+	const { body, footnotes } = extractFootnotes(withoutFrontMatter);
+	const lexer = footnoteMarked(footnotes);
+
+	const builder = new DocxBuilder(options);
+	const children = await builder.blocks(lexer.lexer(body));
+
+	// Word notes hold paragraphs only, a table in a note is left out
+	const notes: Record<number, { children: Paragraph[] }> = {};
+	for (const { number, text } of footnotes.values()) {
+		const blocks = await builder.blocks(lexer.lexer(text));
+		notes[number] = {
+			children: blocks.filter((block): block is Paragraph => block instanceof Paragraph),
+		};
+	}
+
+	const document = new Document({
+		title: propertyText(data.title),
+		subject: propertyText(data.subject),
+		creator: propertyText(data.author ?? data.creator),
+		keywords: propertyText(data.keywords),
+		description: propertyText(data.description),
+		lastModifiedBy: propertyText(data.lastModifiedBy),
+		externalStyles: options.templateStyles,
+		numbering: builder.numbering,
+		footnotes: notes,
+		sections: [{ children: children.length ? children : [new Paragraph('')] }],
+	});
+
+	const buffer = await Packer.toBuffer(document);
+	return { buffer, warnings: builder.warnings };
+}
@@ -0,0 +1,321 @@
+import { estimateTokens, splitBlocks, type Block } from './markdownChunks';
+
+export type TruncationUnit = 'characters' | 'words' | 'tokens';
+
+/**
+ * How the kept part is chosen:
+ *  - head:     the beginning of the document
+ *  - headTail: the beginning and the end, e.g. the introduction and the conclusion
+ *  - sections: every heading with the first blocks of its section
+ */
+export type TruncationStrategy = 'head' | 'headTail' | 'sections';
+
+export interface TruncationOptions {
+	maxSize: number;
+	unit?: TruncationUnit;
+	strategy?: TruncationStrategy;
+}
+
+export interface TruncationResult {
+	markdown: string;
+	truncated: boolean;
+	/**
+	 * Length of the Markdown before truncation, in characters
+	 */
+	originalLength: number;
+}
+
+/**
+ * Marks where content was left out, as a paragraph of its own
+ */
+const OMISSION = '…';
+const SEPARATOR = '\n\n';
+
+/**
+ * Inline constructs a cut must not go through
+ */
+const INLINE_SPANS = /!?\[[^\]]*\]\([^)]*\)|(`+)[^`]*?\1|<[^>\n]*>/g;
+const EMPHASIS_MARKERS = ['**', '__', '~~'];
+
+const FOOTNOTE_DEFINITION = /^\[\^([^\]\s]+)\]:/;
+const FOOTNOTE_CONTINUATION = /^( {4}|\t)/;
+const FOOTNOTE_REFERENCE = /\[\^([^\]\s]+)\](?!:)/g;
+
+interface Footnote {
+	label: string;
+	text: string;
+}
+
+export function measureText(text: string, unit: TruncationUnit = 'characters'): number {
+	if (unit === 'words') return text.split(/\s+/).filter((word) => word).length;
+	if (unit === 'tokens') return estimateTokens(text);
+	return text.length;
+}
+
+/**
+ * Appends the closing markers of bold and strikethrough spans left open by a cut
+ */
+function closeEmphasis(text: string): string {
+	const outsideCode = text.replace(/(`+)[^`]*?\1/g, '');
+	const open = EMPHASIS_MARKERS.filter((marker) => outsideCode.split(marker).length % 2 === 0);
+	// Innermost first: the marker opened last closes first
+	open.sort((a, b) => outsideCode.lastIndexOf(b) - outsideCode.lastIndexOf(a));
+	return text + open.join('');
+}
+
+/**
+ * Beginning of a block that fits the budget: whole lines of code blocks,
+ * tables and lists (closing the code fence), whole words outside links and
+ * code spans for text, preferring a sentence end. Empty when too little fits.
+ */
+function cutBlock(text: string, kind: Block['kind'], budget: number, unit: TruncationUnit): string {
+	// Front matter without its closing line would swallow the document
+	if (kind === 'frontMatter') return '';
+	if (kind && kind !== 'text') {
+		const lines = text.split('\n');
+		const fence = kind === 'fence' ? `\n${/^\s*(`{3,}|~{3,})/.exec(text)?.[1] ?? '```'}` : '';
+		// A table needs its header and delimiter row, a code block one line of code
+		const minimum = kind === 'table' || kind === 'fence' ? 2 : 1;
+		for (let count = lines.length - 1; count >= minimum; count--) {
+			const head = lines.slice(0, count).join('\n') + fence;
+			if (measureText(head, unit) <= budget) return head;
+		}
+		return '';
+	}
+
+	const spans = Array.from(text.matchAll(INLINE_SPANS), (match) => [
+		match.index,
+		match.index + match[0].length,
+	]);
+	let words = '';
+	let sentences = '';
+	for (const match of text.matchAll(/\s+/g)) {
+		if (spans.some(([start, end]) => match.index > start && match.index < end)) continue;
+		const head = closeEmphasis(text.slice(0, match.index));
+		if (measureText(head, unit) > budget) break;
+		words = head;
+		if (/[.!?:;]$/.test(text.slice(0, match.index))) sentences = head;
+	}
+	// A sentence end is worth losing a few words, not half of the text
+	return sentences.length >= words.length / 2 ? sentences : words;
+}
+
+/**
+ * Number of blocks that fit the budget together, with the blank lines between them
+ */
+function countFitting(
+	blocks: Block[],
+	markdown: string,
+	budget: number,
+	unit: TruncationUnit,
+): number {
+	let used = 0;
+	for (let count = 0; count < blocks.length; count++) {
+		const from = count ? blocks[count - 1].end : blocks[count].start;
+		used += measureText(markdown.slice(from, blocks[count].end), unit);
+		if (used > budget) return count;
+	}
+	return blocks.length;
+}
+
+/**
+ * Markdown from the start of the first block to the end of the last, as written
+ */
+function sliceBlocks(blocks: Block[], markdown: string): string {
+	return blocks.length ? markdown.slice(blocks[0].start, blocks[blocks.length - 1].end) : '';
+}
+
+function keepHead(blocks: Block[], markdown: string, budget: number, unit: TruncationUnit): string {
+	const count = countFitting(blocks, markdown, budget, unit);
+	const head = sliceBlocks(blocks.slice(0, count), markdown);
+	const next = blocks[count];
+	const remaining = budget - measureText(head, unit) - (count ? measureText(SEPARATOR, unit) : 0);
+	// Whole blocks only, unless they leave most of the budget unused
+	if (!next || remaining < budget / 2) return head;
+	const partial = cutBlock(sliceBlocks([next], markdown), next.kind, remaining, unit);
+	return [head, partial].filter((part) => part).join(SEPARATOR);
+}
+
+function keepHeadAndTail(
+	blocks: Block[],
+	markdown: string,
+	budget: number,
+	unit: TruncationUnit,
+): string[] {
+	const head = keepHead(blocks, markdown, Math.floor(budget / 2), unit);
+	// A block cut by the head is not repeated in the tail
+	const headCount = countFitting(blocks, markdown, Math.floor(budget / 2), unit) + 1;
+	const rest = blocks.slice(headCount);
+	const tailBudget = budget - measureText(head, unit) - measureText(SEPARATOR, unit);
+
+	// Blocks are added from the end while they fit
+	let tailCount = 0;
+	for (let used = 0; tailCount < rest.length; tailCount++) {
+		const block = rest[rest.length - 1 - tailCount];
+		const to = tailCount ? rest[rest.length - tailCount].start : block.end;
+		used += measureText(markdown.slice(block.start, to), unit);
+		if (used > tailBudget) break;
+	}
+
+	const tail = sliceBlocks(rest.slice(rest.length - tailCount), markdown);
+	return [head, OMISSION, tail].filter((part) => part);
+}
+
+/**
+ * Every heading, then the sections' blocks in turns (first blocks of all
+ * sections, then second blocks, ...) while they fit
+ */
+function keepSections(
+	blocks: Block[],
+	markdown: string,
+	budget: number,
+	unit: TruncationUnit,
+): string[] | undefined {
+	const sections: Array<{ heading?: Block; blocks: Block[]; kept: number; closed: boolean }> = [];
+	for (const block of blocks) {
+		if (block.heading || !sections.length) {
+			sections.push({
+				heading: block.heading ? block : undefined,
+				blocks: [],
+				kept: 0,
+				closed: false,
+			});
+		}
+		if (!block.heading) sections[sections.length - 1].blocks.push(block);
+	}
+
+	const separator = measureText(SEPARATOR, unit);
+	const omission = measureText(OMISSION, unit) + separator;
+	// Every section with content may need an omission marker
+	let used = sections.reduce(
+		(total, section) =>
+			total +
+			(section.heading
+				? measureText(sliceBlocks([section.heading], markdown), unit) + separator
+				: 0) +
+			(section.blocks.length ? omission : 0),
+		0,
+	);
+	if (used > budget) return undefined;
+
+	for (let round = 0; sections.some((section) => !section.closed); round++) {
+		for (const section of sections) {
+			if (section.closed) continue;
+			const block = section.blocks[round];
+			const size = block ? measureText(sliceBlocks([block], markdown), unit) + separator : 0;
+			if (!block || used + size > budget) {
+				section.closed = true;
+				continue;
+			}
+			section.kept++;
+			used += size;
+		}
+	}
+
+	return sections.flatMap((section) => {
+		const kept = [
+			...(section.heading ? [section.heading] : []),
+			...section.blocks.slice(0, section.kept),
+		];
+		return [
+			sliceBlocks(kept, markdown),
+			...(section.kept < section.blocks.length ? [OMISSION] : []),
+		].filter((part) => part);
+	});
+}
+
+/**
+ * Footnote definitions at the end of the document, with their indented
+ * continuation paragraphs. They are set apart, so the definitions of the
+ * references that are kept can follow the cut document.
+ */
+function splitFootnotes(
+	blocks: Block[],
+	markdown: string,
+): { body: Block[]; footnotes: Footnote[] } {
+	const text = (block: Block) => sliceBlocks([block], markdown);
+	let first = blocks.length;
+	while (
+		first > 0 &&
+		(FOOTNOTE_DEFINITION.test(text(blocks[first - 1])) ||
+			FOOTNOTE_CONTINUATION.test(text(blocks[first - 1])))
+	) {
+		first--;
+	}
+	while (first < blocks.length && !FOOTNOTE_DEFINITION.test(text(blocks[first]))) first++;
+
+	const footnotes: Footnote[] = [];
+	for (const block of blocks.slice(first)) {
+		// Definitions on consecutive lines share a block
+		for (const part of text(block).split(/\n(?=\[\^[^\]\s]+\]:)/)) {
+			const definition = FOOTNOTE_DEFINITION.exec(part);
+			if (definition) footnotes.push({ label: definition[1], text: part });
+			else footnotes[footnotes.length - 1].text += SEPARATOR + part;
+		}
+	}
+	return { body: blocks.slice(0, first), footnotes };
+}
+
+function keepBlocks(
+	blocks: Block[],
+	markdown: string,
+	budget: number,
+	unit: TruncationUnit,
+	strategy: TruncationStrategy,
+): string[] {
+	const marker = measureText(OMISSION, unit) + measureText(SEPARATOR, unit);
+
+	let parts: string[] | undefined;
+	if (strategy === 'sections') parts = keepSections(blocks, markdown, budget, unit);
+	if (strategy === 'headTail') parts = keepHeadAndTail(blocks, markdown, budget - marker, unit);
+	// Headings alone may not fit the sections strategy, the head is kept then
+	parts ??= [keepHead(blocks, markdown, budget - marker, unit), OMISSION].filter((part) => part);
+	return parts;
+}
+
+/**
+ * Shortens Markdown to the size limit without cutting through a code block,
+ * table row, list item, link or code span. Constructs that have to be cut
+ * are closed, and omitted content is marked with "…". Front matter is kept
+ * whole, and so are the footnote definitions of the references that are kept.
+ */
+export function truncateMarkdown(markdown: string, options: TruncationOptions): TruncationResult {
+	const { maxSize, unit = 'characters', strategy = 'head' } = options;
+	const originalLength = markdown.length;
+	if (maxSize <= 0 || measureText(markdown, unit) <= maxSize) {
+		return { markdown, truncated: false, originalLength };
+	}
+
+	let blocks = splitBlocks(markdown);
+	const separator = measureText(SEPARATOR, unit);
+
+	// Front matter is kept whole ahead of the cut body, or left out when it alone is too large
+	let frontMatter = '';
+	if (blocks[0]?.kind === 'frontMatter') {
+		const text = sliceBlocks([blocks[0]], markdown);
+		if (measureText(text, unit) + separator < maxSize) frontMatter = text;
+		blocks = blocks.slice(1);
+	}
+	const budget = frontMatter ? maxSize - measureText(frontMatter, unit) - separator : maxSize;
+
+	const { body, footnotes } = splitFootnotes(blocks, markdown);
+	let kept: string;
+	let notes: string[];
+	// The definitions of the kept references take budget from the body, until both fit
+	for (let bodyBudget = budget; ; ) {
+		kept = keepBlocks(body, markdown, bodyBudget, unit, strategy).join(SEPARATOR);
+		const references = new Set(Array.from(kept.matchAll(FOOTNOTE_REFERENCE), (match) => match[1]));
+		notes = footnotes.filter((note) => references.has(note.label)).map((note) => note.text);
+		const size =
+			measureText(kept, unit) +
+			(notes.length ? measureText(notes.join(SEPARATOR), unit) + separator : 0);
+		if (size <= budget || bodyBudget <= 0) break;
+		bodyBudget -= size - budget;
+	}
+
+	return {
+		markdown: [frontMatter, kept, ...notes].filter((part) => part).join(SEPARATOR),
+		truncated: true,
+		originalLength,
+	};
+}
@@ -0,0 +1,512 @@
+import type TurndownService from 'turndown';
+
+/**
+ * How math (MathML, Word equations) ends up in the output
+ *  - latex:       `$...$` inline and `$$...$$` display math
+ *  - mathml:      the MathML markup, kept as HTML
+ *  - placeholder: an `[Equation]` marker
+ */
+export type MathHandling = 'latex' | 'mathml' | 'placeholder';
+
+export const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+/**
+ * MathML elements, for sanitizers that list the allowed tags
+ */
+export const MATHML_TAGS = [
+	'math',
+	'semantics',
+	'annotation',
+	'annotation-xml',
+	'mrow',
+	'mi',
+	'mn',
+	'mo',
+	'ms',
+	'mtext',
+	'mspace',
+	'mfrac',
+	'msqrt',
+	'mroot',
+	'msup',
+	'msub',
+	'msubsup',
+	'munder',
+	'mover',
+	'munderover',
+	'mmultiscripts',
+	'mprescripts',
+	'none',
+	'mtable',
+	'mtr',
+	'mlabeledtr',
+	'mtd',
+	'mstyle',
+	'mpadded',
+	'mphantom',
+	'menclose',
+	'mfenced',
+	'merror',
+];
+
+export const MATHML_ATTRIBUTES = [
+	'display',
+	'mathvariant',
+	'accent',
+	'accentunder',
+	'linethickness',
+	'open',
+	'close',
+	'separators',
+	'notation',
+	'encoding',
+	'alttext',
+];
+
+const SYMBOLS: Record<string, string> = {
+	α: '\\alpha',
+	β: '\\beta',
+	γ: '\\gamma',
+	δ: '\\delta',
+	ε: '\\epsilon',
+	ϵ: '\\epsilon',
+	ζ: '\\zeta',
+	η: '\\eta',
+	θ: '\\theta',
+	ϑ: '\\vartheta',
+	ι: '\\iota',
+	κ: '\\kappa',
+	λ: '\\lambda',
+	μ: '\\mu',
+	ν: '\\nu',
+	ξ: '\\xi',
+	π: '\\pi',
+	ϖ: '\\varpi',
+	ρ: '\\rho',
+	ϱ: '\\varrho',
+	σ: '\\sigma',
+	ς: '\\varsigma',
+	τ: '\\tau',
+	υ: '\\upsilon',
+	φ: '\\phi',
+	ϕ: '\\phi',
+	χ: '\\chi',
+	ψ: '\\psi',
+	ω: '\\omega',
+	Γ: '\\Gamma',
+	Δ: '\\Delta',
+	Θ: '\\Theta',
+	Λ: '\\Lambda',
+	Ξ: '\\Xi',
+	Π: '\\Pi',
+	Σ: '\\Sigma',
+	Υ: '\\Upsilon',
+	Φ: '\\Phi',
+	Ψ: '\\Psi',
+	Ω: '\\Omega',
+	'±': '\\pm',
+	'∓': '\\mp',
+	'×': '\\times',
+	'÷': '\\div',
+	'·': '\\cdot',
+	'⋅': '\\cdot',
+	'∗': '\\ast',
+	'∘': '\\circ',
+	'−': '-',
+	'≤': '\\leq',
+	'≥': '\\geq',
+	'≠': '\\neq',
+	'≈': '\\approx',
+	'≡': '\\equiv',
+	'∼': '\\sim',
+	'≅': '\\cong',
+	'∝': '\\propto',
+	'≪': '\\ll',
+	'≫': '\\gg',
+	'∞': '\\infty',
+	'∂': '\\partial',
+	'∇': '\\nabla',
+	'∑': '\\sum',
+	'∏': '\\prod',
+	'∐': '\\coprod',
+	'∫': '\\int',
+	'∬': '\\iint',
+	'∭': '\\iiint',
+	'∮': '\\oint',
+	'⋃': '\\bigcup',
+	'⋂': '\\bigcap',
+	'∈': '\\in',
+	'∉': '\\notin',
+	'∋': '\\ni',
+	'⊂': '\\subset',
+	'⊃': '\\supset',
+	'⊆': '\\subseteq',
+	'⊇': '\\supseteq',
+	'∪': '\\cup',
+	'∩': '\\cap',
+	'∖': '\\setminus',
+	'∧': '\\wedge',
+	'∨': '\\vee',
+	'¬': '\\neg',
+	'∀': '\\forall',
+	'∃': '\\exists',
+	'∅': '\\emptyset',
+	'⊕': '\\oplus',
+	'⊗': '\\otimes',
+	'⊥': '\\perp',
+	'∥': '\\parallel',
+	'∠': '\\angle',
+	'→': '\\rightarrow',
+	'←': '\\leftarrow',
+	'↔': '\\leftrightarrow',
+	'⇒': '\\Rightarrow',
+	'⇐': '\\Leftarrow',
+	'⇔': '\\Leftrightarrow',
+	'↦': '\\mapsto',
+	'…': '\\ldots',
+	'⋯': '\\cdots',
+	'⋮': '\\vdots',
+	'⋱': '\\ddots',
+	'′': "'",
+	'″': "''",
+	'°': '^{\\circ}',
+	ℝ: '\\mathbb{R}',
+	ℕ: '\\mathbb{N}',
+	ℤ: '\\mathbb{Z}',
+	ℚ: '\\mathbb{Q}',
+	ℂ: '\\mathbb{C}',
+	ℓ: '\\ell',
+	ℏ: '\\hbar',
+	'⟨': '\\langle',
+	'⟩': '\\rangle',
+	'‖': '\\|',
+	'∣': '|',
+	'⌊': '\\lfloor',
+	'⌋': '\\rfloor',
+	'⌈': '\\lceil',
+	'⌉': '\\rceil',
+	'{': '\\{',
+	'}': '\\}',
+	'%': '\\%',
+	'#': '\\#',
+	'&': '\\&',
+	$: '\\$',
+	_: '\\_',
+	'\\': '\\backslash',
+	'\u2061': '',
+	'\u2062': '',
+	'\u2063': '',
+};
+
+/**
+ * Operator names LaTeX has a command for
+ */
+const FUNCTIONS = new Set(
+	'sin cos tan cot sec csc arcsin arccos arctan sinh cosh tanh coth log ln lg exp lim liminf limsup max min sup inf det dim ker deg gcd arg hom Pr'.split(
+		' ',
+	),
+);
+
+/**
+ * Operators that take their limits under and over them
+ */
+const LARGE_OPERATORS = new Set([
+	'\\sum',
+	'\\prod',
+	'\\coprod',
+	'\\int',
+	'\\iint',
+	'\\iiint',
+	'\\oint',
+	'\\bigcup',
+	'\\bigcap',
+	'\\lim',
+	'\\max',
+	'\\min',
+	'\\sup',
+	'\\inf',
+]);
+
+const ACCENTS: Record<string, string> = {
+	'^': '\\hat',
+	'\u0302': '\\hat',
+	ˆ: '\\hat',
+	'~': '\\tilde',
+	'\u0303': '\\tilde',
+	'˜': '\\tilde',
+	'¯': '\\overline',
+	'\u0304': '\\bar',
+	'\u0305': '\\overline',
+	'‾': '\\overline',
+	'˙': '\\dot',
+	'\u0307': '\\dot',
+	'¨': '\\ddot',
+	'\u0308': '\\ddot',
+	'→': '\\vec',
+	'\u20D7': '\\vec',
+	'´': '\\acute',
+	'\u0301': '\\acute',
+	'`': '\\grave',
+	'\u0300': '\\grave',
+	'˘': '\\breve',
+	'\u0306': '\\breve',
+	ˇ: '\\check',
+	'\u030C': '\\check',
+	'⏞': '\\overbrace',
+	'⏟': '\\underbrace',
+	_: '\\underline',
+	'\u0332': '\\underline',
+};
+
+const VARIANTS: Record<string, string> = {
+	bold: '\\mathbf',
+	'double-struck': '\\mathbb',
+	script: '\\mathcal',
+	fraktur: '\\mathfrak',
+	'sans-serif': '\\mathsf',
+	monospace: '\\mathtt',
+	normal: '\\mathrm',
+};
+
+const FENCES = new Set(['(', ')', '[', ']', '{', '}', '|', '‖', '⟨', '⟩', '⌊', '⌋', '⌈', '⌉']);
+
+function localName(node: Node): string {
+	return node.nodeName.toLowerCase().replace(/^m:/, '');
+}
+
+function elementChildren(element: Element): Element[] {
+	return Array.from(element.childNodes).filter((child) => child.nodeType === 1) as Element[];
+}
+
+function symbols(text: string): string {
+	return join(Array.from(text, (char) => SYMBOLS[char] ?? char));
+}
+
+/**
+ * Concatenates LaTeX fragments, with a space where a command name would run
+ * into the letters that follow it
+ */
+function join(parts: string[]): string {
+	return parts.reduce(
+		(latex, part) =>
+			/\\[a-zA-Z]+$/.test(latex) && /^[a-zA-Z0-9]/.test(part) ? `${latex} ${part}` : latex + part,
+		'',
+	);
+}
+
+/**
+ * A script's base needs braces unless it is a single symbol
+ */
+function group(latex: string): string {
+	return /^([a-zA-Z0-9]|\\[a-zA-Z]+)$/.test(latex) ? latex : `{${latex}}`;
+}
+
+function fence(char: string): string {
+	if (!char) return '.';
+	return char === '{' || char === '}' ? `\\${char}` : (SYMBOLS[char] ?? char);
+}
+
+function identifier(element: Element): string {
+	const text = (element.textContent ?? '').trim();
+	const variant = element.getAttribute('mathvariant');
+	if (text.length > 1 && FUNCTIONS.has(text)) return `\\${text}`;
+	const latex = symbols(text);
+	if (variant && VARIANTS[variant] && (variant !== 'normal' || /^[a-zA-Z]+$/.test(text))) {
+		return `${VARIANTS[variant]}{${latex}}`;
+	}
+	// Multi-letter identifiers are names, not products of variables
+	return /^[a-zA-Z]{2,}$/.test(text) ? `\\mathrm{${text}}` : latex;
+}
+
+function text(element: Element): string {
+	const content = (element.textContent ?? '').replace(/[\\{}$&#%_^~]/g, (char) =>
+		char === '\\'
+			? '\\textbackslash{}'
+			: char === '^' || char === '~'
+				? `\\${char}{}`
+				: `\\${char}`,
+	);
+	return content.trim() ? `\\text{${content}}` : '';
+}
+
+function row(elements: Element[]): string {
+	const first = elements[0];
+	const last = elements[elements.length - 1];
+	const fenced =
+		elements.length > 1 &&
+		localName(first) === 'mo' &&
+		localName(last) === 'mo' &&
+		FENCES.has(first.textContent?.trim() ?? '') &&
+		FENCES.has(last.textContent?.trim() ?? '');
+	if (fenced) {
+		const inner = join(elements.slice(1, -1).map(convert));
+		return `\\left${fence(first.textContent!.trim())} ${inner} \\right${fence(last.textContent!.trim())}`;
+	}
+	return join(elements.map(convert));
+}
+
+function table(element: Element): string {
+	const rows = elementChildren(element).map((tableRow) => {
+		const cells = elementChildren(tableRow);
+		// The first cell of a labeled row is its equation number
+		return (localName(tableRow) === 'mlabeledtr' ? cells.slice(1) : cells)
+			.map((cell) => row(elementChildren(cell)))
+			.join(' & ');
+	});
+	return `\\begin{matrix} ${rows.join(' \\\\ ')} \\end{matrix}`;
+}
+
+function underOver(element: Element, name: string): string {
+	const [baseElement, first, second] = elementChildren(element);
+	if (!baseElement) return '';
+	const base = convert(baseElement);
+	const under = name === 'mover' ? undefined : first && convert(first);
+	const over = name === 'mover' ? first && convert(first) : second && convert(second);
+
+	if (LARGE_OPERATORS.has(base)) {
+		return `${base}${under ? `_{${under}}` : ''}${over ? `^{${over}}` : ''}`;
+	}
+
+	const accentOf = (script: Element | undefined) =>
+		script && localName(script) === 'mo' ? ACCENTS[(script.textContent ?? '').trim()] : undefined;
+	let latex = base;
+	const overAccent = name === 'munder' ? undefined : accentOf(name === 'mover' ? first : second);
+	const underAccent = name === 'mover' ? undefined : accentOf(first);
+	if (under !== undefined) {
+		latex =
+			underAccent === '\\underline' || underAccent === '\\underbrace'
+				? `${underAccent}{${latex}}`
+				: `\\underset{${under}}{${latex}}`;
+	}
+	if (over !== undefined) {
+		latex = overAccent ? `${overAccent}{${latex}}` : `\\overset{${over}}{${latex}}`;
+	}
+	return latex;
+}
+
+function multiscripts(element: Element): string {
+	const [baseElement, ...scripts] = elementChildren(element);
+	const split = scripts.findIndex((script) => localName(script) === 'mprescripts');
+	const post = split < 0 ? scripts : scripts.slice(0, split);
+	const pre = split < 0 ? [] : scripts.slice(split + 1);
+	const pairs = (list: Element[]) => {
+		let latex = '';
+		for (let index = 0; index < list.length; index += 2) {
+			const sub = convert(list[index]);
+			const sup = list[index + 1] ? convert(list[index + 1]) : '';
+			latex += `${sub ? `_{${sub}}` : ''}${sup ? `^{${sup}}` : ''}`;
+		}
+		return latex;
+	};
+	const prescripts = pairs(pre);
+	return `${prescripts ? `{}${prescripts}` : ''}${group(baseElement ? convert(baseElement) : '')}${pairs(post)}`;
+}
+
+function convert(element: Element): string {
+	const name = localName(element);
+	const children = elementChildren(element);
+	const [first, second, third] = children.map((child) => convert(child));
+
+	switch (name) {
+		case 'mi':
+			return identifier(element);
+		case 'mn':
+			return symbols((element.textContent ?? '').trim());
+		case 'mo':
+			return symbols((element.textContent ?? '').trim());
+		case 'mtext':
+		case 'ms':
+			return text(element);
+		case 'mspace':
+			return '\\ ';
+		case 'none':
+		case 'mprescripts':
+		case 'annotation':
+		case 'annotation-xml':
+			return '';
+		case 'semantics': {
+			const tex = children.find(
+				(child) =>
+					localName(child) === 'annotation' && /tex/i.test(child.getAttribute('encoding') ?? ''),
+			);
+			return tex ? (tex.textContent ?? '').trim() : (first ?? '');
+		}
+		case 'mfrac':
+			return /^0(\D|$)/.test(element.getAttribute('linethickness') ?? '')
+				? `\\genfrac{}{}{0pt}{}{${first}}{${second}}`
+				: `\\frac{${first}}{${second}}`;
+		case 'msqrt':
+			return `\\sqrt{${row(children)}}`;
+		case 'mroot':
+			return `\\sqrt[${second}]{${first}}`;
+		case 'msup':
+			return `${group(first ?? '')}^{${second}}`;
+		case 'msub':
+			return `${group(first ?? '')}_{${second}}`;
+		case 'msubsup':
+			return `${group(first ?? '')}_{${second}}^{${third}}`;
+		case 'munder':
+		case 'mover':
+		case 'munderover':
+			return underOver(element, name);
+		case 'mmultiscripts':
+			return multiscripts(element);
+		case 'mtable':
+			return table(element);
+		case 'menclose':
+			return /box/.test(element.getAttribute('notation') ?? '')
+				? `\\boxed{${row(children)}}`
+				: row(children);
+		case 'mphantom':
+			return `\\phantom{${row(children)}}`;
+		case 'mfenced': {
+			const separators = (element.getAttribute('separators') ?? ',').replace(/\s/g, '');
+			const items = children.map(
+				(child, index) =>
+					convert(child) +
+					(index < children.length - 1
+						? (separators[Math.min(index, separators.length - 1)] ?? '')
+						: ''),
+			);
+			return `\\left${fence(element.getAttribute('open') ?? '(')} ${join(items)} \\right${fence(element.getAttribute('close') ?? ')')}`;
+		}
+		default:
+			return row(children);
+	}
+}
+
+/**
+ * Converts a MathML `<math>` element (or any MathML element) to LaTeX.
+ * A TeX annotation, when present, is used as is.
+ */
+export function mathmlToLatex(element: Element): string {
+	return convert(element).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Whether a `<math>` element is display (block) math rather than inline math
+ */
+export function isDisplayMath(element: Element): boolean {
+	return element.getAttribute('display') === 'block' || element.getAttribute('mode') === 'display';
+}
+
+/**
+ * Renders `<math>` elements as LaTeX, MathML or a placeholder
+ */
+export function addMathRule(turndown: TurndownService, handling: MathHandling): void {
+	turndown.addRule('math', {
+		filter: (node) => localName(node) === 'math',
+		replacement: (_, node) => {
+			const element = node as Element;
+			const display = isDisplayMath(element);
+			if (handling === 'placeholder') return '[Equation]';
+			if (handling === 'mathml') {
+				const markup = (element as HTMLElement).outerHTML;
+				return display ? `\n\n${markup}\n\n` : markup;
+			}
+			const latex = mathmlToLatex(element);
+			if (!latex) return '';
+			return display ? `\n\n$$\n${latex}\n$$\n\n` : `$${latex}$`;
+		},
+	});
+}
@@ -0,0 +1,321 @@
+import { JSDOM } from 'jsdom';
+
+import { imageContentType } from './docxImages';
+import { loadDocxPackage, type DocxPackage } from './docxPackage';
+import type { OfficeConversionOptions, OfficeConversionResult } from './officeFormats';
+
+const NS = {
+	office: 'urn:oasis:names:tc:opendocument:xmlns:office:1.0',
+	style: 'urn:oasis:names:tc:opendocument:xmlns:style:1.0',
+	text: 'urn:oasis:names:tc:opendocument:xmlns:text:1.0',
+	table: 'urn:oasis:names:tc:opendocument:xmlns:table:1.0',
+	draw: 'urn:oasis:names:tc:opendocument:xmlns:drawing:1.0',
+	fo: 'urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0',
+	svg: 'urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0',
+	xlink: 'http://www.w3.org/1999/xlink',
+};
+
+/**
+ * Repeated empty cells and rows (common at the end of a table) are capped
+ */
+const MAX_REPEAT = 100;
+
+interface TextStyle {
+	bold?: boolean;
+	italic?: boolean;
+	strike?: boolean;
+	monospace?: boolean;
+}
+
+function attr(element: Element, namespace: string, name: string): string | null {
+	return element.getAttributeNS(namespace, name);
+}
+
+function is(node: Node, namespace: string, localName: string): node is Element {
+	return (
+		node.nodeType === 1 &&
+		(node as Element).namespaceURI === namespace &&
+		(node as Element).localName === localName
+	);
+}
+
+function children(element: Element, namespace: string, localName: string): Element[] {
+	return Array.from(element.children).filter((child) => is(child, namespace, localName));
+}
+
+/**
+ * Reads the text styles (bold, italic, ...) and which list styles are
+ * numbered, from the automatic styles of content.xml and from styles.xml
+ */
+function readStyles(documents: Document[]) {
+	const textStyles = new Map<string, TextStyle>();
+	const parents = new Map<string, string>();
+	const numberedLists = new Set<string>();
+
+	for (const document of documents) {
+		for (const style of Array.from(document.getElementsByTagNameNS(NS.style, 'style'))) {
+			const name = attr(style, NS.style, 'name');
+			if (!name) continue;
+			const parent = attr(style, NS.style, 'parent-style-name');
+			if (parent) parents.set(name, parent);
+
+			const properties = children(style, NS.style, 'text-properties')[0];
+			if (!properties) continue;
+			const fontName = attr(properties, NS.style, 'font-name') ?? '';
+			textStyles.set(name, {
+				bold: attr(properties, NS.fo, 'font-weight') === 'bold' || undefined,
+				italic: attr(properties, NS.fo, 'font-style') === 'italic' || undefined,
+				strike:
+					(attr(properties, NS.style, 'text-line-through-style') ?? 'none') !== 'none' || undefined,
+				monospace: /mono|courier|consolas/i.test(fontName) || undefined,
+			});
+		}
+
+		for (const listStyle of Array.from(document.getElementsByTagNameNS(NS.text, 'list-style'))) {
+			const name = attr(listStyle, NS.style, 'name');
+			const first = listStyle.firstElementChild;
+			if (name && first?.localName === 'list-level-style-number') numberedLists.add(name);
+		}
+	}
+
+	const resolve = (name: string | null): TextStyle => {
+		const style: TextStyle = {};
+		// Parent styles first so the style's own properties win
+		const chain: string[] = [];
+		for (let current = name; current && !chain.includes(current); ) {
+			chain.unshift(current);
+			current = parents.get(current) ?? null;
+		}
+		for (const link of chain) Object.assign(style, stripUndefined(textStyles.get(link) ?? {}));
+		return style;
+	};
+
+	return { resolve, numberedLists };
+}
+
+function stripUndefined(style: TextStyle): TextStyle {
+	return Object.fromEntries(Object.entries(style).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Converts an OpenDocument text file (.odt) to HTML: headings, paragraphs,
+ * lists, tables, links, bold/italic/strikethrough, notes and images
+ */
+export async function odtToHtml(
+	buffer: Buffer,
+	options: OfficeConversionOptions = {},
+): Promise<OfficeConversionResult> {
+	const pkg: DocxPackage = await loadDocxPackage(buffer);
+	const warnings: string[] = [];
+
+	const content = await pkg.readXml('content.xml');
+	if (!content) throw new Error('content.xml is missing from the OpenDocument package');
+	const styles = await pkg.readXml('styles.xml');
+	const { resolve, numberedLists } = readStyles(styles ? [content, styles] : [content]);
+
+	const { document } = new JSDOM('').window;
+	const notes: HTMLElement[] = [];
+	const images: Array<{ element: HTMLImageElement; path: string }> = [];
+
+	const wrapStyled = (element: Element, styleName: string | null, target: HTMLElement) => {
+		const style = resolve(styleName);
+		let inner: HTMLElement = target;
+		for (const [flag, tag] of [
+			['bold', 'strong'],
+			['italic', 'em'],
+			['strike', 'del'],
+			['monospace', 'code'],
+		] as const) {
+			if (style[flag]) {
+				const wrapper = document.createElement(tag);
+				inner.appendChild(wrapper);
+				inner = wrapper;
+			}
+		}
+		convertInline(element, inner);
+	};
+
+	const convertInline = (source: Element, target: HTMLElement) => {
+		for (const node of Array.from(source.childNodes)) {
+			if (node.nodeType === 3) {
+				target.appendChild(document.createTextNode(node.textContent ?? ''));
+			} else if (is(node, NS.text, 'span')) {
+				wrapStyled(node, attr(node, NS.text, 'style-name'), target);
+			} else if (is(node, NS.text, 'a')) {
+				const link = document.createElement('a');
+				link.setAttribute('href', attr(node, NS.xlink, 'href') ?? '');
+				convertInline(node, link);
+				target.appendChild(link);
+			} else if (is(node, NS.text, 's')) {
+				const count = Number(attr(node, NS.text, 'c') ?? '1') || 1;
+				target.appendChild(document.createTextNode(' '.repeat(Math.min(count, MAX_REPEAT))));
+			} else if (is(node, NS.text, 'tab')) {
+				target.appendChild(document.createTextNode('\t'));
+			} else if (is(node, NS.text, 'line-break')) {
+				target.appendChild(document.createElement('br'));
+			} else if (is(node, NS.text, 'note')) {
+				const body = children(node, NS.text, 'note-body')[0];
+				const number = notes.length + 1;
+				const reference = document.createElement('sup');
+				reference.textContent = `[${number}]`;
+				target.appendChild(reference);
+
+				const note = document.createElement('p');
+				note.appendChild(document.createTextNode(`[${number}] `));
+				for (const paragraph of body ? Array.from(body.children) : []) {
+					convertInline(paragraph, note);
+				}
+				notes.push(note);
+			} else if (is(node, NS.draw, 'frame')) {
+				convertFrame(node, target);
+			} else if (
+				node.nodeType === 1 &&
+				!is(node, NS.text, 'bookmark') &&
+				!is(node, NS.text, 'bookmark-start') &&
+				!is(node, NS.text, 'bookmark-end') &&
+				!is(node, NS.office, 'annotation')
+			) {
+				// Fields, ruby, change marks and the like: keep their text
+				convertInline(node as Element, target);
+			}
+		}
+	};
+
+	const convertFrame = (frame: Element, target: HTMLElement) => {
+		const image = children(frame, NS.draw, 'image')[0];
+		const textBox = children(frame, NS.draw, 'text-box')[0];
+		if (image) {
+			if (!options.includeImages) return;
+			const title = children(frame, NS.svg, 'title')[0]?.textContent;
+			const description = children(frame, NS.svg, 'desc')[0]?.textContent;
+			const element = document.createElement('img');
+			element.setAttribute('alt', description || title || attr(frame, NS.draw, 'name') || '');
+			target.appendChild(element);
+			images.push({ element, path: attr(image, NS.xlink, 'href') ?? '' });
+		} else if (textBox) {
+			for (const child of Array.from(textBox.children)) convertInline(child, target);
+		}
+	};
+
+	const convertList = (list: Element, inheritedStyle: string | null): HTMLElement => {
+		const styleName = attr(list, NS.text, 'style-name') ?? inheritedStyle;
+		const element = document.createElement(styleName && numberedLists.has(styleName) ? 'ol' : 'ul');
+		for (const item of Array.from(list.children)) {
+			if (!is(item, NS.text, 'list-item') && !is(item, NS.text, 'list-header')) continue;
+			const listItem = document.createElement('li');
+			for (const child of Array.from(item.children)) {
+				if (is(child, NS.text, 'list')) {
+					listItem.appendChild(convertList(child, styleName));
+				} else if (is(child, NS.text, 'p')) {
+					// Paragraphs of an item are inlined so the list stays tight
+					if (listItem.childNodes.length) listItem.appendChild(document.createElement('br'));
+					wrapStyled(child, attr(child, NS.text, 'style-name'), listItem);
+				} else {
+					convertBlock(child, listItem);
+				}
+			}
+			element.appendChild(listItem);
+		}
+		return element;
+	};
+
+	const convertTable = (table: Element): HTMLElement => {
+		const element = document.createElement('table');
+		const addRows = (container: Element, parent: HTMLElement, header: boolean) => {
+			for (const child of Array.from(container.children)) {
+				if (is(child, NS.table, 'table-header-rows')) {
+					const head = document.createElement('thead');
+					addRows(child, head, true);
+					element.insertBefore(head, element.firstChild);
+				} else if (is(child, NS.table, 'table-rows') || is(child, NS.table, 'table-row-group')) {
+					addRows(child, parent, header);
+				} else if (is(child, NS.table, 'table-row')) {
+					const repeat = Math.min(
+						Number(attr(child, NS.table, 'number-rows-repeated') ?? '1') || 1,
+						MAX_REPEAT,
+					);
+					const row = convertRow(child, header);
+					for (let r = 0; r < repeat; r++) {
+						parent.appendChild(r === 0 ? row : row.cloneNode(true));
+					}
+				}
+			}
+		};
+
+		const body = document.createElement('tbody');
+		addRows(table, body, false);
+		element.appendChild(body);
+		return element;
+	};
+
+	const convertRow = (row: Element, header: boolean): HTMLElement => {
+		const element = document.createElement('tr');
+		const cells = Array.from(row.children).filter((child) => is(child, NS.table, 'table-cell'));
+		// Trailing empty cells are usually padding repeated to the page width
+		while (cells.length && !cells[cells.length - 1].textContent?.trim()) cells.pop();
+
+		for (const cell of cells) {
+			const repeat = Math.min(
+				Number(attr(cell, NS.table, 'number-columns-repeated') ?? '1') || 1,
+				MAX_REPEAT,
+			);
+			for (let c = 0; c < repeat; c++) {
+				const cellElement = document.createElement(header ? 'th' : 'td');
+				const colspan = attr(cell, NS.table, 'number-columns-spanned');
+				const rowspan = attr(cell, NS.table, 'number-rows-spanned');
+				if (colspan && colspan !== '1') cellElement.setAttribute('colspan', colspan);
+				if (rowspan && rowspan !== '1') cellElement.setAttribute('rowspan', rowspan);
+				for (const child of Array.from(cell.children)) convertBlock(child, cellElement);
+				element.appendChild(cellElement);
+			}
+		}
+		return element;
+	};
+
+	const convertBlock = (block: Node, target: HTMLElement) => {
+		if (is(block, NS.text, 'h')) {
+			const level = Math.min(Math.max(Number(attr(block, NS.text, 'outline-level') ?? '1'), 1), 6);
+			const heading = document.createElement(`h${level}`);
+			convertInline(block, heading);
+			target.appendChild(heading);
+		} else if (is(block, NS.text, 'p')) {
+			const paragraph = document.createElement('p');
+			wrapStyled(block, attr(block, NS.text, 'style-name'), paragraph);
+			target.appendChild(paragraph);
+		} else if (is(block, NS.text, 'list')) {
+			target.appendChild(convertList(block, null));
+		} else if (is(block, NS.table, 'table')) {
+			target.appendChild(convertTable(block));
+		} else if (
+			is(block, NS.text, 'section') ||
+			is(block, NS.text, 'index-body') ||
+			is(block, NS.text, 'table-of-content')
+		) {
+			for (const child of Array.from(block.children)) convertBlock(child, target);
+		} else if (is(block, NS.draw, 'frame')) {
+			convertFrame(block, target);
+		}
+	};
+
+	const text = content.getElementsByTagNameNS(NS.office, 'text')[0];
+	if (!text) throw new Error('The OpenDocument file has no text body');
+	for (const block of Array.from(text.children)) convertBlock(block, document.body);
+
+	if (notes.length > 0) {
+		document.body.appendChild(document.createElement('hr'));
+		for (const note of notes) document.body.appendChild(note);
+	}
+
+	for (const { element, path } of images) {
+		const file = pkg.zip.file(path);
+		if (!file) {
+			warnings.push(`Image not found in the package: ${path}`);
+			element.remove();
+			continue;
+		}
+		const data = await file.async('base64');
+		element.setAttribute('src', `data:${imageContentType(path)};base64,${data}`);
+	}
+
+	return { html: document.body.innerHTML, warnings };
+}
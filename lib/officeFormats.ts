@@ -0,0 +1,109 @@
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+
+import { createImageConverter } from './docxImages';
+import { markListNumbers, renderListNumbers } from './docxLists';
+import { extractEquations, renderEquations } from './docxMath';
+import { loadDocxPackage } from './docxPackage';
+import { odtToHtml } from './odtConverter';
+import { pptxToHtml } from './pptxConverter';
+import { rtfToHtml } from './rtfConverter';
+import { xlsxToHtml } from './xlsxConverter';
+
+/**
+ * Formats the Office → Markdown node can read. Legacy binary Office files
+ * (.doc, .xls, .ppt) are not among them, see isLegacyOfficeFile.
+ */
+export type OfficeFormat = 'docx' | 'odt' | 'rtf' | 'pptx' | 'xlsx';
+
+export interface OfficeConversionOptions {
+	/**
+	 * Embed images as data URIs instead of dropping them
+	 */
+	includeImages?: boolean;
+	/**
+	 * Add the speaker notes below each slide (PowerPoint)
+	 */
+	includeSpeakerNotes?: boolean;
+	/**
+	 * Use the first row of each sheet as table header (Excel)
+	 */
+	firstRowAsHeader?: boolean;
+}
+
+export interface OfficeConversionResult {
+	html: string;
+	warnings: string[];
+}
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+function startsWith(buffer: Buffer, signature: number[]): boolean {
+	return signature.every((byte, index) => buffer[index] === byte);
+}
+
+/**
+ * Whether the file is a legacy binary Office document (.doc, .xls, .ppt, a
+ * Compound File), which cannot be converted and is rejected with a hint
+ */
+export function isLegacyOfficeFile(buffer: Buffer): boolean {
+	return startsWith(buffer, CFB_SIGNATURE);
+}
+
+/**
+ * Identifies a document by its content (magic bytes, then the parts inside
+ * ZIP packages) rather than by file name or MIME type
+ */
+export async function detectOfficeFormat(buffer: Buffer): Promise<OfficeFormat | undefined> {
+	if (buffer.subarray(0, 5).toString('latin1') === '{\\rtf') return 'rtf';
+	if (!startsWith(buffer, ZIP_SIGNATURE)) return undefined;
+
+	let zip: JSZip;
+	try {
+		zip = await JSZip.loadAsync(buffer);
+	} catch {
+		return undefined;
+	}
+
+	const mimetype = (await zip.file('mimetype')?.async('string'))?.trim();
+	if (mimetype === 'application/vnd.oasis.opendocument.text') return 'odt';
+	if (zip.file('word/document.xml')) return 'docx';
+	if (zip.file('ppt/presentation.xml')) return 'pptx';
+	if (zip.file('xl/workbook.xml')) return 'xlsx';
+	return undefined;
+}
+
+/**
+ * Converts a document of any supported format to HTML, ready for turndown
+ */
+export async function officeToHtml(
+	buffer: Buffer,
+	format: OfficeFormat,
+	options: OfficeConversionOptions = {},
+): Promise<OfficeConversionResult> {
+	switch (format) {
+		case 'docx': {
+			const { convertImage } = createImageConverter(options.includeImages ? 'inline' : 'drop');
+			const pkg = await loadDocxPackage(buffer);
+			const numbered = await markListNumbers(pkg);
+			const { buffer: withEquations, equations } = await extractEquations(pkg);
+			const { value, messages } = await mammoth.convertToHtml(
+				{ buffer: withEquations ?? numbered ?? buffer },
+				{ convertImage },
+			);
+			return {
+				html: renderEquations(renderListNumbers(value), equations),
+				warnings: messages.map((message) => message.message),
+			};
+		}
+		case 'odt':
+			return odtToHtml(buffer, options);
+		case 'rtf':
+			return rtfToHtml(buffer);
+		case 'pptx':
+			return pptxToHtml(buffer, options);
+		case 'xlsx':
+			return xlsxToHtml(buffer, options);
+	}
+}
@@ -0,0 +1,440 @@
+import { marked, type Token, type Tokens } from 'marked';
+
+import { extractFootnotes, footnoteMarked, type FootnoteReferenceToken } from './markdownFootnotes';
+import { githubSlug } from './toc';
+
+/**
+ * Targets the converted document can be rendered to. Markdown is the
+ * conversion's own GitHub-Flavored output, the others are rendered from it,
+ * except HTML which is the cleaned HTML the Markdown was converted from.
+ */
+export type OutputFormat =
+	| 'markdown'
+	| 'commonmark'
+	| 'obsidian'
+	| 'slack'
+	| 'jira'
+	| 'plainText'
+	| 'html';
+
+export const OUTPUT_FILE_TYPES: Record<OutputFormat, { extension: string; mimeType: string }> = {
+	markdown: { extension: 'md', mimeType: 'text/markdown' },
+	commonmark: { extension: 'md', mimeType: 'text/markdown' },
+	obsidian: { extension: 'md', mimeType: 'text/markdown' },
+	slack: { extension: 'txt', mimeType: 'text/plain' },
+	jira: { extension: 'txt', mimeType: 'text/plain' },
+	plainText: { extension: 'txt', mimeType: 'text/plain' },
+	html: { extension: 'html', mimeType: 'text/html' },
+};
+
+const FRONT_MATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n+/;
+
+/**
+ * Inline and block syntax of the markup formats rendered from the Markdown tokens
+ */
+interface Dialect {
+	escape(text: string): string;
+	strong(text: string): string;
+	em(text: string): string;
+	del(text: string): string;
+	codespan(code: string): string;
+	link(text: string, href: string): string;
+	image(alt: string, src: string): string;
+	heading(text: string, depth: number): string;
+	codeBlock(code: string, language: string): string;
+	blockquote(text: string): string;
+	/**
+	 * Marker of a list item; `markers` holds the markers of the enclosing lists
+	 */
+	listMarker(ordered: boolean, number: number, markers: string[]): string;
+	/**
+	 * Indentation of a list item's continuation lines and nested lists
+	 */
+	listIndent(markers: string[]): string;
+	table(header: string[], rows: string[][]): string;
+	/**
+	 * Footnote reference, also put in front of the note at the end
+	 */
+	footnoteReference(number: number): string;
+	hr: string;
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+		.replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;|&apos;/g, "'")
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&amp;/g, '&');
+}
+
+function prefixLines(text: string, prefix: string): string {
+	return text
+		.split('\n')
+		.map((line) => (line ? prefix + line : prefix.trimEnd()))
+		.join('\n');
+}
+
+/**
+ * Columns padded to a common width, for formats without tables
+ */
+function alignedTable(header: string[], rows: string[][]): string[] {
+	const all = [header, ...rows];
+	const widths = header.map((_, column) =>
+		Math.max(...all.map((row) => (row[column] ?? '').length)),
+	);
+	const line = (row: string[]) =>
+		widths
+			.map((width, column) => (row[column] ?? '').padEnd(width))
+			.join(' | ')
+			.trimEnd();
+	return [line(header), widths.map((width) => '-'.repeat(width)).join('-|-'), ...rows.map(line)];
+}
+
+const SLACK: Dialect = {
+	escape: (text) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;'),
+	strong: (text) => `*${text}*`,
+	em: (text) => `_${text}_`,
+	del: (text) => `~${text}~`,
+	codespan: (code) => `\`${code}\``,
+	link: (text, href) =>
+		href.startsWith('#') ? text : text === href ? `<${href}>` : `<${href}|${text}>`,
+	image: (alt, src) => (alt ? `<${src}|${alt}>` : `<${src}>`),
+	heading: (text) => `*${text}*`,
+	codeBlock: (code) => `\`\`\`\n${code}\n\`\`\``,
+	blockquote: (text) => prefixLines(text, '> '),
+	listMarker: (ordered, number) => (ordered ? `${number}.` : '•'),
+	listIndent: (markers) => '    '.repeat(markers.length),
+	table: (header, rows) => `\`\`\`\n${alignedTable(header, rows).join('\n')}\n\`\`\``,
+	footnoteReference: (number) => `[${number}]`,
+	hr: '───',
+};
+
+const JIRA: Dialect = {
+	escape: (text) => text.replace(/([*_{}[\]|!^~])/g, '\\$1'),
+	strong: (text) => `*${text}*`,
+	em: (text) => `_${text}_`,
+	del: (text) => `-${text}-`,
+	codespan: (code) => `{{${code}}}`,
+	link: (text, href) => (href.startsWith('#') ? text : `[${text}|${href}]`),
+	image: (_, src) => `!${src}!`,
+	heading: (text, depth) => `h${depth}. ${text}`,
+	codeBlock: (code, language) => `{code${language ? `:${language}` : ''}}\n${code}\n{code}`,
+	blockquote: (text) => `{quote}\n${text}\n{quote}`,
+	// Jira nests lists by extending the parent's marker: *, **, #*
+	listMarker: (ordered, _, markers) => (markers[markers.length - 1] ?? '') + (ordered ? '#' : '*'),
+	listIndent: () => '',
+	table: (header, rows) =>
+		[
+			`||${header.join('||')}||`,
+			...rows.map((row) => `|${row.map((cell) => cell || ' ').join('|')}|`),
+		].join('\n'),
+	footnoteReference: (number) => `^${number}^`,
+	hr: '----',
+};
+
+const PLAIN_TEXT: Dialect = {
+	escape: (text) => text,
+	strong: (text) => text,
+	em: (text) => text,
+	del: (text) => text,
+	codespan: (code) => code,
+	link: (text) => text,
+	image: (alt) => alt,
+	heading: (text) => text,
+	codeBlock: (code) => code,
+	blockquote: (text) => text,
+	listMarker: (ordered, number) => (ordered ? `${number}.` : '-'),
+	listIndent: (markers) => '  '.repeat(markers.length),
+	table: (header, rows) => alignedTable(header, rows).join('\n'),
+	footnoteReference: (number) => `[${number}]`,
+	hr: '',
+};
+
+class DialectRenderer {
+	constructor(private readonly dialect: Dialect) {}
+
+	/**
+	 * The document followed by its footnotes, set off by a rule
+	 */
+	document(markdown: string): string {
+		const { body, footnotes } = extractFootnotes(markdown);
+		const lexer = footnoteMarked(footnotes);
+		const text = this.blocks(lexer.lexer(body)).trim();
+		if (footnotes.size === 0) return text;
+
+		const notes = [...footnotes.values()].map(({ number, text: note }) => {
+			const reference = this.dialect.footnoteReference(number);
+			// Further paragraphs of a note line up under its first line
+			const [first, ...rest] = this.blocks(lexer.lexer(note)).trim().split(/\n+/);
+			const indent = ' '.repeat(reference.length + 1);
+			return [`${reference} ${first}`, ...rest.map((line) => indent + line)].join('\n');
+		});
+		return [text, this.dialect.hr, notes.join('\n')].filter((part) => part).join('\n\n');
+	}
+
+	blocks(tokens: Token[], markers: string[] = []): string {
+		return tokens
+			.map((token) => this.block(token, markers))
+			.filter((block) => block !== '')
+			.join('\n\n');
+	}
+
+	private block(token: Token, markers: string[]): string {
+		const { dialect } = this;
+		switch (token.type) {
+			case 'heading': {
+				const { depth, tokens } = token as Tokens.Heading;
+				return dialect.heading(this.inline(tokens), depth);
+			}
+			case 'paragraph':
+				return this.inline((token as Tokens.Paragraph).tokens);
+			case 'text': {
+				const text = token as Tokens.Text;
+				return text.tokens ? this.inline(text.tokens) : dialect.escape(decodeEntities(text.text));
+			}
+			case 'list':
+				return this.list(token as Tokens.List, markers);
+			case 'code': {
+				const { text, lang } = token as Tokens.Code;
+				return dialect.codeBlock(text, lang ?? '');
+			}
+			case 'blockquote':
+				return dialect.blockquote(this.blocks((token as Tokens.Blockquote).tokens));
+			case 'table': {
+				const { header, rows } = token as Tokens.Table;
+				return dialect.table(
+					header.map((cell) => this.inline(cell.tokens)),
+					rows.map((row) => row.map((cell) => this.inline(cell.tokens))),
+				);
+			}
+			case 'hr':
+				return dialect.hr;
+			case 'html':
+				return dialect.escape(htmlText((token as Tokens.HTML).text));
+			case 'space':
+				return '';
+			default:
+				return 'text' in token && typeof token.text === 'string'
+					? dialect.escape(decodeEntities(token.text))
+					: '';
+		}
+	}
+
+	private list(list: Tokens.List, markers: string[]): string {
+		const { dialect } = this;
+		const start = typeof list.start === 'number' ? list.start : 1;
+		const indent = dialect.listIndent(markers);
+
+		return list.items
+			.map((item, index) => {
+				const marker = dialect.listMarker(list.ordered, start + index, markers);
+				const nested = [...markers, marker];
+				const checkbox = item.task ? (item.checked ? '[x] ' : '[ ] ') : '';
+				const [first = '', ...rest] = this.blocks(
+					item.tokens.filter((token) => token.type !== 'checkbox'),
+					nested,
+				).split('\n');
+				// Nested lists come indented already, other continuation lines are aligned with the text
+				const continuation = rest.map((line) =>
+					!line || line.startsWith(dialect.listIndent(nested))
+						? line
+						: dialect.listIndent(nested) + line,
+				);
+				return [`${indent}${marker} ${checkbox}${first}`, ...continuation].join('\n');
+			})
+			.join('\n')
+			.replace(/\n{2,}/g, '\n');
+	}
+
+	private inline(tokens: Token[] = []): string {
+		const { dialect } = this;
+		return tokens
+			.map((token) => {
+				switch (token.type) {
+					case 'strong':
+						return dialect.strong(this.inline((token as Tokens.Strong).tokens));
+					case 'em':
+						return dialect.em(this.inline((token as Tokens.Em).tokens));
+					case 'del':
+						return dialect.del(this.inline((token as Tokens.Del).tokens));
+					case 'codespan':
+						return dialect.codespan(decodeEntities((token as Tokens.Codespan).text));
+					case 'br':
+						return '\n';
+					case 'link': {
+						const link = token as Tokens.Link;
+						return dialect.link(this.inline(link.tokens), link.href);
+					}
+					case 'image': {
+						const image = token as Tokens.Image;
+						return dialect.image(image.text, image.href);
+					}
+					case 'text': {
+						const text = token as Tokens.Text;
+						return text.tokens?.length
+							? this.inline(text.tokens)
+							: dialect.escape(decodeEntities(text.text));
+					}
+					case 'escape':
+						return dialect.escape((token as Tokens.Escape).text);
+					case 'html':
+						// Inline tags such as <sup> are dropped, their text content is kept as separate tokens
+						return '';
+					case 'footnoteReference':
+						return dialect.footnoteReference((token as FootnoteReferenceToken).number);
+					default:
+						return 'text' in token && typeof token.text === 'string'
+							? dialect.escape(decodeEntities(token.text))
+							: '';
+				}
+			})
+			.join('');
+	}
+}
+
+/**
+ * Text of an HTML block kept in the Markdown (e.g. a table with merged cells)
+ */
+function htmlText(html: string): string {
+	return decodeEntities(
+		html
+			.replace(/<\/(p|div|tr|li|h[1-6])>|<br\s*\/?>/gi, '\n')
+			.replace(/<\/t[dh]>/gi, '\t')
+			.replace(/<[^>]+>/g, ''),
+	)
+		.replace(/[ \t]+\n/g, '\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+function outsideCodeSpans(text: string, change: (text: string) => string): string {
+	return text
+		.split(/(`+[^`]*`+)/)
+		.map((part, index) => (index % 2 ? part : change(part)))
+		.join('');
+}
+
+/**
+ * Applies a change to the Markdown outside of code blocks and code spans
+ */
+function mapOutsideCode(markdown: string, change: (text: string) => string): string {
+	return marked
+		.lexer(markdown)
+		.map((token) => (token.type === 'code' ? token.raw : outsideCodeSpans(token.raw, change)))
+		.join('');
+}
+
+/**
+ * CommonMark has no tables or strikethrough: tables become HTML, ~~text~~ becomes <del>
+ */
+function toCommonMark(markdown: string): string {
+	return marked
+		.lexer(markdown)
+		.map((token) => {
+			if (token.type === 'table') {
+				return `${(marked.parser([token]) as string).trim()}\n${token.raw.match(/\n*$/)![0]}`;
+			}
+			return token.type === 'code' ? token.raw : outsideCodeSpans(token.raw, strikethroughToHtml);
+		})
+		.join('');
+}
+
+function strikethroughToHtml(text: string): string {
+	return text.replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+}
+
+/**
+ * Obsidian embeds local images as ![[file]] and links headings as [[#Heading|text]]
+ */
+function toObsidian(markdown: string): string {
+	const headings = new Map<string, string>();
+	const occurrences = new Map<string, number>();
+	for (const token of marked.lexer(markdown)) {
+		if (token.type === 'heading') {
+			const text = (token as Tokens.Heading).text;
+			headings.set(githubSlug(text, occurrences), text);
+		}
+	}
+
+	return mapOutsideCode(markdown, (text) =>
+		text
+			.replace(/!\[[^\]]*\]\(<?([^)\s>]+)>?(?:\s+"[^"]*")?\)/g, (match, src: string) =>
+				/^([a-z][a-z\d+.-]*:|\/\/)/i.test(src) ? match : `![[${safeDecodeUri(src)}]]`,
+			)
+			.replace(/\[([^\]]+)\]\(#([^)\s]+)\)/g, (match, label: string, slug: string) => {
+				const heading = headings.get(safeDecodeUri(slug));
+				if (!heading) return match;
+				return heading === label ? `[[#${heading}]]` : `[[#${heading}|${label}]]`;
+			}),
+	);
+}
+
+function safeDecodeUri(text: string): string {
+	try {
+		return decodeURI(text);
+	} catch {
+		return text;
+	}
+}
+
+/**
+ * HTML of the Markdown, footnotes as an ordered list at the end with links
+ * back to their references
+ */
+function markdownToHtml(markdown: string): string {
+	const { body, footnotes } = extractFootnotes(markdown);
+	const instance = footnoteMarked(footnotes);
+	const html = instance.parse(body, { async: false }) as string;
+	if (footnotes.size === 0) return html;
+
+	const notes = [...footnotes.values()].map(({ number, text }) => {
+		const note = (instance.parse(text, { async: false }) as string).trim();
+		const backLink = ` <a href="#fnref-${number}">↩</a>`;
+		// The back link goes inside the note's last paragraph
+		const content = note.endsWith('</p>')
+			? `${note.slice(0, -4)}${backLink}</p>`
+			: `${note}${backLink}`;
+		return `<li id="fn-${number}">${content}</li>`;
+	});
+	return `${html}<section class="footnotes">\n<hr>\n<ol>\n${notes.join('\n')}\n</ol>\n</section>\n`;
+}
+
+/**
+ * Renders the converted document in the selected format. Front matter is
+ * kept by the Markdown flavours and dropped by the other formats. Without
+ * the clean HTML (e.g. for a chunk of the document), HTML is rendered from
+ * the Markdown.
+ */
+export function renderOutput(format: OutputFormat, markdown: string, html?: string): string {
+	const frontMatter = FRONT_MATTER.exec(markdown)?.[0] ?? '';
+	const body = markdown.slice(frontMatter.length);
+
+	switch (format) {
+		case 'markdown':
+			return markdown;
+		case 'html':
+			return html ?? markdownToHtml(body);
+		case 'commonmark':
+			return frontMatter + toCommonMark(body);
+		case 'obsidian':
+			return frontMatter + toObsidian(body);
+	}
+
+	const dialect = format === 'slack' ? SLACK : format === 'jira' ? JIRA : PLAIN_TEXT;
+	return new DialectRenderer(dialect).document(body);
+}
+
+/**
+ * Output file name with the extension of the format: .md names are switched
+ * over, names without an extension get one, other names are kept
+ */
+export function outputFileName(fileName: string, format: OutputFormat): string {
+	const { extension } = OUTPUT_FILE_TYPES[format];
+	if (/\.(md|markdown)$/i.test(fileName))
+		return fileName.replace(/\.(md|markdown)$/i, `.${extension}`);
+	return /\.[^./\\]+$/.test(fileName) ? fileName : `${fileName}.${extension}`;
+}
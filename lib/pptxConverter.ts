@@ -0,0 +1,267 @@
+import { JSDOM } from 'jsdom';
+
+import { imageContentType } from './docxImages';
+import { loadDocxPackage, readRelationships, type Relationship } from './docxPackage';
+import type { OfficeConversionOptions, OfficeConversionResult } from './officeFormats';
+
+const NS = {
+	p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+	a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+	r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+};
+
+const NOTES_SLIDE_TYPE =
+	'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide';
+
+function is(node: Node, namespace: string, localName: string): node is Element {
+	return (
+		node.nodeType === 1 &&
+		(node as Element).namespaceURI === namespace &&
+		(node as Element).localName === localName
+	);
+}
+
+function child(element: Element | undefined, namespace: string, localName: string) {
+	return element
+		? Array.from(element.children).find((candidate) => is(candidate, namespace, localName))
+		: undefined;
+}
+
+function descendants(element: Element, namespace: string, localName: string): Element[] {
+	return Array.from(element.getElementsByTagNameNS(namespace, localName));
+}
+
+/**
+ * Placeholder type of a shape (title, ctrTitle, body, ...), undefined for plain shapes
+ */
+function placeholderType(shape: Element): string | undefined {
+	const nvSpPr = child(shape, NS.p, 'nvSpPr');
+	const placeholder = child(child(nvSpPr, NS.p, 'nvPr'), NS.p, 'ph');
+	if (!placeholder) return undefined;
+	return placeholder.getAttribute('type') ?? 'body';
+}
+
+/**
+ * Converts a PowerPoint presentation (.pptx) to HTML with one section per
+ * slide: the slide title as heading, text as paragraphs and lists, tables,
+ * images and optionally the speaker notes
+ */
+export async function pptxToHtml(
+	buffer: Buffer,
+	options: OfficeConversionOptions = {},
+): Promise<OfficeConversionResult> {
+	const pkg = await loadDocxPackage(buffer);
+	const warnings: string[] = [];
+	const { document } = new JSDOM('').window;
+
+	const presentation = await pkg.readXml('ppt/presentation.xml');
+	if (!presentation) throw new Error('ppt/presentation.xml is missing from the package');
+	const presentationRels = await readRelationships(pkg, 'ppt/presentation.xml');
+
+	const convertRuns = (
+		paragraph: Element,
+		target: HTMLElement,
+		relationships: Map<string, Relationship>,
+	) => {
+		for (const node of Array.from(paragraph.children)) {
+			if (is(node, NS.a, 'br')) {
+				target.appendChild(document.createElement('br'));
+				continue;
+			}
+			if (!is(node, NS.a, 'r') && !is(node, NS.a, 'fld')) continue;
+
+			const text = child(node, NS.a, 't')?.textContent ?? '';
+			if (!text) continue;
+			const properties = child(node, NS.a, 'rPr');
+
+			let inner: HTMLElement = target;
+			const linkId = child(properties, NS.a, 'hlinkClick')?.getAttributeNS(NS.r, 'id');
+			const link = linkId ? relationships.get(linkId) : undefined;
+			if (link?.external) {
+				const anchor = document.createElement('a');
+				anchor.setAttribute('href', link.target);
+				inner.appendChild(anchor);
+				inner = anchor;
+			}
+			for (const [attribute, tag] of [
+				['b', 'strong'],
+				['i', 'em'],
+			] as const) {
+				const value = properties?.getAttribute(attribute);
+				if (value === '1' || value === 'true') {
+					const wrapper = document.createElement(tag);
+					inner.appendChild(wrapper);
+					inner = wrapper;
+				}
+			}
+			if (properties && (properties.getAttribute('strike') ?? 'noStrike') !== 'noStrike') {
+				const wrapper = document.createElement('del');
+				inner.appendChild(wrapper);
+				inner = wrapper;
+			}
+			inner.appendChild(document.createTextNode(text));
+		}
+	};
+
+	/**
+	 * Text body paragraphs; bulleted paragraphs become (nested) lists
+	 */
+	const convertTextBody = (
+		body: Element,
+		target: HTMLElement,
+		relationships: Map<string, Relationship>,
+		bulletedByDefault: boolean,
+	) => {
+		// Open lists by level, index 0 is the outermost
+		let lists: HTMLElement[] = [];
+
+		for (const paragraph of Array.from(body.children).filter((node) => is(node, NS.a, 'p'))) {
+			const properties = child(paragraph, NS.a, 'pPr');
+			const level = Number(properties?.getAttribute('lvl') ?? '0');
+			const numbered = !!child(properties, NS.a, 'buAutoNum');
+			const bulleted =
+				!child(properties, NS.a, 'buNone') &&
+				(numbered || !!child(properties, NS.a, 'buChar') || bulletedByDefault);
+
+			const content = document.createElement(bulleted ? 'li' : 'p');
+			convertRuns(paragraph, content, relationships);
+			if (!content.textContent?.trim()) continue;
+
+			if (!bulleted) {
+				lists = [];
+				target.appendChild(content);
+				continue;
+			}
+
+			lists = lists.slice(0, level + 1);
+			const tag = numbered ? 'ol' : 'ul';
+			while (lists.length <= level) {
+				const list = document.createElement(tag);
+				const parent = lists.length
+					? (lists[lists.length - 1].lastElementChild as HTMLElement | null)
+					: null;
+				(parent ?? target).appendChild(list);
+				lists.push(list);
+			}
+			lists[level].appendChild(content);
+		}
+	};
+
+	const convertTable = (table: Element, relationships: Map<string, Relationship>) => {
+		const element = document.createElement('table');
+		descendants(table, NS.a, 'tr').forEach((row, rowIndex) => {
+			const tr = document.createElement('tr');
+			for (const cell of Array.from(row.children).filter((node) => is(node, NS.a, 'tc'))) {
+				// Cells covered by a merge are only placeholders
+				if (cell.getAttribute('hMerge') === '1' || cell.getAttribute('vMerge') === '1') continue;
+				const td = document.createElement(rowIndex === 0 ? 'th' : 'td');
+				const gridSpan = cell.getAttribute('gridSpan');
+				const rowSpan = cell.getAttribute('rowSpan');
+				if (gridSpan && gridSpan !== '1') td.setAttribute('colspan', gridSpan);
+				if (rowSpan && rowSpan !== '1') td.setAttribute('rowspan', rowSpan);
+				for (const paragraph of descendants(cell, NS.a, 'p')) {
+					if (td.childNodes.length) td.appendChild(document.createElement('br'));
+					convertRuns(paragraph, td, relationships);
+				}
+				tr.appendChild(td);
+			}
+			element.appendChild(tr);
+		});
+		return element;
+	};
+
+	const convertShapes = async (
+		tree: Element,
+		section: HTMLElement,
+		relationships: Map<string, Relationship>,
+	) => {
+		for (const shape of Array.from(tree.children)) {
+			if (is(shape, NS.p, 'sp')) {
+				const type = placeholderType(shape);
+				// The title is the section heading, slide numbers and footers are noise
+				if (['title', 'ctrTitle', 'sldNum', 'ftr', 'dt'].includes(type ?? '')) continue;
+				const body = child(shape, NS.p, 'txBody');
+				if (body) {
+					convertTextBody(body, section, relationships, type === 'body' || type === 'obj');
+				}
+			} else if (is(shape, NS.p, 'grpSp')) {
+				await convertShapes(shape, section, relationships);
+			} else if (is(shape, NS.p, 'graphicFrame')) {
+				const table = descendants(shape, NS.a, 'tbl')[0];
+				if (table) section.appendChild(convertTable(table, relationships));
+			} else if (is(shape, NS.p, 'pic') && options.includeImages) {
+				const properties = descendants(shape, NS.p, 'cNvPr')[0];
+				const embed = descendants(shape, NS.a, 'blip')[0]?.getAttributeNS(NS.r, 'embed');
+				const target = embed ? relationships.get(embed) : undefined;
+				const file = target && !target.external ? pkg.zip.file(target.target) : null;
+				if (!file) {
+					warnings.push(`Image not found in the package: ${target?.target ?? embed}`);
+					continue;
+				}
+				const image = document.createElement('img');
+				image.setAttribute(
+					'alt',
+					properties?.getAttribute('descr') || properties?.getAttribute('name') || '',
+				);
+				image.setAttribute(
+					'src',
+					`data:${imageContentType(target!.target)};base64,${await file.async('base64')}`,
+				);
+				const paragraph = document.createElement('p');
+				paragraph.appendChild(image);
+				section.appendChild(paragraph);
+			}
+		}
+	};
+
+	const slideIds = descendants(presentation.documentElement, NS.p, 'sldId');
+	for (const [index, slideId] of slideIds.entries()) {
+		const relationship = presentationRels.get(slideId.getAttributeNS(NS.r, 'id') ?? '');
+		const slide = relationship ? await pkg.readXml(relationship.target) : undefined;
+		if (!relationship || !slide) {
+			warnings.push(`Slide ${index + 1} could not be found in the package`);
+			continue;
+		}
+		const relationships = await readRelationships(pkg, relationship.target);
+
+		const titleShape = descendants(slide.documentElement, NS.p, 'sp').find((shape) =>
+			['title', 'ctrTitle'].includes(placeholderType(shape) ?? ''),
+		);
+		const title = titleShape
+			? descendants(titleShape, NS.a, 'p')
+					.map((paragraph) => paragraph.textContent?.trim())
+					.filter((text) => text)
+					.join(' ')
+			: '';
+
+		const heading = document.createElement('h2');
+		heading.textContent = title ? `Slide ${index + 1}: ${title}` : `Slide ${index + 1}`;
+		document.body.appendChild(heading);
+
+		const tree = descendants(slide.documentElement, NS.p, 'spTree')[0];
+		if (tree) await convertShapes(tree, document.body, relationships);
+
+		if (options.includeSpeakerNotes) {
+			const notesRel = Array.from(relationships.values()).find(
+				(candidate) => candidate.type === NOTES_SLIDE_TYPE,
+			);
+			const notes = notesRel ? await pkg.readXml(notesRel.target) : undefined;
+			const notesBody = notes
+				? descendants(notes.documentElement, NS.p, 'sp')
+						.filter((shape) => placeholderType(shape) === 'body')
+						.map((shape) => child(shape, NS.p, 'txBody'))
+						.find((body) => body?.textContent?.trim())
+				: undefined;
+			if (notesBody) {
+				const quote = document.createElement('blockquote');
+				const label = document.createElement('p');
+				label.innerHTML = '<strong>Speaker notes</strong>';
+				quote.appendChild(label);
+				convertTextBody(notesBody, quote, relationships, false);
+				document.body.appendChild(quote);
+			}
+		}
+	}
+
+	return { html: document.body.innerHTML, warnings };
+}
@@ -0,0 +1,477 @@
+import { JSDOM } from 'jsdom';
+
+import type { OfficeConversionResult } from './officeFormats';
+
+interface Formatting {
+	bold: boolean;
+	italic: boolean;
+	strike: boolean;
+}
+
+interface GroupState extends Formatting {
+	/**
+	 * Number of characters to skip after a \uN escape (the ANSI fallback)
+	 */
+	unicodeSkip: number;
+	/**
+	 * Text of this group is not part of the document (font table, pictures, ...)
+	 */
+	skip: boolean;
+	/**
+	 * Text of this group is a field instruction, e.g. HYPERLINK "https://..."
+	 */
+	fieldInstruction: boolean;
+	/**
+	 * Text of this group is the bullet or number of a list item (\listtext, \pntext)
+	 */
+	listText: boolean;
+	/**
+	 * Link target of the field this group belongs to
+	 */
+	link?: string;
+}
+
+interface Run extends Formatting {
+	text: string;
+	link?: string;
+}
+
+interface Paragraph {
+	runs: Run[];
+	headingLevel?: number;
+	listMarker?: string;
+	inTable: boolean;
+}
+
+/**
+ * Table rows, each a list of cells holding their paragraphs
+ */
+type Table = Paragraph[][][];
+
+/**
+ * Destinations whose content is never rendered
+ */
+const SKIPPED_DESTINATIONS = new Set([
+	'author',
+	'buptim',
+	'colortbl',
+	'comment',
+	'creatim',
+	'doccomm',
+	'falt',
+	'filetbl',
+	'fonttbl',
+	'footer',
+	'footerf',
+	'footerl',
+	'footerr',
+	'footnote',
+	'header',
+	'headerf',
+	'headerl',
+	'headerr',
+	'info',
+	'keywords',
+	'listtable',
+	'listoverridetable',
+	'object',
+	'operator',
+	'pict',
+	'printim',
+	'revtbl',
+	'revtim',
+	'rsidtbl',
+	'stylesheet',
+	'subject',
+	'title',
+	'xmlnstbl',
+]);
+
+const SYMBOLS: Record<string, string> = {
+	bullet: '•',
+	emdash: '—',
+	endash: '–',
+	emspace: ' ',
+	enspace: ' ',
+	ldblquote: '“',
+	rdblquote: '”',
+	lquote: '‘',
+	rquote: '’',
+	tab: '\t',
+};
+
+function decoderFor(codePage: number): TextDecoder {
+	try {
+		return new TextDecoder(`windows-${codePage}`);
+	} catch {
+		return new TextDecoder('windows-1252');
+	}
+}
+
+/**
+ * Converts an RTF document to HTML: paragraphs, outline-level headings, lists,
+ * tables, hyperlinks and bold/italic/strikethrough. Pictures, headers,
+ * footers and other destinations are skipped.
+ */
+export function rtfToHtml(buffer: Buffer): OfficeConversionResult {
+	const source = buffer.toString('latin1');
+	const warnings: string[] = [];
+
+	let decoder = decoderFor(1252);
+	let state: GroupState = {
+		bold: false,
+		italic: false,
+		strike: false,
+		unicodeSkip: 1,
+		skip: false,
+		fieldInstruction: false,
+		listText: false,
+	};
+	const stack: GroupState[] = [];
+
+	const blocks: Array<Paragraph | Table> = [];
+	let paragraph: Paragraph = { runs: [], inTable: false };
+	let pendingBytes: number[] = [];
+	let pendingSkip = 0;
+	let fieldInstruction = '';
+	let listText = '';
+
+	// Table structure, filled as \cell and \row are reached
+	let table: Table | undefined;
+	let rowCells: Paragraph[][] = [];
+	let cellParagraphs: Paragraph[] = [];
+
+	const appendText = (text: string) => {
+		if (!text) return;
+		if (state.skip) return;
+		if (state.fieldInstruction) {
+			fieldInstruction += text;
+			return;
+		}
+		if (state.listText) {
+			listText += text;
+			return;
+		}
+		const last = paragraph.runs[paragraph.runs.length - 1];
+		if (
+			last &&
+			last.bold === state.bold &&
+			last.italic === state.italic &&
+			last.strike === state.strike &&
+			last.link === state.link
+		) {
+			last.text += text;
+		} else {
+			paragraph.runs.push({
+				text,
+				bold: state.bold,
+				italic: state.italic,
+				strike: state.strike,
+				link: state.link,
+			});
+		}
+	};
+
+	const flushBytes = () => {
+		if (pendingBytes.length === 0) return;
+		const bytes = Uint8Array.from(pendingBytes);
+		pendingBytes = [];
+		appendText(decoder.decode(bytes));
+	};
+
+	const endParagraph = () => {
+		flushBytes();
+		if (paragraph.inTable) {
+			cellParagraphs.push(paragraph);
+		} else {
+			table = undefined;
+			if (paragraph.runs.some((run) => run.text.trim())) blocks.push(paragraph);
+		}
+		// Paragraph properties carry over until the next \pard
+		paragraph = { runs: [], inTable: paragraph.inTable, headingLevel: paragraph.headingLevel };
+	};
+
+	const endCell = () => {
+		endParagraph();
+		rowCells.push(cellParagraphs);
+		cellParagraphs = [];
+	};
+
+	const endRow = () => {
+		flushBytes();
+		if (paragraph.runs.length || cellParagraphs.length) endCell();
+		if (!table) {
+			table = [];
+			blocks.push(table);
+		}
+		table.push(rowCells);
+		rowCells = [];
+	};
+
+	const controlWord = (word: string, parameter: number | undefined) => {
+		if (word !== 'bin') flushBytes();
+
+		switch (word) {
+			case 'par':
+			case 'sect':
+				endParagraph();
+				return;
+			case 'line':
+				appendText('\n');
+				return;
+			case 'pard':
+				// List text groups repeat paragraph properties, which must not reset the item
+				if (state.listText) return;
+				paragraph.inTable = false;
+				paragraph.headingLevel = undefined;
+				return;
+			case 'intbl':
+				paragraph.inTable = true;
+				return;
+			case 'cell':
+				endCell();
+				return;
+			case 'row':
+				endRow();
+				return;
+			case 'outlinelevel':
+				if (parameter !== undefined && parameter < 6) paragraph.headingLevel = parameter + 1;
+				return;
+			case 'ls':
+				paragraph.listMarker ??= '';
+				return;
+			case 'b':
+				state.bold = parameter !== 0;
+				return;
+			case 'i':
+				state.italic = parameter !== 0;
+				return;
+			case 'strike':
+				state.strike = parameter !== 0;
+				return;
+			case 'plain':
+				state.bold = false;
+				state.italic = false;
+				state.strike = false;
+				return;
+			case 'uc':
+				state.unicodeSkip = parameter ?? 1;
+				return;
+			case 'u':
+				if (parameter !== undefined) {
+					appendText(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+					pendingSkip = state.unicodeSkip;
+				}
+				return;
+			case 'ansicpg':
+				if (parameter) decoder = decoderFor(parameter);
+				return;
+			case 'fldinst':
+				state.fieldInstruction = true;
+				fieldInstruction = '';
+				return;
+			case 'fldrslt': {
+				const link = /HYPERLINK\s+"([^"]+)"/.exec(fieldInstruction)?.[1];
+				if (link) state.link = link;
+				return;
+			}
+			case 'listtext':
+			case 'pntext':
+				state.listText = true;
+				listText = '';
+				return;
+		}
+
+		if (SYMBOLS[word]) {
+			appendText(SYMBOLS[word]);
+		} else if (SKIPPED_DESTINATIONS.has(word)) {
+			state.skip = true;
+		}
+	};
+
+	let position = 0;
+	let optionalDestination = false;
+
+	while (position < source.length) {
+		const char = source[position];
+
+		if (char === '{') {
+			flushBytes();
+			stack.push(state);
+			state = { ...state };
+			position++;
+			continue;
+		}
+
+		if (char === '}') {
+			flushBytes();
+			if (state.listText && !stack[stack.length - 1]?.listText) {
+				paragraph.listMarker = listText.trim();
+			}
+			state = stack.pop() ?? state;
+			position++;
+			continue;
+		}
+
+		if (char === '\\') {
+			const next = source[position + 1];
+
+			if (next === "'") {
+				const byte = parseInt(source.slice(position + 2, position + 4), 16);
+				position += 4;
+				if (pendingSkip > 0) {
+					pendingSkip--;
+				} else if (!Number.isNaN(byte)) {
+					pendingBytes.push(byte);
+				}
+				continue;
+			}
+
+			const wordMatch = /^\\([a-z]{1,32})(-?\d{1,10})? ?/.exec(
+				source.slice(position, position + 45),
+			);
+			if (wordMatch) {
+				position += wordMatch[0].length;
+				const [, word, parameter] = wordMatch;
+
+				if (optionalDestination) {
+					optionalDestination = false;
+					// \* marks destinations a reader may ignore, except those handled here
+					if (word !== 'fldinst' && word !== 'listtext' && word !== 'pntext') {
+						state.skip = true;
+						continue;
+					}
+				}
+
+				if (word === 'bin' && parameter) {
+					position += Number(parameter);
+					continue;
+				}
+
+				controlWord(word, parameter === undefined ? undefined : Number(parameter));
+				continue;
+			}
+
+			// Control symbols
+			position += 2;
+			switch (next) {
+				case '*':
+					optionalDestination = true;
+					break;
+				case '~':
+					appendText(' ');
+					break;
+				case '_':
+					appendText('-');
+					break;
+				case '\\':
+				case '{':
+				case '}':
+					appendText(next);
+					break;
+				case '\n':
+				case '\r':
+					controlWord('par', undefined);
+					break;
+			}
+			continue;
+		}
+
+		if (char === '\r' || char === '\n') {
+			position++;
+			continue;
+		}
+
+		if (pendingSkip > 0) {
+			pendingSkip--;
+			position++;
+			continue;
+		}
+
+		flushBytes();
+		const end = source.slice(position).search(/[\\{}\r\n]/);
+		const text = end === -1 ? source.slice(position) : source.slice(position, position + end);
+		position += text.length;
+		appendText(text);
+	}
+
+	endParagraph();
+	if (rowCells.length) endRow();
+
+	if (stack.length) warnings.push('The RTF document has unbalanced braces');
+
+	return { html: renderBlocks(blocks), warnings };
+}
+
+function renderBlocks(blocks: Array<Paragraph | Table>): string {
+	const { document } = new JSDOM('').window;
+
+	const renderRuns = (paragraph: Paragraph, target: HTMLElement) => {
+		for (const run of paragraph.runs) {
+			let inner: HTMLElement = target;
+			if (run.link) {
+				const link = document.createElement('a');
+				link.setAttribute('href', run.link);
+				inner.appendChild(link);
+				inner = link;
+			}
+			for (const [flag, tag] of [
+				['bold', 'strong'],
+				['italic', 'em'],
+				['strike', 'del'],
+			] as const) {
+				if (run[flag]) {
+					const wrapper = document.createElement(tag);
+					inner.appendChild(wrapper);
+					inner = wrapper;
+				}
+			}
+			run.text.split('\n').forEach((line, index) => {
+				if (index > 0) inner.appendChild(document.createElement('br'));
+				if (line) inner.appendChild(document.createTextNode(line));
+			});
+		}
+	};
+
+	let list: HTMLElement | undefined;
+
+	for (const block of blocks) {
+		if (Array.isArray(block)) {
+			list = undefined;
+			const table = document.createElement('table');
+			for (const row of block) {
+				const tr = document.createElement('tr');
+				for (const cell of row) {
+					const td = document.createElement('td');
+					cell.forEach((paragraph, index) => {
+						if (index > 0) td.appendChild(document.createElement('br'));
+						renderRuns(paragraph, td);
+					});
+					tr.appendChild(td);
+				}
+				table.appendChild(tr);
+			}
+			document.body.appendChild(table);
+			continue;
+		}
+
+		if (block.listMarker !== undefined) {
+			const tag = /^\(?\w{1,4}[.)]$/.test(block.listMarker) ? 'ol' : 'ul';
+			if (list?.tagName.toLowerCase() !== tag) {
+				list = document.createElement(tag);
+				document.body.appendChild(list);
+			}
+			const item = document.createElement('li');
+			renderRuns(block, item);
+			list.appendChild(item);
+			continue;
+		}
+
+		list = undefined;
+		const element = document.createElement(block.headingLevel ? `h${block.headingLevel}` : 'p');
+		renderRuns(block, element);
+		document.body.appendChild(element);
+	}
+
+	return document.body.innerHTML;
+}
@@ -0,0 +1,150 @@
+export interface TocOptions {
+	/**
+	 * Remove the table of contents Word generates (paragraphs of `#_Toc...` links)
+	 */
+	stripWordToc?: boolean;
+	/**
+	 * Generate a Markdown table of contents from the document headings
+	 */
+	generate?: boolean;
+	/**
+	 * Deepest heading level listed in the generated table of contents
+	 */
+	maxDepth?: number;
+	/**
+	 * Insert the table of contents at the top or in place of a `[TOC]` marker
+	 * (falls back to the top when there is no marker)
+	 */
+	position?: 'top' | 'marker';
+}
+
+export interface HeadingEntry {
+	level: number;
+	text: string;
+	slug: string;
+}
+
+/**
+ * GitHub-style heading slug: lowercase, punctuation removed, spaces as hyphens,
+ * repeated slugs suffixed with -1, -2, ...
+ */
+export function githubSlug(text: string, occurrences: Map<string, number>): string {
+	const base = text
+		.trim()
+		.toLowerCase()
+		.replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '')
+		.replace(/ /g, '-');
+
+	let slug = base;
+	const count = occurrences.get(base) ?? 0;
+	if (count > 0) slug = `${base}-${count}`;
+	occurrences.set(base, count + 1);
+	// A suffixed slug can collide with a literal heading of the same name
+	if (slug !== base) occurrences.set(slug, (occurrences.get(slug) ?? 0) + 1);
+	return slug;
+}
+
+function safeDecode(value: string): string {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+}
+
+function isWordTocParagraph(element: Element): boolean {
+	const links = Array.from(element.querySelectorAll('a[href^="#_Toc"]'));
+	if (links.length === 0) return false;
+
+	// TOC entries are nothing but _Toc links and end with a page number
+	const text = element.textContent ?? '';
+	let rest = text;
+	for (const link of links) rest = rest.replace(link.textContent ?? '', '');
+	return /^[\s\d.]*$/.test(rest) && /\s[\divxlc]+\s*$/i.test(text);
+}
+
+/**
+ * Assigns slugs to the headings of an HTML document, points internal links
+ * (e.g. Word's `#_Toc123456` bookmarks) at those slugs and optionally strips
+ * Word's generated table of contents. The DOM is modified in place.
+ */
+export function normalizeHeadings(root: Element, options: TocOptions = {}): HeadingEntry[] {
+	if (options.stripWordToc) {
+		for (const paragraph of Array.from(root.querySelectorAll('p, li'))) {
+			if (isWordTocParagraph(paragraph)) paragraph.remove();
+		}
+		// Lists left empty once their TOC entries are gone
+		for (const list of Array.from(root.querySelectorAll('ul, ol'))) {
+			if (!list.querySelector('li')) list.remove();
+		}
+	}
+
+	const occurrences = new Map<string, number>();
+	const headings: HeadingEntry[] = [];
+	const slugById = new Map<string, string>();
+
+	for (const heading of Array.from(root.querySelectorAll('h1, h2, h3, h4, h5, h6'))) {
+		const text = (heading.textContent ?? '').replace(/\s+/g, ' ').trim();
+		if (!text) continue;
+
+		const slug = githubSlug(text, occurrences);
+		headings.push({ level: Number(heading.tagName.slice(1)), text, slug });
+
+		// Bookmarks sit on the heading itself or on empty anchors inside it
+		for (const element of [heading, ...Array.from(heading.querySelectorAll('[id], a[name]'))]) {
+			const id = element.getAttribute('id') ?? element.getAttribute('name');
+			if (id) slugById.set(id, slug);
+		}
+	}
+
+	for (const link of Array.from(root.querySelectorAll('a[href^="#"]'))) {
+		const target = link.getAttribute('href')!.slice(1);
+		const slug = slugById.get(target) ?? slugById.get(safeDecode(target));
+		if (slug) link.setAttribute('href', `#${slug}`);
+	}
+
+	return headings;
+}
+
+function escapeLinkText(text: string): string {
+	return text.replace(/([\\[\]])/g, '\\$1');
+}
+
+/**
+ * Renders a nested Markdown list of links to the headings
+ */
+export function renderToc(headings: HeadingEntry[], maxDepth = 3): string {
+	const listed = headings.filter((heading) => heading.level <= maxDepth);
+	if (listed.length === 0) return '';
+
+	const minLevel = Math.min(...listed.map((heading) => heading.level));
+	return listed
+		.map(
+			(heading) =>
+				`${'  '.repeat(heading.level - minLevel)}- [${escapeLinkText(heading.text)}](#${heading.slug})`,
+		)
+		.join('\n');
+}
+
+const TOC_MARKER = /^[ \t]*\\?\[TOC\\?\][ \t]*$/im;
+// Every marker line with the blank lines after it
+const TOC_MARKERS = /^[ \t]*\\?\[TOC\\?\][ \t]*(?:\n|$)\n*/gim;
+
+/**
+ * Puts the table of contents at the top, or in place of the first `[TOC]`
+ * marker when position is "marker" (falling back to the top without a marker).
+ * Every other marker is removed.
+ */
+export function insertToc(markdown: string, toc: string, position: TocOptions['position']): string {
+	if (position === 'marker' && TOC_MARKER.test(markdown)) {
+		const [before, after] = splitAtMarker(markdown);
+		return `${before.replace(TOC_MARKERS, '')}${toc}${after.replace(TOC_MARKERS, '')}`;
+	}
+	const body = markdown.replace(TOC_MARKERS, '').replace(/^\n+/, '');
+	return toc ? `${toc}\n\n${body}` : body;
+}
+
+function splitAtMarker(markdown: string): [string, string] {
+	const match = TOC_MARKER.exec(markdown)!;
+	return [markdown.slice(0, match.index), markdown.slice(match.index + match[0].length)];
+}
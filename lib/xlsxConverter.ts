@@ -0,0 +1,231 @@
+import { JSDOM } from 'jsdom';
+import { posix } from 'path';
+
+import { loadDocxPackage, type DocxPackage } from './docxPackage';
+import type { OfficeConversionOptions, OfficeConversionResult } from './officeFormats';
+
+const NS = {
+	main: 'http://schemas.openxmlformats.org/spreadsheetml/2006/main',
+	r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+	rel: 'http://schemas.openxmlformats.org/package/2006/relationships',
+};
+
+/**
+ * Built-in number formats that display a date or time
+ */
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+/**
+ * Sheets larger than this are truncated (with a warning) to keep the Markdown usable
+ */
+const MAX_ROWS = 10000;
+const MAX_COLUMNS = 100;
+
+function elements(node: Document | Element, localName: string): Element[] {
+	return Array.from(node.getElementsByTagNameNS(NS.main, localName));
+}
+
+/**
+ * Text of a shared or inline string, including rich text runs (phonetic hints excluded)
+ */
+function stringItemText(item: Element): string {
+	return elements(item, 't')
+		.filter((text) => text.parentElement?.localName !== 'rPh')
+		.map((text) => text.textContent ?? '')
+		.join('');
+}
+
+/**
+ * Zero-based column index of a cell reference (A1 → 0, AB7 → 27)
+ */
+function columnIndex(reference: string): number {
+	const letters = /^[A-Z]+/.exec(reference.toUpperCase())?.[0] ?? '';
+	let index = 0;
+	for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+	return index - 1;
+}
+
+function isDateFormat(formatCode: string): boolean {
+	// Quoted literals, escapes and [colour]/[condition] sections do not count
+	const code = formatCode.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+	return /[dmyhs]/i.test(code);
+}
+
+/**
+ * Excel serial date to ISO 8601 (date only when there is no time part)
+ */
+function serialToIso(serial: number, date1904: boolean): string {
+	const epoch = date1904 ? Date.UTC(1904, 0, 1) : Date.UTC(1899, 11, 30);
+	const date = new Date(epoch + Math.round(serial * 86400000));
+	const iso = date.toISOString();
+	return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+/**
+ * Indexes of the cell formats (styles.xml cellXfs) that display dates
+ */
+async function readDateStyles(pkg: DocxPackage): Promise<Set<number>> {
+	const dateStyles = new Set<number>();
+	const styles = await pkg.readXml('xl/styles.xml');
+	if (!styles) return dateStyles;
+
+	const customDateFormats = new Set(
+		elements(styles, 'numFmt')
+			.filter((format) => isDateFormat(format.getAttribute('formatCode') ?? ''))
+			.map((format) => Number(format.getAttribute('numFmtId'))),
+	);
+	const cellXfs = elements(styles, 'cellXfs')[0];
+	Array.from(cellXfs?.children ?? []).forEach((xf, index) => {
+		const formatId = Number(xf.getAttribute('numFmtId') ?? '0');
+		if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index);
+	});
+	return dateStyles;
+}
+
+/**
+ * Converts an Excel workbook (.xlsx) to HTML with one heading and table per
+ * sheet. Cached formula results are used, dates are written as ISO 8601.
+ */
+export async function xlsxToHtml(
+	buffer: Buffer,
+	options: OfficeConversionOptions = {},
+): Promise<OfficeConversionResult> {
+	const pkg = await loadDocxPackage(buffer);
+	const warnings: string[] = [];
+	const { document } = new JSDOM('').window;
+	const firstRowAsHeader = options.firstRowAsHeader ?? true;
+
+	const workbook = await pkg.readXml('xl/workbook.xml');
+	if (!workbook) throw new Error('xl/workbook.xml is missing from the package');
+	const date1904 = ['1', 'true'].includes(
+		elements(workbook, 'workbookPr')[0]?.getAttribute('date1904') ?? '',
+	);
+
+	const targets = new Map<string, string>();
+	const rels = await pkg.readXml('xl/_rels/workbook.xml.rels');
+	for (const relationship of Array.from(
+		rels?.getElementsByTagNameNS(NS.rel, 'Relationship') ?? [],
+	)) {
+		const target = relationship.getAttribute('Target') ?? '';
+		targets.set(
+			relationship.getAttribute('Id') ?? '',
+			target.startsWith('/') ? target.slice(1) : posix.normalize(posix.join('xl', target)),
+		);
+	}
+
+	const sharedStringsXml = await pkg.readXml('xl/sharedStrings.xml');
+	const sharedStrings = sharedStringsXml
+		? elements(sharedStringsXml, 'si').map(stringItemText)
+		: [];
+	const dateStyles = await readDateStyles(pkg);
+
+	const cellValue = (cell: Element): string => {
+		const type = cell.getAttribute('t') ?? 'n';
+		const value = elements(cell, 'v')[0]?.textContent ?? '';
+
+		switch (type) {
+			case 's':
+				return sharedStrings[Number(value)] ?? '';
+			case 'inlineStr': {
+				const item = elements(cell, 'is')[0];
+				return item ? stringItemText(item) : '';
+			}
+			case 'b':
+				return value === '1' ? 'TRUE' : 'FALSE';
+			case 'n': {
+				const number = Number(value);
+				if (
+					value &&
+					dateStyles.has(Number(cell.getAttribute('s') ?? '0')) &&
+					Number.isFinite(number)
+				) {
+					return serialToIso(number, date1904);
+				}
+				return value;
+			}
+			default:
+				// str (formula string), e (error), d (ISO date)
+				return value;
+		}
+	};
+
+	for (const sheet of elements(workbook, 'sheet')) {
+		const name = sheet.getAttribute('name') ?? '';
+		const path = targets.get(sheet.getAttributeNS(NS.r, 'id') ?? '');
+		const worksheet = path ? await pkg.readXml(path) : undefined;
+		if (!worksheet) {
+			// Chart sheets and dialog sheets have no cells
+			warnings.push(`Sheet "${name}" has no worksheet data and was skipped`);
+			continue;
+		}
+
+		const grid: string[][] = [];
+		let truncated = false;
+		for (const row of elements(worksheet, 'row')) {
+			const rowIndex = Number(row.getAttribute('r') ?? grid.length + 1) - 1;
+			if (rowIndex >= MAX_ROWS) {
+				truncated = true;
+				break;
+			}
+			elements(row, 'c').forEach((cell, position) => {
+				const reference = cell.getAttribute('r');
+				const column = reference ? columnIndex(reference) : position;
+				if (column >= MAX_COLUMNS) {
+					truncated = true;
+					return;
+				}
+				const value = cellValue(cell);
+				if (!value) return;
+				grid[rowIndex] ??= [];
+				grid[rowIndex][column] = value;
+			});
+		}
+		if (truncated) {
+			warnings.push(`Sheet "${name}" was truncated to ${MAX_ROWS} rows and ${MAX_COLUMNS} columns`);
+		}
+
+		// Leading empty rows and columns are dropped, empty rows inside the data are kept
+		const firstRow = grid.findIndex((row) => row?.some((value) => value));
+		const heading = document.createElement('h2');
+		heading.textContent = name;
+		document.body.appendChild(heading);
+		if (firstRow === -1) {
+			const empty = document.createElement('p');
+			empty.textContent = '(empty sheet)';
+			document.body.appendChild(empty);
+			continue;
+		}
+
+		const rows = Array.from(grid.slice(firstRow), (row) => row ?? []);
+		const firstColumn = Math.min(
+			...rows.map((row) => {
+				const index = row.findIndex((value) => value);
+				return index === -1 ? Infinity : index;
+			}),
+		);
+		const width = Math.max(...rows.map((row) => row.length)) - firstColumn;
+
+		const table = document.createElement('table');
+		const addRow = (parent: HTMLElement, values: Array<string | undefined>, cellTag: string) => {
+			const tr = document.createElement('tr');
+			for (let column = 0; column < width; column++) {
+				const cell = document.createElement(cellTag);
+				cell.textContent = values[firstColumn + column] ?? '';
+				tr.appendChild(cell);
+			}
+			parent.appendChild(tr);
+		};
+
+		const head = document.createElement('thead');
+		// Without a header row the table gets an empty one, GFM tables always have a header
+		addRow(head, firstRowAsHeader ? rows[0] : [], 'th');
+		table.appendChild(head);
+
+		const body = document.createElement('tbody');
+		for (const row of firstRowAsHeader ? rows.slice(1) : rows) addRow(body, row, 'td');
+		table.appendChild(body);
+		document.body.appendChild(table);
+	}
+
+	return { html: document.body.innerHTML, warnings };
+}
@@ -1,15 +1,91 @@
 import {
+	IBinaryKeyData,
 	IDataObject,
 	type IExecuteFunctions,
 	type INodeExecutionData,
 	type INodeType,
 	type INodeTypeDescription,
-	NodeOperationError,
 } from 'n8n-workflow';
 
+import { JSDOM } from 'jsdom';
 import mammoth from 'mammoth';
 import TurndownService from 'turndown';
 
+import {
+	addImagePlaceholderRule,
+	createImageConverter,
+	type ImageHandling,
+} from '../../lib/docxImages';
+import {
+	addAdmonitionRule,
+	buildStyleMap,
+	findUnmappedStyles,
+	type StyleMapping,
+} from '../../lib/docxStyleMap';
+import { addGfmTableRules, type MergedCellStrategy } from '../../lib/gfmTables';
+import {
+	addNoteRules,
+	COMMENT_STYLE_MAPPING,
+	readComments,
+	type CommentHandling,
+	type DocxComment,
+} from '../../lib/docxNotes';
+import {
+	addDroppedElement,
+	createConversionReport,
+	scoreConversion,
+} from '../../lib/conversionReport';
+import { markListNumbers, renderListNumbers } from '../../lib/docxLists';
+import { extractEquations, renderEquations } from '../../lib/docxMath';
+import { checkboxSymbolWarnings, classifyMessages } from '../../lib/docxMessages';
+import { loadDocxPackage, type DocxPackage } from '../../lib/docxPackage';
+import { DocxValidationError, validateDocx, type DocxVariant } from '../../lib/docxValidation';
+import {
+	applyTrackedChanges,
+	renderRevisionMarks,
+	type DocxRevision,
+	type TrackedChangesMode,
+} from '../../lib/docxRevisions';
+import { readDocxMetadata } from '../../lib/docxMetadata';
+import {
+	addBreakRule,
+	addHeaderFooterSections,
+	headerFooterFields,
+	inlineTextBoxes,
+	markBreaks,
+	readHeadersFooters,
+	renderBreaks,
+	type BreakHandling,
+	type DocxHeaderFooter,
+	type HeaderFooterHandling,
+} from '../../lib/docxSections';
+import { toFrontMatter } from '../../lib/frontMatter';
+import { splitMarkdown } from '../../lib/markdownChunks';
+import { truncateMarkdown } from '../../lib/markdownTruncation';
+import { addListRules, wrapTaskParagraphs } from '../../lib/markdownLists';
+import { applyMarkdownStyle } from '../../lib/markdownStyle';
+import { addMathRule, type MathHandling } from '../../lib/mathml';
+import {
+	OUTPUT_FILE_TYPES,
+	outputFileName,
+	renderOutput,
+	type OutputFormat,
+} from '../../lib/outputFormats';
+import { insertToc, normalizeHeadings, renderToc } from '../../lib/toc';
+import { buildOutline } from '../../lib/documentOutline';
+import { errorItem, itemError, toItemError } from '../shared/ItemErrors';
+import {
+	chunkFields,
+	chunkFilename,
+	getSplitOptions,
+	splitOutputProperties,
+} from '../shared/SplitOutputDescription';
+import { getMarkdownStyle, markdownStyleProperty } from '../shared/MarkdownStyleDescription';
+import { mathHandlingProperty } from '../shared/MathDescription';
+import { outputFormatProperty } from '../shared/OutputFormatDescription';
+import { getTruncationOptions, truncationProperties } from '../shared/TruncationDescription';
+import { getTocOptions, tocProperties } from '../shared/TocDescription';
+
 export class DocxToMarkdown implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'DOCX → Markdown',
@@ -39,6 +115,7 @@ export class DocxToMarkdown implements INodeType {
 				],
 				default: 'json',
 			},
+			outputFormatProperty,
 			{
 				displayName: 'Markdown Field',
 				name: 'markdownField',
@@ -62,6 +139,344 @@ export class DocxToMarkdown implements INodeType {
 				default: true,
 				description: 'Whether to try to preserve headings, lists, and tables',
 			},
+			{
+				displayName: 'Merged Cell Tables',
+				name: 'mergedCellStrategy',
+				type: 'options',
+				options: [
+					{
+						name: 'Flatten',
+						value: 'flatten',
+						description: 'Un-merge the cells and keep the content in the first cell',
+					},
+					{
+						name: 'Keep as HTML',
+						value: 'html',
+						description: 'Keep the table as raw HTML inside the Markdown',
+					},
+					{
+						name: 'Skip',
+						value: 'skip',
+						description: 'Drop the table from the output',
+					},
+				],
+				default: 'html',
+				displayOptions: { show: { preserveStructure: [true] } },
+				description:
+					'How to handle tables with merged cells, which GitHub-Flavored Markdown tables cannot express',
+			},
+			{
+				displayName: 'Image Handling',
+				name: 'imageHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Drop',
+						value: 'drop',
+						description: 'Remove images from the Markdown',
+					},
+					{
+						name: 'Extract to Binaries',
+						value: 'extract',
+						description:
+							'Emit each image as its own binary property (image_0, image_1, …) and link it by relative path',
+					},
+					{
+						name: 'Inline Data URI',
+						value: 'inline',
+						description: 'Embed images as base64 data URIs',
+					},
+					{
+						name: 'Placeholder Only',
+						value: 'placeholder',
+						description: 'Replace images with an [Image: alt text] marker',
+					},
+				],
+				default: 'inline',
+				description: 'How embedded images are represented in the output',
+			},
+			{
+				displayName: 'Image Folder',
+				name: 'imageFolder',
+				type: 'string',
+				default: 'images',
+				displayOptions: { show: { imageHandling: ['extract'] } },
+				description: 'Relative folder used in the Markdown image links',
+			},
+			mathHandlingProperty,
+			{
+				displayName: 'Headers and Footers',
+				name: 'headersFooters',
+				type: 'options',
+				options: [
+					{
+						name: 'As Front Matter',
+						value: 'frontMatter',
+						description: 'Add them as "headers" and "footers" fields of the YAML front matter',
+					},
+					{
+						name: 'As Sections',
+						value: 'sections',
+						description: 'Put headers above and footers below the document, set off by ---',
+					},
+					{
+						name: 'Ignore',
+						value: 'ignore',
+						description: 'Leave page headers and footers out',
+					},
+				],
+				default: 'ignore',
+				description:
+					'How page headers and footers (first page, even pages, default) are represented in the output',
+			},
+			{
+				displayName: 'Inline Text Boxes',
+				name: 'inlineTextBoxes',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to put the text of text boxes and shapes where they are anchored in the text',
+			},
+			{
+				displayName: 'Breaks',
+				name: 'breakHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'Ignore',
+						value: 'ignore',
+						description: 'Leave page and section breaks out',
+					},
+					{
+						name: 'Page and Section Breaks',
+						value: 'sections',
+						description: 'Mark page breaks and all section breaks, continuous ones included',
+					},
+					{
+						name: 'Page Breaks',
+						value: 'page',
+						description: 'Mark page breaks and sections starting on a new page',
+					},
+				],
+				default: 'ignore',
+				description: 'Which page and section breaks are marked in the Markdown',
+			},
+			{
+				displayName: 'Break Separator',
+				name: 'breakSeparator',
+				type: 'string',
+				default: '<!-- pagebreak -->',
+				displayOptions: { hide: { breakHandling: ['ignore'] } },
+				description:
+					'Markdown written for every marked break, e.g. --- or &lt;!-- pagebreak --&gt;',
+			},
+			{
+				displayName: 'Comments',
+				name: 'commentHandling',
+				type: 'options',
+				options: [
+					{
+						name: 'As Footnotes',
+						value: 'footnotes',
+						description: 'Reference each comment as a Markdown footnote with author, date and text',
+					},
+					{
+						name: 'As HTML Comments',
+						value: 'htmlComments',
+						description: 'Insert an HTML comment at the commented position',
+					},
+					{
+						name: 'As JSON Array',
+						value: 'json',
+						description:
+							'Return comments (author, date, text, anchored text) in a separate "comments" field',
+					},
+					{
+						name: 'Ignore',
+						value: 'ignore',
+						description: 'Drop Word comments',
+					},
+				],
+				default: 'ignore',
+				description: 'How to include Word comments. Footnotes and endnotes are always converted.',
+			},
+			{
+				displayName: 'Tracked Changes',
+				name: 'trackedChanges',
+				type: 'options',
+				options: [
+					{
+						name: 'Accept All',
+						value: 'accept',
+						description: 'Keep insertions and drop deletions',
+					},
+					{
+						name: 'Reject All',
+						value: 'reject',
+						description: 'Drop insertions and keep deletions to restore the original text',
+					},
+					{
+						name: 'Show as CriticMarkup',
+						value: 'criticMarkup',
+						description: 'Show both as {++inserted++} and {--deleted--}',
+					},
+					{
+						name: 'Show as HTML Ins/Del',
+						value: 'html',
+						description: 'Show both as &lt;ins&gt; and &lt;del&gt; tags',
+					},
+				],
+				default: 'accept',
+				description: 'How to handle insertions and deletions recorded with Track Changes',
+			},
+			{
+				displayName: 'Include Revisions',
+				name: 'includeRevisions',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to add the tracked changes (type, author, date, text) as a "revisions" array to the JSON output',
+			},
+			{
+				displayName: 'Style Mappings',
+				name: 'styleMappings',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				placeholder: 'Add Style Mapping',
+				default: {},
+				description: 'Map custom Word styles to Markdown elements',
+				options: [
+					{
+						displayName: 'Mapping',
+						name: 'mappings',
+						values: [
+							{
+								displayName: 'Style Type',
+								name: 'styleType',
+								type: 'options',
+								options: [
+									{ name: 'Paragraph Style', value: 'paragraph' },
+									{ name: 'Character (Run) Style', value: 'run' },
+								],
+								default: 'paragraph',
+							},
+							{
+								displayName: 'Style Name',
+								name: 'styleName',
+								type: 'string',
+								default: '',
+								placeholder: 'Heading Custom 1',
+								description: 'Name of the style as shown in Word',
+							},
+							{
+								displayName: 'Markdown Element',
+								name: 'target',
+								type: 'options',
+								options: [
+									{ name: 'Admonition', value: 'admonition' },
+									{ name: 'Blockquote', value: 'blockquote' },
+									{ name: 'Bold', value: 'strong' },
+									{ name: 'Code', value: 'code' },
+									{ name: 'Code Block', value: 'pre' },
+									{ name: 'Heading 1', value: 'h1' },
+									{ name: 'Heading 2', value: 'h2' },
+									{ name: 'Heading 3', value: 'h3' },
+									{ name: 'Heading 4', value: 'h4' },
+									{ name: 'Heading 5', value: 'h5' },
+									{ name: 'Heading 6', value: 'h6' },
+									{ name: 'Italic', value: 'em' },
+								],
+								default: 'h1',
+								description:
+									'Element the style is converted to. Character styles only support Bold, Italic and Code.',
+							},
+							{
+								displayName: 'Admonition Type',
+								name: 'admonitionType',
+								type: 'options',
+								options: [
+									{ name: 'Caution', value: 'caution' },
+									{ name: 'Important', value: 'important' },
+									{ name: 'Note', value: 'note' },
+									{ name: 'Tip', value: 'tip' },
+									{ name: 'Warning', value: 'warning' },
+								],
+								default: 'note',
+								displayOptions: { show: { target: ['admonition'] } },
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Raw Style Map',
+				name: 'rawStyleMap',
+				type: 'string',
+				typeOptions: { rows: 4 },
+				default: '',
+				placeholder: "p[style-name='Quote Box'] => blockquote > p:fresh",
+				description:
+					'Additional mammoth style-map rules, one per line. These take precedence over the style mappings above.',
+			},
+			{
+				displayName: 'Add Front Matter',
+				name: 'addFrontMatter',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to prepend YAML front matter with the document properties (title, author, dates, counts, custom properties)',
+			},
+			{
+				displayName: 'Include Metadata',
+				name: 'includeMetadata',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to add the document properties as a "metadata" object to the JSON output',
+			},
+			{
+				displayName: 'Include Outline',
+				name: 'includeOutline',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to add a structured "outline" (block list with type, level, text and position, plus statistics) to the JSON output',
+			},
+			markdownStyleProperty,
+			...tocProperties,
+			...truncationProperties,
+			...splitOutputProperties,
+			{
+				displayName: 'Accepted Document Types',
+				name: 'acceptedTypes',
+				type: 'multiOptions',
+				options: [
+					{ name: 'Document (.docx)', value: 'docx' },
+					{ name: 'Macro-Enabled Document (.docm)', value: 'docm' },
+					{ name: 'Macro-Enabled Template (.dotm)', value: 'dotm' },
+					{ name: 'Template (.dotx)', value: 'dotx' },
+				],
+				default: ['docx'],
+				description:
+					'Word package types to convert, detected from the file content. Other types fail with a MACRO_ENABLED_DOCUMENT or TEMPLATE_DOCUMENT error code.',
+			},
+			{
+				displayName: 'Max File Size (MB)',
+				name: 'maxFileSize',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 50,
+				description: 'Reject larger files with a FILE_TOO_LARGE error code (0 = no limit)',
+			},
+			{
+				displayName: 'Max Uncompressed Size (MB)',
+				name: 'maxUncompressedSize',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 500,
+				description:
+					'Reject documents that unpack to more than this, e.g. zip bombs, with an UNCOMPRESSED_TOO_LARGE error code (0 = no limit)',
+			},
 			{
 				displayName: 'Output Binary Property',
 				name: 'outputBinaryProperty',
@@ -85,112 +500,364 @@ export class DocxToMarkdown implements INodeType {
 		const returnData: INodeExecutionData[] = [];
 
 		for (let i = 0; i < items.length; i++) {
-			const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
-			const outputMode = this.getNodeParameter('outputMode', i) as 'json' | 'binary';
-			const markdownField = this.getNodeParameter('markdownField', i) as string;
-			const includeHtml = this.getNodeParameter('includeHtml', i) as boolean;
-			const preserveStructure = this.getNodeParameter('preserveStructure', i) as boolean;
-
-			// Only get binary output parameters if outputMode is 'binary'
-			let outputBinaryProperty: string | undefined;
-			let outputFilename: string | undefined;
-			if (outputMode === 'binary') {
-				outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
-				outputFilename = this.getNodeParameter('outputFilename', i) as string;
-			}
+			let fileName: string | undefined;
+			try {
+				const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+				const outputMode = this.getNodeParameter('outputMode', i) as 'json' | 'binary';
+				const outputFormat = this.getNodeParameter('outputFormat', i, 'markdown') as OutputFormat;
+				const markdownField = this.getNodeParameter('markdownField', i) as string;
+				const includeHtml = this.getNodeParameter('includeHtml', i) as boolean;
+				const preserveStructure = this.getNodeParameter('preserveStructure', i) as boolean;
+				const imageHandling = this.getNodeParameter('imageHandling', i, 'inline') as ImageHandling;
+				const imageFolder =
+					imageHandling === 'extract'
+						? (this.getNodeParameter('imageFolder', i, 'images') as string)
+						: undefined;
 
-			const item = items[i];
+				// Only get binary output parameters if outputMode is 'binary'
+				let outputBinaryProperty: string | undefined;
+				let outputFilename: string | undefined;
+				if (outputMode === 'binary') {
+					outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
+					outputFilename = this.getNodeParameter('outputFilename', i) as string;
+				}
 
-			if (!item.binary || !item.binary[binaryPropertyName]) {
-				throw new NodeOperationError(
-					this.getNode(),
-					`Item ${i}: Binary property "${binaryPropertyName}" not found`,
-					{ itemIndex: i },
-				);
-			}
+				const item = items[i];
 
-			const inputBinary = item.binary[binaryPropertyName];
+				if (!item.binary || !item.binary[binaryPropertyName]) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'BINARY_PROPERTY_NOT_FOUND',
+						`Binary property "${binaryPropertyName}" not found`,
+					);
+				}
 
-			const mime =
-				inputBinary.mimeType ??
-				'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+				const inputBinary = item.binary[binaryPropertyName];
+				fileName = inputBinary.fileName;
 
-			const looksDocx =
-				mime === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-				(inputBinary.fileName?.toLowerCase().endsWith('.docx') ?? false);
+				const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
 
-			if (!looksDocx) {
-				throw new NodeOperationError(
-					this.getNode(),
-					`Item ${i}: Expected a .docx file (mime="${mime}", name="${inputBinary.fileName ?? 'unknown'}")`,
-					{ itemIndex: i },
-				);
-			}
+				// The file is identified by its content, names and MIME types are often wrong
+				try {
+					await validateDocx(buffer, {
+						acceptedVariants: this.getNodeParameter('acceptedTypes', i, ['docx']) as DocxVariant[],
+						maxFileSize: (this.getNodeParameter('maxFileSize', i, 50) as number) * 1024 * 1024,
+						maxUncompressedSize:
+							(this.getNodeParameter('maxUncompressedSize', i, 500) as number) * 1024 * 1024,
+					});
+				} catch (error) {
+					if (!(error instanceof DocxValidationError)) throw error;
+					throw itemError(this.getNode(), i, error.code, error.message, error.hint);
+				}
 
-			const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
-
-			const mammothOptions = {
-				styleMap: ["p[style-name='Title'] => h1:fresh", "p[style-name='Subtitle'] => h2:fresh"],
-				convertImage: mammoth.images.imgElement(async (image) => {
-					const buf = await image.read();
-					const type = image.contentType || 'image/png';
-					const dataUri = `data:${type};base64,${Buffer.from(buf).toString('base64')}`;
-					return { src: dataUri };
-				}),
-			};
-
-			const { value: html, messages } = await mammoth.convertToHtml({ buffer }, mammothOptions);
-
-			// HTML -> Markdown (turndown)
-			const td = new TurndownService({
-				headingStyle: 'atx',
-				bulletListMarker: '-',
-				codeBlockStyle: 'fenced',
-				emDelimiter: '_',
-			});
-
-			if (preserveStructure) {
-				td.keep(['table', 'thead', 'tbody', 'tr', 'th', 'td']);
-			}
+				// The raw package is only opened for features mammoth does not cover
+				let docxPackage: DocxPackage | undefined;
+				const getPackage = async () => (docxPackage ??= await loadDocxPackage(buffer));
+
+				const { convertImage, images } = createImageConverter(imageHandling, imageFolder);
 
-			td.addRule('lineBreaks', {
-				filter: ['br'],
-				replacement: () => '  \n',
-			});
+				const styleMappings = this.getNodeParameter(
+					'styleMappings.mappings',
+					i,
+					[],
+				) as StyleMapping[];
+				const rawStyleMap = this.getNodeParameter('rawStyleMap', i, '') as string;
+				const commentHandling = this.getNodeParameter(
+					'commentHandling',
+					i,
+					'ignore',
+				) as CommentHandling;
+				// Comments are read before the steps below rewrite document.xml with their marks
+				let comments: DocxComment[] = [];
+				if (commentHandling !== 'ignore') {
+					comments = await readComments(await getPackage());
+				}
 
-			const markdown = td.turndown(html);
-			const warnings = messages?.map((m) => m.message) ?? [];
+				const trackedChanges = this.getNodeParameter(
+					'trackedChanges',
+					i,
+					'accept',
+				) as TrackedChangesMode;
+				const includeRevisions = this.getNodeParameter('includeRevisions', i, false) as boolean;
 
-			if (outputMode === 'json') {
-				const json: IDataObject = {
-					...item.json,
-					[markdownField]: markdown,
-					warnings,
+				// mammoth accepts all changes on its own, other modes rewrite the XML first
+				let revisions: DocxRevision[] = [];
+				let revisedBuffer: Buffer | undefined;
+				if (trackedChanges !== 'accept' || includeRevisions) {
+					({ buffer: revisedBuffer, revisions } = await applyTrackedChanges(
+						await getPackage(),
+						trackedChanges,
+					));
+				}
+
+				// Text boxes go first, so the steps below see their text as regular runs
+				if (this.getNodeParameter('inlineTextBoxes', i, false) as boolean) {
+					revisedBuffer = (await inlineTextBoxes(await getPackage())) ?? revisedBuffer;
+				}
+				const breakHandling = this.getNodeParameter('breakHandling', i, 'ignore') as BreakHandling;
+				revisedBuffer = (await markBreaks(await getPackage(), breakHandling)) ?? revisedBuffer;
+
+				// Word's list numbers (restarts, continued lists) are carried through mammoth as marks
+				revisedBuffer = (await markListNumbers(await getPackage())) ?? revisedBuffer;
+
+				// mammoth drops equations, they are taken out as MathML and put back afterwards
+				const mathHandling = this.getNodeParameter('mathHandling', i, 'latex') as MathHandling;
+				const { buffer: mathBuffer, equations } = await extractEquations(await getPackage());
+				revisedBuffer = mathBuffer ?? revisedBuffer;
+
+				const styleMap = buildStyleMap(styleMappings, rawStyleMap);
+				if (commentHandling !== 'ignore') {
+					styleMap.push(COMMENT_STYLE_MAPPING);
+				}
+
+				const mammothOptions = {
+					styleMap,
+					convertImage,
 				};
-				if (includeHtml) (json as IDataObject).html = html;
-
-				returnData.push({ json });
-			} else {
-				// output binary .md
-				const mdBuffer = Buffer.from(markdown, 'utf-8');
-				const binary = await this.helpers.prepareBinaryData(
-					mdBuffer,
-					outputFilename || 'document.md',
-					'text/markdown',
+
+				const { value, messages } = await mammoth.convertToHtml(
+					{ buffer: revisedBuffer ?? buffer },
+					mammothOptions,
+				);
+				const html = renderBreaks(
+					renderEquations(renderListNumbers(renderRevisionMarks(value, trackedChanges)), equations),
 				);
 
-				// keep metadata (warnings) in JSON as well
-				const json: IDataObject = {
-					...item.json,
-					warnings,
-				};
+				const report = createConversionReport();
 
-				returnData.push({
-					json,
-					binary: {
-						[outputBinaryProperty!]: binary,
-					},
+				// HTML -> Markdown (turndown)
+				const td = new TurndownService(
+					applyMarkdownStyle(
+						{
+							headingStyle: 'atx',
+							bulletListMarker: '-',
+							codeBlockStyle: 'fenced',
+							emDelimiter: '_',
+						},
+						getMarkdownStyle(this, i),
+					),
+				);
+
+				if (preserveStructure) {
+					const mergedCellStrategy = this.getNodeParameter(
+						'mergedCellStrategy',
+						i,
+						'html',
+					) as MergedCellStrategy;
+					addGfmTableRules(td, {
+						mergedCellStrategy,
+						onFallback: (strategy) => report.tableFallbacks[strategy]++,
+					});
+				}
+
+				td.addRule('lineBreaks', {
+					filter: ['br'],
+					replacement: () => '  \n',
 				});
+
+				if (imageHandling === 'placeholder') {
+					addImagePlaceholderRule(td);
+				}
+
+				if (trackedChanges === 'html') {
+					td.keep(['ins', 'del']);
+				}
+
+				addListRules(td);
+				addMathRule(td, mathHandling);
+				addBreakRule(
+					td,
+					this.getNodeParameter('breakSeparator', i, '<!-- pagebreak -->') as string,
+				);
+				addAdmonitionRule(td);
+				addNoteRules(td, { commentHandling, comments });
+
+				// Heading slugs are assigned on the DOM so bookmark links (#_Toc...) can follow them
+				const tocOptions = getTocOptions(this, i);
+				const { document } = new JSDOM(html).window;
+				const headings = normalizeHeadings(document.body, tocOptions);
+				// Paragraphs starting with a checkbox content control become task list items
+				wrapTaskParagraphs(document.body);
+
+				const cleanHtml = document.body.innerHTML;
+				let markdown = td.turndown(cleanHtml);
+				// The clean HTML is the HTML output only while the Markdown is its plain conversion
+				let markdownChanged = commentHandling !== 'ignore' || tocOptions.generate;
+				if (tocOptions.generate) {
+					markdown = insertToc(
+						markdown,
+						renderToc(headings, tocOptions.maxDepth),
+						tocOptions.position,
+					);
+				}
+
+				// mammoth leaves headers and footers out, they are read from their own parts
+				const headerFooterHandling = this.getNodeParameter(
+					'headersFooters',
+					i,
+					'ignore',
+				) as HeaderFooterHandling;
+				let headersFooters: DocxHeaderFooter[] = [];
+				if (headerFooterHandling !== 'ignore') {
+					headersFooters = await readHeadersFooters(await getPackage());
+				}
+				if (headerFooterHandling === 'sections') {
+					markdown = addHeaderFooterSections(markdown, headersFooters);
+					markdownChanged = true;
+				}
+
+				const addFrontMatter = this.getNodeParameter('addFrontMatter', i, false) as boolean;
+				const includeMetadata = this.getNodeParameter('includeMetadata', i, false) as boolean;
+				const metadata =
+					addFrontMatter || includeMetadata ? await readDocxMetadata(await getPackage()) : {};
+				const headerFooterFrontMatter =
+					headerFooterHandling === 'frontMatter' ? headerFooterFields(headersFooters) : {};
+				if (addFrontMatter || Object.keys(headerFooterFrontMatter).length) {
+					markdown =
+						toFrontMatter({ ...(addFrontMatter ? metadata : {}), ...headerFooterFrontMatter }) +
+						markdown;
+				}
+
+				const truncation = truncateMarkdown(markdown, getTruncationOptions(this, i));
+				if (truncation.truncated) {
+					markdown = truncation.markdown;
+					markdownChanged = true;
+					report.truncated = true;
+					report.originalLength = truncation.originalLength;
+				}
+
+				// `warnings` keeps its plain string form, `messages` adds type and category.
+				// Checkbox symbols mammoth could not read became task list checkboxes.
+				const conversionMessages = classifyMessages(
+					messages,
+					await checkboxSymbolWarnings(await getPackage()),
+				);
+				const warnings = conversionMessages
+					.filter((message) => message.type === 'warning')
+					.map((message) => message.message);
+				const unmappedStyles = findUnmappedStyles(messages);
+
+				report.unrecognisedStyles = unmappedStyles.map((style) =>
+					style.name === 'null' ? style.styleId : style.name,
+				);
+				report.imagesConverted = imageHandling === 'drop' ? 0 : images.length;
+				for (const message of conversionMessages) {
+					if (message.type === 'error') report.errors++;
+					if (message.element) addDroppedElement(report, message.element);
+				}
+
+				// Extracted images travel as extra binary properties next to the Markdown
+				const imageBinaries: IBinaryKeyData = {};
+				if (imageHandling === 'extract') {
+					for (const image of images) {
+						imageBinaries[image.name] = await this.helpers.prepareBinaryData(
+							image.data,
+							image.fileName,
+							image.contentType,
+						);
+					}
+				}
+
+				// Fields shared by both output modes, most of them optional
+				const extraFields: IDataObject = { report: scoreConversion(report) };
+				if (commentHandling === 'json') {
+					extraFields.comments = comments;
+				}
+				if (includeMetadata) {
+					extraFields.metadata = metadata;
+				}
+				if (includeRevisions) {
+					extraFields.revisions = revisions;
+				}
+				if (this.getNodeParameter('includeOutline', i, false) as boolean) {
+					extraFields.outline = buildOutline(document.body);
+				}
+
+				// Manifest of the images found in the document (not emitted for inline data URIs)
+				if (imageHandling !== 'inline') {
+					extraFields.images = images.map(({ name, fileName, contentType, size, altText }) => ({
+						name,
+						fileName,
+						contentType,
+						size,
+						altText,
+					}));
+				}
+
+				const splitOptions = getSplitOptions(this, i);
+				const chunks = splitOptions ? splitMarkdown(markdown, splitOptions) : undefined;
+
+				for (const chunk of chunks ?? [undefined]) {
+					const content = chunk ? chunk.text : markdown;
+					const output = renderOutput(
+						outputFormat,
+						content,
+						chunk || markdownChanged ? undefined : cleanHtml,
+					);
+
+					// When splitting, each chunk only carries the extracted images it links to
+					const binaries: IBinaryKeyData = {};
+					for (const image of images) {
+						if (imageBinaries[image.name] && (!chunk || content.includes(image.fileName))) {
+							binaries[image.name] = imageBinaries[image.name];
+						}
+					}
+
+					const chunkInfo: IDataObject = chunk
+						? { chunk: chunkFields(chunk, inputBinary.fileName) }
+						: {};
+
+					if (outputMode === 'json') {
+						const json: IDataObject = {
+							...item.json,
+							[markdownField]: output,
+							...chunkInfo,
+							warnings,
+							messages: conversionMessages,
+							unmappedStyles,
+							...extraFields,
+						};
+						if (includeHtml) (json as IDataObject).html = html;
+
+						if (Object.keys(binaries).length > 0) {
+							returnData.push({ json, binary: binaries });
+						} else {
+							returnData.push({ json });
+						}
+					} else {
+						// output binary .md
+						const mdBuffer = Buffer.from(output, 'utf-8');
+						const fileName = outputFilename || 'document.md';
+						const binary = await this.helpers.prepareBinaryData(
+							mdBuffer,
+							outputFileName(chunk ? chunkFilename(fileName, chunk) : fileName, outputFormat),
+							OUTPUT_FILE_TYPES[outputFormat].mimeType,
+						);
+
+						// keep metadata (warnings) in JSON as well
+						const json: IDataObject = {
+							...item.json,
+							...chunkInfo,
+							warnings,
+							messages: conversionMessages,
+							unmappedStyles,
+							...extraFields,
+						};
+
+						returnData.push({
+							json,
+							binary: {
+								...binaries,
+								[outputBinaryProperty!]: binary,
+							},
+						});
+					}
+				}
+			} catch (error) {
+				const nodeError = toItemError(this.getNode(), i, error);
+				if (!this.continueOnFail()) throw nodeError;
+				returnData.push(errorItem(nodeError, items[i], i, fileName));
 			}
 		}
 
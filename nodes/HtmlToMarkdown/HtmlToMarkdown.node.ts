@@ -1,13 +1,39 @@
 import {
+	IBinaryKeyData,
 	IDataObject,
 	type IExecuteFunctions,
 	type INodeExecutionData,
 	type INodeType,
 	type INodeTypeDescription,
-	NodeOperationError,
 } from 'n8n-workflow';
 
-import { htmlToMarkdown, htmlToMarkdownSimple } from '../../lib/htmlToMarkdown';
+import { convertHtml, type HtmlConversionResult } from '../../lib/htmlToMarkdown';
+import { emailBodyHtml, parseEmail, type ParsedEmail } from '../../lib/emailMessage';
+import { toFrontMatter } from '../../lib/frontMatter';
+import { OUTPUT_FILE_TYPES, outputFileName, renderOutput, type OutputFormat } from '../../lib/outputFormats';
+import type { LinkRewriteRule } from '../../lib/linkRewriting';
+import type { MergedCellStrategy } from '../../lib/gfmTables';
+import type { MathHandling } from '../../lib/mathml';
+import { splitMarkdown } from '../../lib/markdownChunks';
+import {
+	chunkFields,
+	chunkFilename,
+	getSplitOptions,
+	splitOutputProperties,
+} from '../shared/SplitOutputDescription';
+import { getMarkdownStyle, markdownStyleProperty } from '../shared/MarkdownStyleDescription';
+import { mathHandlingProperty } from '../shared/MathDescription';
+import { outputFormatProperty } from '../shared/OutputFormatDescription';
+import { getTruncationOptions, truncationProperties } from '../shared/TruncationDescription';
+import { getTocOptions, tocProperties } from '../shared/TocDescription';
+import { errorItem, itemError, toItemError } from '../shared/ItemErrors';
+
+/**
+ * Splits a comma-separated parameter into trimmed, non-empty entries
+ */
+function splitList(value: string): string[] {
+	return value.split(',').map(entry => entry.trim()).filter(entry => entry);
+}
 
 export class HtmlToMarkdown implements INodeType {
 	description: INodeTypeDescription = {
@@ -28,6 +54,7 @@ export class HtmlToMarkdown implements INodeType {
 				options: [
 					{ name: 'Text (HTML String)', value: 'text' },
 					{ name: 'Binary (HTML File)', value: 'binary' },
+					{ name: 'Email (.eml File)', value: 'email' },
 				],
 				default: 'text',
 				description: 'How to provide the HTML content',
@@ -48,8 +75,57 @@ export class HtmlToMarkdown implements INodeType {
 				name: 'binaryPropertyName',
 				type: 'string',
 				default: 'data',
-				displayOptions: { show: { inputMode: ['binary'] } },
-				description: 'The name of the input binary property that contains the HTML file',
+				displayOptions: { show: { inputMode: ['binary', 'email'] } },
+				description: 'The name of the input binary property that contains the HTML or .eml file',
+			},
+			{
+				displayName: 'Email Headers',
+				name: 'emailHeaders',
+				type: 'options',
+				options: [
+					{ name: 'Both', value: 'both' },
+					{ name: 'Front Matter', value: 'frontMatter', description: 'Prepend them to the Markdown as YAML front matter' },
+					{ name: 'JSON Field', value: 'json', description: 'Add them as an "email" object to the JSON' },
+				],
+				default: 'json',
+				displayOptions: { show: { inputMode: ['email'] } },
+				description: 'Where to put From, To, Cc, Subject, Date and Message-ID',
+			},
+			{
+				displayName: 'Inline Images',
+				name: 'inlineImages',
+				type: 'options',
+				options: [
+					{ name: 'Embed', value: 'embed', description: 'Embed the images as data URIs' },
+					{ name: 'Link to Attachment', value: 'link', description: 'Link the images by the file name of their attachment' },
+				],
+				default: 'embed',
+				displayOptions: { show: { inputMode: ['email'] } },
+				description: 'How to resolve images the HTML body references by cid:',
+			},
+			{
+				displayName: 'Include Attachments',
+				name: 'includeAttachments',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { inputMode: ['email'] } },
+				description: 'Whether to output the attachments, inline images included, as binary properties (attachment_0, attachment_1, ...). The "attachments" list in the JSON is always added.',
+			},
+			{
+				displayName: 'Trim Quoted Replies',
+				name: 'trimQuotedReplies',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { inputMode: ['email'] } },
+				description: 'Whether to remove the quoted history of earlier messages, starting at "On … wrote:" lines, Outlook reply headers or "Original Message" separators',
+			},
+			{
+				displayName: 'Remove Signature',
+				name: 'removeSignature',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { inputMode: ['email'] } },
+				description: 'Whether to remove the signature marked by a "-- " line or by the mail client',
 			},
 			{
 				displayName: 'Conversion Mode',
@@ -62,6 +138,15 @@ export class HtmlToMarkdown implements INodeType {
 				default: 'default',
 				description: 'Choose between default settings or custom configuration',
 			},
+			{
+				displayName: 'Extract Main Content',
+				name: 'extractMainContent',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to convert only the main article of a web page, without navigation, banners, sidebars and footers, and add its title, byline, date, site name and excerpt as "article" to the JSON',
+			},
+			mathHandlingProperty,
 			{
 				displayName: 'Preserve Tables',
 				name: 'preserveTables',
@@ -70,6 +155,32 @@ export class HtmlToMarkdown implements INodeType {
 				displayOptions: { show: { conversionMode: ['custom'] } },
 				description: 'Whether to preserve table structure in the output',
 			},
+			{
+				displayName: 'Merged Cell Tables',
+				name: 'mergedCellStrategy',
+				type: 'options',
+				options: [
+					{
+						name: 'Flatten',
+						value: 'flatten',
+						description: 'Un-merge the cells and keep the content in the first cell',
+					},
+					{
+						name: 'Keep as HTML',
+						value: 'html',
+						description: 'Keep the table as raw HTML inside the Markdown',
+					},
+					{
+						name: 'Skip',
+						value: 'skip',
+						description: 'Drop the table from the output',
+					},
+				],
+				default: 'html',
+				displayOptions: { show: { conversionMode: ['custom'], preserveTables: [true] } },
+				description:
+					'How to handle tables with merged cells, which GitHub-Flavored Markdown tables cannot express',
+			},
 			{
 				displayName: 'Include Image Alt Text',
 				name: 'includeImageAlt',
@@ -86,21 +197,196 @@ export class HtmlToMarkdown implements INodeType {
 				displayOptions: { show: { conversionMode: ['custom'] } },
 				description: 'Whether to preserve line breaks from the original HTML',
 			},
+			...truncationProperties.map(property => ({
+				...property,
+				displayOptions: { show: { conversionMode: ['custom'] } },
+			})),
 			{
-				displayName: 'Max Length',
-				name: 'maxLength',
-				type: 'number',
-				default: 0,
+				displayName: 'Domain Filter',
+				name: 'domainFilter',
+				type: 'options',
+				options: [
+					{
+						name: 'Allowlist',
+						value: 'allowlist',
+						description: 'Keep only links and images on the listed domains',
+					},
+					{
+						name: 'Blocklist',
+						value: 'blocklist',
+						description: 'Remove links and images on the listed domains',
+					},
+				],
+				default: 'allowlist',
 				displayOptions: { show: { conversionMode: ['custom'] } },
-				description: 'Maximum length of output (0 = no limit)',
 			},
 			{
 				displayName: 'Allowed Domains',
 				name: 'allowedDomains',
 				type: 'string',
 				default: '',
+				placeholder: 'example.com, *.example.org',
+				displayOptions: { show: { conversionMode: ['custom'], domainFilter: ['allowlist'] } },
+				description: 'Comma-separated list of allowed domains for links and images, *.example.com matches its subdomains. Empty allows all domains.',
+			},
+			{
+				displayName: 'Blocked Domains',
+				name: 'blockedDomains',
+				type: 'string',
+				default: '',
+				placeholder: 'tracking.example.com, *.doubleclick.net',
+				displayOptions: { show: { conversionMode: ['custom'], domainFilter: ['blocklist'] } },
+				description: 'Comma-separated list of domains whose links and images are removed, *.example.com matches its subdomains',
+			},
+			{
+				displayName: 'Filtered Links and Images',
+				name: 'filteredElements',
+				type: 'options',
+				options: [
+					{
+						name: 'Drop',
+						value: 'drop',
+						description: 'Remove links together with their text, and images',
+					},
+					{
+						name: 'Keep Text',
+						value: 'keepText',
+						description: 'Keep the text of links and the alt text of images',
+					},
+				],
+				default: 'drop',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description: 'What is left of links and images removed by the domain filter',
+			},
+			{
+				displayName: 'Additional Allowed Tags',
+				name: 'additionalTags',
+				type: 'string',
+				default: '',
+				placeholder: 'sup, sub, u, dl, dt, dd',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description:
+					'Comma-separated tags to keep on top of the built-in list. Tags Markdown has no syntax for are kept as HTML.',
+			},
+			{
+				displayName: 'Additional Allowed Attributes',
+				name: 'additionalAttributes',
+				type: 'string',
+				default: '',
+				placeholder: 'a:rel, td:align, *:lang',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description:
+					'Comma-separated tag:attribute pairs to keep, * as the tag applies to every tag',
+			},
+			{
+				displayName: 'Remove Tags with Content',
+				name: 'removeTags',
+				type: 'string',
+				default: '',
+				placeholder: 'nav, footer, form',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description:
+					'Comma-separated tags to remove together with everything inside them (other unsupported tags only lose the tag itself)',
+			},
+			{
+				displayName: 'Remove Elements Matching',
+				name: 'removeSelectors',
+				type: 'string',
+				default: '',
+				placeholder: '.footer, nav, .unsubscribe',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description: 'CSS selectors of elements to remove before conversion',
+			},
+			{
+				displayName: 'Base URL',
+				name: 'baseUrl',
+				type: 'string',
+				default: '',
+				placeholder: 'https://example.com/blog/',
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description:
+					'URL to resolve relative links and images against. Leave empty to use the page\'s &lt;base href&gt;, if it has one.',
+			},
+			{
+				displayName: 'Link Rewrite Rules',
+				name: 'linkRewriteRules',
+				type: 'fixedCollection',
+				typeOptions: { multipleValues: true },
+				placeholder: 'Add Rule',
+				default: {},
+				displayOptions: { show: { conversionMode: ['custom'] } },
+				description: 'Changes applied to every link and image URL, in order',
+				options: [
+					{
+						displayName: 'Rule',
+						name: 'rules',
+						values: [
+							{
+								displayName: 'Action',
+								name: 'type',
+								type: 'options',
+								options: [
+									{
+										name: 'Remove Query Parameters',
+										value: 'removeParams',
+										description: 'Strip tracking parameters such as utm_source',
+									},
+									{
+										name: 'Replace (Regex)',
+										value: 'replace',
+										description: 'Replace matches of a regular expression in the URL',
+									},
+									{
+										name: 'Unwrap Redirects',
+										value: 'unwrapRedirects',
+										description:
+											'Replace redirector links (Outlook safe links, Google, Facebook, ...) by their target',
+									},
+								],
+								default: 'removeParams',
+							},
+							{
+								displayName: 'Parameters',
+								name: 'params',
+								type: 'string',
+								default: 'utm_*, fbclid, gclid, mc_cid, mc_eid',
+								displayOptions: { show: { type: ['removeParams'] } },
+								description: 'Comma-separated parameter names, * matches any ending',
+							},
+							{
+								displayName: 'Pattern',
+								name: 'pattern',
+								type: 'string',
+								default: '',
+								placeholder: '^https?://old\\.example\\.com',
+								displayOptions: { show: { type: ['replace'] } },
+								description: 'Regular expression matched against the whole URL',
+							},
+							{
+								displayName: 'Replacement',
+								name: 'replacement',
+								type: 'string',
+								default: '',
+								placeholder: 'https://new.example.com',
+								displayOptions: { show: { type: ['replace'] } },
+								description: 'Replacement text, $1 and so on insert capture groups',
+							},
+							{
+								displayName: 'Target Parameters',
+								name: 'redirectParams',
+								type: 'string',
+								default: 'url, u, q, target, destination, redirect',
+								displayOptions: { show: { type: ['unwrapRedirects'] } },
+								description:
+									'Comma-separated names of the parameters that may hold the target URL',
+							},
+						],
+					},
+				],
+			},
+			{
+				...markdownStyleProperty,
 				displayOptions: { show: { conversionMode: ['custom'] } },
-				description: 'Comma-separated list of allowed domains for links and images',
 			},
 			{
 				displayName: 'Output Mode',
@@ -112,6 +398,7 @@ export class HtmlToMarkdown implements INodeType {
 				],
 				default: 'json',
 			},
+			outputFormatProperty,
 			{
 				displayName: 'Markdown Field',
 				name: 'markdownField',
@@ -128,6 +415,16 @@ export class HtmlToMarkdown implements INodeType {
 				displayOptions: { show: { outputMode: ['json'] } },
 				description: 'Whether to also include original HTML in the JSON output',
 			},
+			{
+				displayName: 'Include Outline',
+				name: 'includeOutline',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to add a structured "outline" (block list with type, level, text and position, plus statistics) to the JSON output',
+			},
+			...tocProperties,
+			...splitOutputProperties,
 			{
 				displayName: 'Output Binary Property',
 				name: 'outputBinaryProperty',
@@ -151,127 +448,272 @@ export class HtmlToMarkdown implements INodeType {
 		const returnData: INodeExecutionData[] = [];
 
 		for (let i = 0; i < items.length; i++) {
-			const inputMode = this.getNodeParameter('inputMode', i) as 'text' | 'binary';
-			const conversionMode = this.getNodeParameter('conversionMode', i) as 'custom' | 'default';
-			const outputMode = this.getNodeParameter('outputMode', i) as 'json' | 'binary';
+			let sourceFileName: string | undefined;
+			try {
+				const inputMode = this.getNodeParameter('inputMode', i) as 'text' | 'binary' | 'email';
+				const conversionMode = this.getNodeParameter('conversionMode', i) as 'custom' | 'default';
+				const outputMode = this.getNodeParameter('outputMode', i) as 'json' | 'binary';
+				const outputFormat = this.getNodeParameter('outputFormat', i, 'markdown') as OutputFormat;
 
-			// Only get parameters that are available based on output mode
-			let markdownField: string | undefined;
-			let includeHtml: boolean | undefined;
-			let outputBinaryProperty: string | undefined;
-			let outputFilename: string | undefined;
+				// Only get parameters that are available based on output mode
+				let markdownField: string | undefined;
+				let includeHtml: boolean | undefined;
+				let outputBinaryProperty: string | undefined;
+				let outputFilename: string | undefined;
 
-			if (outputMode === 'json') {
-				markdownField = this.getNodeParameter('markdownField', i) as string;
-				includeHtml = this.getNodeParameter('includeHtml', i) as boolean;
-			} else {
-				outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
-				outputFilename = this.getNodeParameter('outputFilename', i) as string;
-			}
+				if (outputMode === 'json') {
+					markdownField = this.getNodeParameter('markdownField', i) as string;
+					includeHtml = this.getNodeParameter('includeHtml', i) as boolean;
+				} else {
+					outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
+					outputFilename = this.getNodeParameter('outputFilename', i) as string;
+				}
 
-			const item = items[i];
-			let htmlContent: string;
-			let originalHtml: string;
+				const item = items[i];
+				let htmlContent: string;
+				let originalHtml: string;
+				let email: ParsedEmail | undefined;
 
-			// Get HTML content based on input mode
-			if (inputMode === 'text') {
-				htmlContent = this.getNodeParameter('htmlText', i) as string;
-				originalHtml = htmlContent;
-			} else {
-				// Binary mode
-				const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+				// Get HTML content based on input mode
+				if (inputMode === 'text') {
+					htmlContent = this.getNodeParameter('htmlText', i) as string;
+					originalHtml = htmlContent;
+				} else {
+					// Binary mode, an HTML file or an .eml message
+					const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
 
-				if (!item.binary || !item.binary[binaryPropertyName]) {
-					throw new NodeOperationError(
+					if (!item.binary || !item.binary[binaryPropertyName]) {
+						throw itemError(
+							this.getNode(),
+							i,
+							'BINARY_PROPERTY_NOT_FOUND',
+							`Binary property "${binaryPropertyName}" not found`,
+						);
+					}
+
+					const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+					sourceFileName = item.binary[binaryPropertyName].fileName;
+					if (inputMode === 'email') {
+						email = parseEmail(buffer);
+						htmlContent = emailBodyHtml(email, {
+							trimQuotedReplies: this.getNodeParameter('trimQuotedReplies', i, false) as boolean,
+							removeSignature: this.getNodeParameter('removeSignature', i, false) as boolean,
+							inlineImages: this.getNodeParameter('inlineImages', i, 'embed') as 'embed' | 'link',
+						}) ?? '';
+					} else {
+						htmlContent = buffer.toString('utf-8');
+					}
+					originalHtml = htmlContent;
+				}
+
+				// Validate HTML content
+				if (!htmlContent || htmlContent.trim() === '') {
+					throw itemError(
 						this.getNode(),
-						`Item ${i}: Binary property "${binaryPropertyName}" not found`,
-						{ itemIndex: i },
+						i,
+						'NO_HTML_CONTENT',
+						email ? 'The email has no HTML or text body' : 'No HTML content provided',
 					);
 				}
 
-				const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
-				htmlContent = buffer.toString('utf-8');
-				originalHtml = htmlContent;
-			}
+				// Convert HTML to Markdown based on conversion mode
+				let result: HtmlConversionResult;
 
-			// Validate HTML content
-			if (!htmlContent || htmlContent.trim() === '') {
-				throw new NodeOperationError(
-					this.getNode(),
-					`Item ${i}: No HTML content provided`,
-					{ itemIndex: i },
-				);
-			}
+				const toc = getTocOptions(this, i);
+				const includeOutline = this.getNodeParameter('includeOutline', i, false) as boolean;
+				const extractMainContent = this.getNodeParameter('extractMainContent', i, false) as boolean;
+				const mathHandling = this.getNodeParameter('mathHandling', i, 'latex') as MathHandling;
 
-			// Convert HTML to Markdown based on conversion mode
-			let markdown: string;
-			let warnings: string[] = [];
+				try {
+					if (conversionMode === 'default') {
+						// Use default settings, only the structural output options apply
+						result = convertHtml(htmlContent, { toc, includeOutline, extractMainContent, mathHandling });
+					} else {
+						// Custom mode - get additional options
+						const preserveTables = this.getNodeParameter('preserveTables', i) as boolean;
+						const mergedCellStrategy = preserveTables
+							? (this.getNodeParameter('mergedCellStrategy', i, 'html') as MergedCellStrategy)
+							: undefined;
+						const includeImageAlt = this.getNodeParameter('includeImageAlt', i) as boolean;
+						const preserveLineBreaks = this.getNodeParameter('preserveLineBreaks', i) as boolean;
+						const truncation = getTruncationOptions(this, i);
+						const domainFilter = this.getNodeParameter('domainFilter', i, 'allowlist') as string;
+						const allowedDomains = domainFilter === 'allowlist'
+							? splitList(this.getNodeParameter('allowedDomains', i, '') as string)
+							: [];
+						const blockedDomains = domainFilter === 'blocklist'
+							? splitList(this.getNodeParameter('blockedDomains', i, '') as string)
+							: [];
 
-			try {
-				if (conversionMode === 'default') {
-					// Use default settings with htmlToMarkdownSimple
-					markdown = htmlToMarkdownSimple(htmlContent);
-				} else {
-					// Custom mode - get additional options
-					const preserveTables = this.getNodeParameter('preserveTables', i) as boolean;
-					const includeImageAlt = this.getNodeParameter('includeImageAlt', i) as boolean;
-					const preserveLineBreaks = this.getNodeParameter('preserveLineBreaks', i) as boolean;
-					const maxLength = this.getNodeParameter('maxLength', i) as number;
-					const allowedDomainsStr = this.getNodeParameter('allowedDomains', i) as string;
+						const linkRewriteRules = (
+							this.getNodeParameter('linkRewriteRules.rules', i, []) as IDataObject[]
+						).map((rule): LinkRewriteRule => {
+							if (rule.type === 'replace') {
+								return {
+									type: 'replace',
+									pattern: rule.pattern as string,
+									replacement: rule.replacement as string,
+								};
+							}
+							if (rule.type === 'unwrapRedirects') {
+								return { type: 'unwrapRedirects', params: splitList(rule.redirectParams as string) };
+							}
+							return { type: 'removeParams', params: splitList(rule.params as string) };
+						});
 
-					const allowedDomains = allowedDomainsStr
-						? allowedDomainsStr.split(',').map(domain => domain.trim()).filter(domain => domain)
-						: [];
+						// tag:attribute pairs grouped by tag
+						const additionalAttributes: Record<string, string[]> = {};
+						for (const pair of splitList(this.getNodeParameter('additionalAttributes', i, '') as string)) {
+							const [tag, attribute] = pair.split(':').map(part => part.trim());
+							if (!tag || !attribute) continue;
+							(additionalAttributes[tag.toLowerCase()] ??= []).push(attribute);
+						}
 
-					markdown = htmlToMarkdown(htmlContent, {
-						preserveTables,
-						includeImageAlt,
-						preserveLineBreaks,
-						maxLength: maxLength > 0 ? maxLength : undefined,
-						allowedDomains: allowedDomains.length > 0 ? allowedDomains : undefined,
-					});
+						result = convertHtml(htmlContent, {
+							preserveTables,
+							mergedCellStrategy,
+							includeImageAlt,
+							preserveLineBreaks,
+							maxLength: truncation.maxSize > 0 ? truncation.maxSize : undefined,
+							truncationUnit: truncation.unit,
+							truncationStrategy: truncation.strategy,
+							allowedDomains: allowedDomains.length > 0 ? allowedDomains : undefined,
+							blockedDomains: blockedDomains.length > 0 ? blockedDomains : undefined,
+							filteredElements: this.getNodeParameter('filteredElements', i, 'drop') as 'drop' | 'keepText',
+							toc,
+							includeOutline,
+							extractMainContent,
+							mathHandling,
+							markdownStyle: getMarkdownStyle(this, i),
+							additionalTags: splitList(this.getNodeParameter('additionalTags', i, '') as string).map(tag => tag.toLowerCase()),
+							additionalAttributes,
+							removeTags: splitList(this.getNodeParameter('removeTags', i, '') as string).map(tag => tag.toLowerCase()),
+							removeSelectors: this.getNodeParameter('removeSelectors', i, '') as string,
+							baseUrl: this.getNodeParameter('baseUrl', i, '') as string,
+							linkRewriteRules,
+						});
+					}
+				} catch (error) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'CONVERSION_FAILED',
+						`Failed to convert HTML to Markdown: ${error instanceof Error ? error.message : String(error)}`,
+					);
 				}
-			} catch (error) {
-				throw new NodeOperationError(
-					this.getNode(),
-					`Item ${i}: Failed to convert HTML to Markdown: ${error instanceof Error ? error.message : String(error)}`,
-					{ itemIndex: i },
-				);
-			}
 
-			// Prepare output based on output mode
-			if (outputMode === 'json') {
-				const json: IDataObject = {
-					...item.json,
-					[markdownField!]: markdown,
-					warnings,
-				};
-				if (includeHtml) {
-					(json as IDataObject).html = originalHtml;
+				const { html, outline, report, warnings, article } = result;
+				let { markdown } = result;
+
+				// Email headers and the attachment list, in both output modes
+				const emailFields: IDataObject = {};
+				const attachmentBinaries: IBinaryKeyData = {};
+				if (email) {
+					const emailHeaders = this.getNodeParameter('emailHeaders', i, 'json') as string;
+					if (emailHeaders !== 'json') {
+						markdown = toFrontMatter({ ...email.headers }) + markdown;
+					}
+					if (emailHeaders !== 'frontMatter') {
+						emailFields.email = { ...email.headers };
+					}
+					emailFields.attachments = email.attachments.map(
+						({ name, fileName, contentType, size, contentId, inline }) => ({ name, fileName, contentType, size, contentId, inline }),
+					);
+
+					if (this.getNodeParameter('includeAttachments', i, false) as boolean) {
+						for (const attachment of email.attachments) {
+							attachmentBinaries[attachment.name] = await this.helpers.prepareBinaryData(
+								attachment.data,
+								attachment.fileName,
+								attachment.contentType,
+							);
+						}
+					}
 				}
 
-				returnData.push({ json });
-			} else {
-				// Output binary .md file
-				const mdBuffer = Buffer.from(markdown, 'utf-8');
-				const binary = await this.helpers.prepareBinaryData(
-					mdBuffer,
-					outputFilename || 'document.md',
-					'text/markdown',
-				);
+				// The clean HTML is the HTML output only while the Markdown is its plain conversion
+				const markdownChanged = report.truncated || toc.generate;
 
-				// Keep metadata (warnings) in JSON as well
-				const json: IDataObject = {
-					...item.json,
-					warnings,
-				};
+				const splitOptions = getSplitOptions(this, i);
+				const chunks = splitOptions ? splitMarkdown(markdown, splitOptions) : undefined;
 
-				returnData.push({
-					json,
-					binary: {
-						[outputBinaryProperty!]: binary,
-					},
-				});
+				for (const chunk of chunks ?? [undefined]) {
+					const content = chunk ? chunk.text : markdown;
+					const output = renderOutput(outputFormat, content, chunk || markdownChanged ? undefined : html);
+					const chunkInfo: IDataObject = chunk ? { chunk: chunkFields(chunk, sourceFileName) } : {};
+
+					// When splitting, inline images go with the chunk linking them, other attachments with the first chunk
+					const binaries: IBinaryKeyData = {};
+					for (const attachment of email?.attachments ?? []) {
+						const inChunk = !chunk || (attachment.inline ? content.includes(attachment.fileName) : chunk.index === 0);
+						if (attachmentBinaries[attachment.name] && inChunk) {
+							binaries[attachment.name] = attachmentBinaries[attachment.name];
+						}
+					}
+
+					// Prepare output based on output mode
+					if (outputMode === 'json') {
+						const json: IDataObject = {
+							...item.json,
+							[markdownField!]: output,
+							...chunkInfo,
+							warnings,
+							report,
+							...emailFields,
+						};
+						if (outline) {
+							json.outline = outline;
+						}
+						if (article) {
+							json.article = article;
+						}
+						if (includeHtml) {
+							(json as IDataObject).html = originalHtml;
+						}
+
+						if (Object.keys(binaries).length > 0) {
+							returnData.push({ json, binary: binaries });
+						} else {
+							returnData.push({ json });
+						}
+					} else {
+						// Output binary .md file
+						const mdBuffer = Buffer.from(output, 'utf-8');
+						const fileName = outputFilename || 'document.md';
+						const binary = await this.helpers.prepareBinaryData(
+							mdBuffer,
+							outputFileName(chunk ? chunkFilename(fileName, chunk) : fileName, outputFormat),
+							OUTPUT_FILE_TYPES[outputFormat].mimeType,
+						);
+
+						// Keep metadata (warnings) in JSON as well
+						const json: IDataObject = {
+							...item.json,
+							...chunkInfo,
+							warnings,
+							report,
+							...emailFields,
+						};
+						if (outline) {
+							json.outline = outline;
+						}
+						if (article) {
+							json.article = article;
+						}
+
+						returnData.push({
+							json,
+							binary: {
+								...binaries,
+								[outputBinaryProperty!]: binary,
+							},
+						});
+					}
+				}
+			} catch (error) {
+				const nodeError = toItemError(this.getNode(), i, error);
+				if (!this.continueOnFail()) throw nodeError;
+				returnData.push(errorItem(nodeError, items[i], i, sourceFileName));
 			}
 		}
 
@@ -0,0 +1,232 @@
+import {
+	IDataObject,
+	type IExecuteFunctions,
+	type INodeExecutionData,
+	type INodeType,
+	type INodeTypeDescription,
+} from 'n8n-workflow';
+
+import { markdownToDocx, readTemplateStyles, type ResolvedImage } from '../../lib/markdownToDocx';
+import { errorItem, itemError, toItemError } from '../shared/ItemErrors';
+
+export class MarkdownToDocx implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Markdown → DOCX',
+		name: 'markdownToDocx',
+		icon: 'file:markdown.svg',
+		group: ['transform'],
+		version: 1,
+		description: 'Convert Markdown to a .docx document',
+		defaults: { name: 'Markdown → DOCX' },
+		inputs: ['main'],
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Input Mode',
+				name: 'inputMode',
+				type: 'options',
+				options: [
+					{ name: 'JSON (Markdown in Field)', value: 'json' },
+					{ name: 'Binary (.md File)', value: 'binary' },
+				],
+				default: 'json',
+				description: 'How to provide the Markdown content',
+			},
+			{
+				displayName: 'Markdown Field',
+				name: 'markdownField',
+				type: 'string',
+				default: 'markdown',
+				displayOptions: { show: { inputMode: ['json'] } },
+				description: 'Name of the JSON field that contains the Markdown',
+			},
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				displayOptions: { show: { inputMode: ['binary'] } },
+				description: 'The name of the input binary property that contains the .md file',
+			},
+			{
+				displayName: 'Use Template',
+				name: 'useTemplate',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to reuse the styles of a template .docx from the input item',
+			},
+			{
+				displayName: 'Template Binary Property',
+				name: 'templateBinaryProperty',
+				type: 'string',
+				default: 'template',
+				displayOptions: { show: { useTemplate: [true] } },
+				description: 'The name of the input binary property that contains the template .docx',
+			},
+			{
+				displayName: 'Max Image Width',
+				name: 'maxImageWidth',
+				type: 'number',
+				default: 600,
+				description: 'Images wider than this (in pixels) are scaled down',
+			},
+			{
+				displayName: 'Output Binary Property',
+				name: 'outputBinaryProperty',
+				type: 'string',
+				default: 'data',
+				description: 'The binary property to write the .docx into',
+			},
+			{
+				displayName: 'Output Filename',
+				name: 'outputFilename',
+				type: 'string',
+				default: 'document.docx',
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		for (let i = 0; i < items.length; i++) {
+			let sourceFileName: string | undefined;
+			try {
+				const inputMode = this.getNodeParameter('inputMode', i) as 'json' | 'binary';
+				const useTemplate = this.getNodeParameter('useTemplate', i) as boolean;
+				const maxImageWidth = this.getNodeParameter('maxImageWidth', i) as number;
+				const outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
+				const outputFilename = this.getNodeParameter('outputFilename', i) as string;
+
+				const item = items[i];
+				let markdown: string;
+
+				if (inputMode === 'json') {
+					const markdownField = this.getNodeParameter('markdownField', i) as string;
+					const value = item.json[markdownField];
+
+					if (typeof value !== 'string') {
+						throw itemError(
+							this.getNode(),
+							i,
+							'NO_MARKDOWN_CONTENT',
+							`Field "${markdownField}" does not contain Markdown text`,
+						);
+					}
+					markdown = value;
+				} else {
+					const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+
+					if (!item.binary || !item.binary[binaryPropertyName]) {
+						throw itemError(
+							this.getNode(),
+							i,
+							'BINARY_PROPERTY_NOT_FOUND',
+							`Binary property "${binaryPropertyName}" not found`,
+						);
+					}
+
+					const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+					sourceFileName = item.binary[binaryPropertyName].fileName;
+					markdown = buffer.toString('utf-8');
+				}
+
+				let templateStyles: string | undefined;
+				if (useTemplate) {
+					const templateBinaryProperty = this.getNodeParameter(
+						'templateBinaryProperty',
+						i,
+					) as string;
+
+					if (!item.binary || !item.binary[templateBinaryProperty]) {
+						throw itemError(
+							this.getNode(),
+							i,
+							'BINARY_PROPERTY_NOT_FOUND',
+							`Template binary property "${templateBinaryProperty}" not found`,
+						);
+					}
+
+					const templateBuffer = await this.helpers.getBinaryDataBuffer(i, templateBinaryProperty);
+					try {
+						templateStyles = await readTemplateStyles(templateBuffer);
+					} catch (error) {
+						throw itemError(
+							this.getNode(),
+							i,
+							'INVALID_TEMPLATE',
+							`Template is not a valid .docx file: ${error instanceof Error ? error.message : String(error)}`,
+						);
+					}
+				}
+
+				// Non data-URI images are looked up among the item's binaries, either by
+				// property name (image_0) or by file name (images/image_0.png)
+				const resolveImage = async (src: string): Promise<ResolvedImage | undefined> => {
+					if (!item.binary) return undefined;
+					const path = src.split(/[?#]/)[0];
+					let decodedPath = path;
+					try {
+						decodedPath = decodeURIComponent(path);
+					} catch {
+						// A literal % (50%.png) is not an escape, the path is used as written
+					}
+					const baseName = decodedPath.split('/').pop() ?? '';
+					const propertyName = Object.keys(item.binary).find((key) => {
+						const binary = item.binary![key];
+						return (
+							key === src ||
+							key === baseName ||
+							key === baseName.replace(/\.[^.]+$/, '') ||
+							binary.fileName === baseName
+						);
+					});
+					if (!propertyName) return undefined;
+
+					return {
+						data: await this.helpers.getBinaryDataBuffer(i, propertyName),
+						contentType: item.binary[propertyName].mimeType,
+					};
+				};
+
+				let result;
+				try {
+					result = await markdownToDocx(markdown, { templateStyles, resolveImage, maxImageWidth });
+				} catch (error) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'CONVERSION_FAILED',
+						`Failed to convert Markdown to DOCX: ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+
+				const binary = await this.helpers.prepareBinaryData(
+					result.buffer,
+					outputFilename || 'document.docx',
+					'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+				);
+
+				// keep metadata (warnings) in JSON as well
+				const json: IDataObject = {
+					...item.json,
+					warnings: result.warnings,
+				};
+
+				returnData.push({
+					json,
+					binary: {
+						[outputBinaryProperty]: binary,
+					},
+				});
+			} catch (error) {
+				const nodeError = toItemError(this.getNode(), i, error);
+				if (!this.continueOnFail()) throw nodeError;
+				returnData.push(errorItem(nodeError, items[i], i, sourceFileName));
+			}
+		}
+
+		return [returnData];
+	}
+}
@@ -0,0 +1,289 @@
+import {
+	IDataObject,
+	type IExecuteFunctions,
+	type INodeExecutionData,
+	type INodeType,
+	type INodeTypeDescription,
+} from 'n8n-workflow';
+
+import TurndownService from 'turndown';
+
+import { DocxValidationError, validatePackageLimits } from '../../lib/docxValidation';
+import { addGfmTableRules } from '../../lib/gfmTables';
+import { addListRules } from '../../lib/markdownLists';
+import { addMathRule } from '../../lib/mathml';
+import { splitMarkdown } from '../../lib/markdownChunks';
+import {
+	detectOfficeFormat,
+	isLegacyOfficeFile,
+	officeToHtml,
+	type OfficeFormat,
+} from '../../lib/officeFormats';
+import {
+	chunkFields,
+	chunkFilename,
+	getSplitOptions,
+	splitOutputProperties,
+} from '../shared/SplitOutputDescription';
+import { errorItem, itemError, toItemError } from '../shared/ItemErrors';
+
+export class OfficeToMarkdown implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: 'Office → Markdown',
+		name: 'officeToMarkdown',
+		icon: 'file:office.svg',
+		group: ['transform'],
+		version: 1,
+		description:
+			'Convert DOCX, ODT, RTF, PPTX and XLSX documents to Markdown (legacy .doc, .xls and .ppt files are not supported)',
+		defaults: { name: 'Office → Markdown' },
+		inputs: ['main'],
+		outputs: ['main'],
+		properties: [
+			{
+				displayName: 'Binary Property',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				description: 'The name of the input binary property that contains the document',
+			},
+			{
+				displayName: 'Input Format',
+				name: 'inputFormat',
+				type: 'options',
+				options: [
+					{
+						name: 'Auto-Detect',
+						value: 'auto',
+						description: 'Detect the format from the file content',
+					},
+					{ name: 'Excel (.xlsx)', value: 'xlsx' },
+					{ name: 'OpenDocument Text (.odt)', value: 'odt' },
+					{ name: 'PowerPoint (.pptx)', value: 'pptx' },
+					{ name: 'Rich Text (.rtf)', value: 'rtf' },
+					{ name: 'Word (.docx)', value: 'docx' },
+				],
+				default: 'auto',
+				description: 'Format of the input document',
+			},
+			{
+				displayName: 'Output Mode',
+				name: 'outputMode',
+				type: 'options',
+				options: [
+					{ name: 'JSON (Markdown in Field)', value: 'json' },
+					{ name: 'Binary (.md File)', value: 'binary' },
+				],
+				default: 'json',
+			},
+			{
+				displayName: 'Markdown Field',
+				name: 'markdownField',
+				type: 'string',
+				default: 'markdown',
+				displayOptions: { show: { outputMode: ['json'] } },
+				description: 'Name of the JSON field to store Markdown',
+			},
+			{
+				displayName: 'Include Images',
+				name: 'includeImages',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to embed images as base64 data URIs instead of dropping them',
+			},
+			{
+				displayName: 'Include Speaker Notes',
+				name: 'includeSpeakerNotes',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to add the speaker notes below each slide (PowerPoint only)',
+			},
+			{
+				displayName: 'First Row as Header',
+				name: 'firstRowAsHeader',
+				type: 'boolean',
+				default: true,
+				description: 'Whether to use the first row of each sheet as the table header (Excel only)',
+			},
+			{
+				displayName: 'Max File Size (MB)',
+				name: 'maxFileSize',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 50,
+				description: 'Reject larger files with a FILE_TOO_LARGE error code (0 = no limit)',
+			},
+			{
+				displayName: 'Max Uncompressed Size (MB)',
+				name: 'maxUncompressedSize',
+				type: 'number',
+				typeOptions: { minValue: 0 },
+				default: 500,
+				description:
+					'Reject DOCX, ODT, PPTX and XLSX files that unpack to more than this, e.g. zip bombs, with an UNCOMPRESSED_TOO_LARGE error code (0 = no limit)',
+			},
+			...splitOutputProperties,
+			{
+				displayName: 'Output Binary Property',
+				name: 'outputBinaryProperty',
+				type: 'string',
+				default: 'data',
+				displayOptions: { show: { outputMode: ['binary'] } },
+				description: 'The binary property to write the .md into',
+			},
+			{
+				displayName: 'Output Filename',
+				name: 'outputFilename',
+				type: 'string',
+				default: 'document.md',
+				displayOptions: { show: { outputMode: ['binary'] } },
+			},
+		],
+	};
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+		const returnData: INodeExecutionData[] = [];
+
+		for (let i = 0; i < items.length; i++) {
+			let sourceFileName: string | undefined;
+			try {
+				const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+				const inputFormat = this.getNodeParameter('inputFormat', i, 'auto') as
+					| OfficeFormat
+					| 'auto';
+				const outputMode = this.getNodeParameter('outputMode', i) as 'json' | 'binary';
+				const includeImages = this.getNodeParameter('includeImages', i, false) as boolean;
+				const includeSpeakerNotes = this.getNodeParameter(
+					'includeSpeakerNotes',
+					i,
+					true,
+				) as boolean;
+				const firstRowAsHeader = this.getNodeParameter('firstRowAsHeader', i, true) as boolean;
+
+				const item = items[i];
+
+				if (!item.binary || !item.binary[binaryPropertyName]) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'BINARY_PROPERTY_NOT_FOUND',
+						`Binary property "${binaryPropertyName}" not found`,
+					);
+				}
+
+				const inputBinary = item.binary[binaryPropertyName];
+				sourceFileName = inputBinary.fileName;
+				const buffer = await this.helpers.getBinaryDataBuffer(i, binaryPropertyName);
+
+				// Size limits and the zip bomb check run before any ZIP library opens the file
+				try {
+					await validatePackageLimits(buffer, {
+						maxFileSize: (this.getNodeParameter('maxFileSize', i, 50) as number) * 1024 * 1024,
+						maxUncompressedSize:
+							(this.getNodeParameter('maxUncompressedSize', i, 500) as number) * 1024 * 1024,
+					});
+				} catch (error) {
+					if (!(error instanceof DocxValidationError)) throw error;
+					throw itemError(this.getNode(), i, error.code, error.message, error.hint);
+				}
+
+				if (isLegacyOfficeFile(buffer)) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'LEGACY_DOC',
+						'Legacy binary Office files (.doc, .xls, .ppt) are not supported. Save the document in a newer format (.docx, .xlsx, .pptx) first.',
+					);
+				}
+
+				const format = inputFormat === 'auto' ? await detectOfficeFormat(buffer) : inputFormat;
+				if (!format) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'UNSUPPORTED_FORMAT',
+						`Unrecognised document format (name="${inputBinary.fileName ?? 'unknown'}"). Supported formats are DOCX, ODT, RTF, PPTX and XLSX.`,
+					);
+				}
+
+				let result;
+				try {
+					result = await officeToHtml(buffer, format, {
+						includeImages,
+						includeSpeakerNotes,
+						firstRowAsHeader,
+					});
+				} catch (error) {
+					throw itemError(
+						this.getNode(),
+						i,
+						'CONVERSION_FAILED',
+						`Failed to convert the ${format.toUpperCase()} document: ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+
+				// HTML -> Markdown (turndown)
+				const td = new TurndownService({
+					headingStyle: 'atx',
+					bulletListMarker: '-',
+					codeBlockStyle: 'fenced',
+					emDelimiter: '_',
+				});
+				addGfmTableRules(td, { mergedCellStrategy: 'html' });
+				addListRules(td);
+				addMathRule(td, 'latex');
+				td.addRule('lineBreaks', {
+					filter: ['br'],
+					replacement: () => '  \n',
+				});
+
+				const markdown = td.turndown(result.html);
+				const warnings = result.warnings;
+
+				const splitOptions = getSplitOptions(this, i);
+				const chunks = splitOptions ? splitMarkdown(markdown, splitOptions) : undefined;
+
+				for (const chunk of chunks ?? [undefined]) {
+					const content = chunk ? chunk.text : markdown;
+					const chunkInfo: IDataObject = chunk
+						? { chunk: chunkFields(chunk, inputBinary.fileName) }
+						: {};
+
+					if (outputMode === 'json') {
+						const markdownField = this.getNodeParameter('markdownField', i) as string;
+						returnData.push({
+							json: {
+								...item.json,
+								[markdownField]: content,
+								...chunkInfo,
+								format,
+								warnings,
+							},
+						});
+					} else {
+						const outputBinaryProperty = this.getNodeParameter('outputBinaryProperty', i) as string;
+						const fileName =
+							(this.getNodeParameter('outputFilename', i) as string) || 'document.md';
+						const binary = await this.helpers.prepareBinaryData(
+							Buffer.from(content, 'utf-8'),
+							chunk ? chunkFilename(fileName, chunk) : fileName,
+							'text/markdown',
+						);
+
+						returnData.push({
+							json: { ...item.json, ...chunkInfo, format, warnings },
+							binary: { [outputBinaryProperty]: binary },
+						});
+					}
+				}
+			} catch (error) {
+				const nodeError = toItemError(this.getNode(), i, error);
+				if (!this.continueOnFail()) throw nodeError;
+				returnData.push(errorItem(nodeError, items[i], i, sourceFileName));
+			}
+		}
+
+		return [returnData];
+	}
+}
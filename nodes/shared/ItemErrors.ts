@@ -0,0 +1,71 @@
+import { type INode, type INodeExecutionData, NodeOperationError } from 'n8n-workflow';
+
+import type { DocxErrorCode } from '../../lib/docxValidation';
+
+/**
+ * Machine-readable reasons an item failed, reported as `error.code`
+ */
+export type ItemErrorCode =
+	| DocxErrorCode
+	| 'BINARY_PROPERTY_NOT_FOUND'
+	| 'NO_HTML_CONTENT'
+	| 'NO_MARKDOWN_CONTENT'
+	| 'INVALID_TEMPLATE'
+	| 'CONVERSION_FAILED';
+
+/**
+ * NodeOperationError for one item, carrying its error code
+ */
+export function itemError(
+	node: INode,
+	itemIndex: number,
+	code: ItemErrorCode,
+	message: string,
+	description?: string,
+): NodeOperationError {
+	const error = new NodeOperationError(node, `Item ${itemIndex}: ${message}`, {
+		itemIndex,
+		description,
+	});
+	error.context.code = code;
+	return error;
+}
+
+/**
+ * Unexpected errors (thrown by a library) become CONVERSION_FAILED item errors
+ */
+export function toItemError(node: INode, itemIndex: number, error: unknown): NodeOperationError {
+	if (error instanceof NodeOperationError) return error;
+	return itemError(
+		node,
+		itemIndex,
+		'CONVERSION_FAILED',
+		`Conversion failed: ${error instanceof Error ? error.message : String(error)}`,
+	);
+}
+
+/**
+ * Item emitted in place of a failed one when the node continues on fail. With
+ * "On Error" set to "Continue (using error output)", n8n routes items that
+ * have an `error` field to the node's error output.
+ */
+export function errorItem(
+	error: NodeOperationError,
+	item: INodeExecutionData,
+	itemIndex: number,
+	fileName?: string,
+): INodeExecutionData {
+	return {
+		json: {
+			...item.json,
+			error: {
+				message: error.message,
+				description: error.description ?? undefined,
+				code: (error.context.code as ItemErrorCode | undefined) ?? 'CONVERSION_FAILED',
+				itemIndex,
+				fileName,
+			},
+		},
+		pairedItem: { item: itemIndex },
+	};
+}
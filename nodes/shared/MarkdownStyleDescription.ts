@@ -0,0 +1,125 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import type { MarkdownStyle } from '../../lib/markdownStyle';
+
+/**
+ * Markdown syntax options shared by the Markdown-producing nodes. Options
+ * that are not added keep the node's defaults.
+ */
+export const markdownStyleProperty: INodeProperties = {
+	displayName: 'Markdown Style',
+	name: 'markdownStyle',
+	type: 'collection',
+	placeholder: 'Add Option',
+	default: {},
+	options: [
+		{
+			displayName: 'Bullet List Marker',
+			name: 'bulletListMarker',
+			type: 'options',
+			options: [
+				{ name: 'Asterisk', value: '*' },
+				{ name: 'Hyphen', value: '-' },
+				{ name: 'Plus', value: '+' },
+			],
+			default: '-',
+		},
+		{
+			displayName: 'Code Block Fence',
+			name: 'fence',
+			type: 'options',
+			options: [
+				{ name: 'Backticks (```)', value: '```' },
+				{ name: 'Tildes (~~~)', value: '~~~' },
+			],
+			default: '```',
+			description: 'Fence used for fenced code blocks',
+		},
+		{
+			displayName: 'Code Block Style',
+			name: 'codeBlockStyle',
+			type: 'options',
+			options: [
+				{ name: 'Fenced', value: 'fenced' },
+				{ name: 'Indented', value: 'indented' },
+			],
+			default: 'fenced',
+		},
+		{
+			displayName: 'Emphasis Delimiter',
+			name: 'emDelimiter',
+			type: 'options',
+			options: [
+				{ name: 'Asterisk', value: '*' },
+				{ name: 'Underscore', value: '_' },
+			],
+			default: '_',
+		},
+		{
+			displayName: 'Heading Style',
+			name: 'headingStyle',
+			type: 'options',
+			options: [
+				{ name: 'ATX (# Heading)', value: 'atx' },
+				{
+					name: 'Setext (Underlined)',
+					value: 'setext',
+					description: 'Underline H1 and H2 with === and ---, deeper headings stay ATX',
+				},
+			],
+			default: 'atx',
+		},
+		{
+			displayName: 'Link Style',
+			name: 'linkStyle',
+			type: 'options',
+			options: [
+				{ name: 'Inline', value: 'inlined', description: '[text](https://example.com)' },
+				{
+					name: 'Reference (Collapsed)',
+					value: 'collapsed',
+					description: '[text][] with [text]: https://example.com at the end',
+				},
+				{
+					name: 'Reference (Numbered)',
+					value: 'full',
+					description: '[text][1] with [1]: https://example.com at the end',
+				},
+				{
+					name: 'Reference (Shortcut)',
+					value: 'shortcut',
+					description: '[text] with [text]: https://example.com at the end',
+				},
+			],
+			default: 'inlined',
+		},
+		{
+			displayName: 'Strong Delimiter',
+			name: 'strongDelimiter',
+			type: 'options',
+			options: [
+				{ name: 'Double Asterisk', value: '**' },
+				{ name: 'Double Underscore', value: '__' },
+			],
+			default: '**',
+		},
+	],
+};
+
+export function getMarkdownStyle(context: IExecuteFunctions, itemIndex: number): MarkdownStyle {
+	const { linkStyle, ...options } = context.getNodeParameter(
+		'markdownStyle',
+		itemIndex,
+		{},
+	) as IDataObject;
+	const style = options as MarkdownStyle;
+
+	// "Link Style" folds Turndown's linkStyle and linkReferenceStyle into one option
+	if (linkStyle === 'inlined') {
+		style.linkStyle = 'inlined';
+	} else if (linkStyle) {
+		style.linkStyle = 'referenced';
+		style.linkReferenceStyle = linkStyle as MarkdownStyle['linkReferenceStyle'];
+	}
+	return style;
+}
@@ -0,0 +1,29 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Math output shared by the Markdown-producing nodes
+ */
+export const mathHandlingProperty: INodeProperties = {
+	displayName: 'Math',
+	name: 'mathHandling',
+	type: 'options',
+	options: [
+		{
+			name: 'Keep as MathML',
+			value: 'mathml',
+			description: 'Keep the MathML markup as HTML inside the Markdown',
+		},
+		{
+			name: 'LaTeX',
+			value: 'latex',
+			description: 'Inline math as $...$ and display math as $$...$$',
+		},
+		{
+			name: 'Placeholder',
+			value: 'placeholder',
+			description: 'Replace equations with an [Equation] marker',
+		},
+	],
+	default: 'latex',
+	description: 'How equations (Word equations, MathML) are represented in the output',
+};
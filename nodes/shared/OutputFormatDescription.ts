@@ -0,0 +1,47 @@
+import type { INodeProperties } from 'n8n-workflow';
+
+/**
+ * Output format shared by the Markdown-producing nodes
+ */
+export const outputFormatProperty: INodeProperties = {
+	displayName: 'Output Format',
+	name: 'outputFormat',
+	type: 'options',
+	options: [
+		{
+			name: 'CommonMark',
+			value: 'commonmark',
+			description: 'Markdown without GitHub extensions: tables and strikethrough as HTML',
+		},
+		{
+			name: 'HTML',
+			value: 'html',
+			description: 'The clean HTML the Markdown is converted from',
+		},
+		{
+			name: 'Jira Wiki Markup',
+			value: 'jira',
+		},
+		{
+			name: 'Markdown (GitHub-Flavored)',
+			value: 'markdown',
+		},
+		{
+			name: 'Obsidian Markdown',
+			value: 'obsidian',
+			description: 'Local images as ![[embeds]] and heading links as [[#wikilinks]]',
+		},
+		{
+			name: 'Plain Text',
+			value: 'plainText',
+			description: 'Text without markup, e.g. for embeddings or SMS',
+		},
+		{
+			name: 'Slack Mrkdwn',
+			value: 'slack',
+		},
+	],
+	default: 'markdown',
+	description:
+		'Format to render the converted document in. Binary output files get the matching extension and MIME type.',
+};
@@ -0,0 +1,134 @@
+import type { IDataObject, IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import type {
+	ChunkSizeUnit,
+	MarkdownChunk,
+	SplitMode,
+	SplitOptions,
+} from '../../lib/markdownChunks';
+
+/**
+ * "Split Output" parameters shared by the Markdown-producing nodes
+ */
+export const splitOutputProperties: INodeProperties[] = [
+	{
+		displayName: 'Split Output',
+		name: 'splitOutput',
+		type: 'options',
+		options: [
+			{
+				name: 'By Heading',
+				value: 'heading',
+				description: 'Start a new chunk at every heading of the selected level or above',
+			},
+			{
+				name: 'By Heading and Size',
+				value: 'both',
+				description: 'Split at headings, then split large sections by size',
+			},
+			{
+				name: 'By Size',
+				value: 'size',
+				description: 'Split by maximum chunk size with optional overlap',
+			},
+			{
+				name: "Don't Split",
+				value: 'none',
+				description: 'Emit the whole Markdown as a single item',
+			},
+		],
+		default: 'none',
+		description:
+			'Whether to emit one item per Markdown chunk, e.g. for vector store ingestion. Code blocks, tables and list items are never split.',
+	},
+	{
+		displayName: 'Heading Level',
+		name: 'splitHeadingLevel',
+		type: 'number',
+		typeOptions: { minValue: 1, maxValue: 6 },
+		default: 2,
+		displayOptions: { show: { splitOutput: ['heading', 'both'] } },
+		description: 'Headings at this level or above (e.g. 2 for H1 and H2) start a new chunk',
+	},
+	{
+		displayName: 'Chunk Size Unit',
+		name: 'chunkSizeUnit',
+		type: 'options',
+		options: [
+			{ name: 'Characters', value: 'characters' },
+			{ name: 'Tokens (Approximate)', value: 'tokens' },
+		],
+		default: 'characters',
+		displayOptions: { show: { splitOutput: ['size', 'both'] } },
+	},
+	{
+		displayName: 'Max Chunk Size',
+		name: 'chunkSize',
+		type: 'number',
+		typeOptions: { minValue: 1 },
+		default: 2000,
+		displayOptions: { show: { splitOutput: ['size', 'both'] } },
+		description:
+			'Maximum size of a chunk. Code blocks, tables and list items larger than this are kept whole.',
+	},
+	{
+		displayName: 'Chunk Overlap',
+		name: 'chunkOverlap',
+		type: 'number',
+		typeOptions: { minValue: 0 },
+		default: 200,
+		displayOptions: { show: { splitOutput: ['size', 'both'] } },
+		description:
+			'Amount of trailing content from the previous chunk repeated at the start of the next',
+	},
+];
+
+/**
+ * Reads the "Split Output" parameters, undefined when output is not split
+ */
+export function getSplitOptions(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): SplitOptions | undefined {
+	const mode = context.getNodeParameter('splitOutput', itemIndex, 'none') as SplitMode | 'none';
+	if (mode === 'none') return undefined;
+
+	const options: SplitOptions = { mode };
+	if (mode !== 'size') {
+		options.headingLevel = context.getNodeParameter('splitHeadingLevel', itemIndex, 2) as number;
+	}
+	if (mode !== 'heading') {
+		options.unit = context.getNodeParameter(
+			'chunkSizeUnit',
+			itemIndex,
+			'characters',
+		) as ChunkSizeUnit;
+		options.maxSize = context.getNodeParameter('chunkSize', itemIndex, 2000) as number;
+		options.overlap = context.getNodeParameter('chunkOverlap', itemIndex, 200) as number;
+	}
+	return options;
+}
+
+/**
+ * Fields added to every chunk item
+ */
+export function chunkFields(chunk: MarkdownChunk, sourceFileName?: string): IDataObject {
+	return {
+		index: chunk.index,
+		total: chunk.total,
+		headingPath: chunk.headingPath,
+		sourceFileName: sourceFileName ?? null,
+		startOffset: chunk.startOffset,
+		endOffset: chunk.endOffset,
+	};
+}
+
+/**
+ * Output filename of a chunk: document.md becomes document_1.md, document_2.md, ...
+ */
+export function chunkFilename(fileName: string, chunk: MarkdownChunk): string {
+	const dot = fileName.lastIndexOf('.');
+	const base = dot > 0 ? fileName.slice(0, dot) : fileName;
+	const extension = dot > 0 ? fileName.slice(dot) : '';
+	return `${base}_${chunk.index + 1}${extension}`;
+}
@@ -0,0 +1,68 @@
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import type { TocOptions } from '../../lib/toc';
+
+/**
+ * Table of contents parameters shared by the Markdown-producing nodes
+ */
+export const tocProperties: INodeProperties[] = [
+	{
+		displayName: 'Strip Word Table of Contents',
+		name: 'stripWordToc',
+		type: 'boolean',
+		default: false,
+		description:
+			'Whether to remove the table of contents generated by Word (links to _Toc bookmarks with page numbers)',
+	},
+	{
+		displayName: 'Generate Table of Contents',
+		name: 'generateToc',
+		type: 'boolean',
+		default: false,
+		description: 'Whether to add a Markdown table of contents linking to the headings',
+	},
+	{
+		displayName: 'Table of Contents Depth',
+		name: 'tocDepth',
+		type: 'number',
+		typeOptions: { minValue: 1, maxValue: 6 },
+		default: 3,
+		displayOptions: { show: { generateToc: [true] } },
+		description: 'Deepest heading level listed in the table of contents',
+	},
+	{
+		displayName: 'Table of Contents Position',
+		name: 'tocPosition',
+		type: 'options',
+		options: [
+			{
+				name: 'At [TOC] Marker',
+				value: 'marker',
+				description: 'Replace a [TOC] line in the document, or insert at the top if there is none',
+			},
+			{
+				name: 'Top of Document',
+				value: 'top',
+			},
+		],
+		default: 'top',
+		displayOptions: { show: { generateToc: [true] } },
+	},
+];
+
+/**
+ * Reads the table of contents parameters
+ */
+export function getTocOptions(context: IExecuteFunctions, itemIndex: number): TocOptions {
+	const options: TocOptions = {
+		stripWordToc: context.getNodeParameter('stripWordToc', itemIndex, false) as boolean,
+		generate: context.getNodeParameter('generateToc', itemIndex, false) as boolean,
+	};
+	if (options.generate) {
+		options.maxDepth = context.getNodeParameter('tocDepth', itemIndex, 3) as number;
+		options.position = context.getNodeParameter('tocPosition', itemIndex, 'top') as
+			| 'top'
+			| 'marker';
+	}
+	return options;
+}
@@ -0,0 +1,75 @@
+import type { IExecuteFunctions, INodeProperties } from 'n8n-workflow';
+
+import type {
+	TruncationOptions,
+	TruncationStrategy,
+	TruncationUnit,
+} from '../../lib/markdownTruncation';
+
+/**
+ * Output length limit shared by the Markdown-producing nodes
+ */
+export const truncationProperties: INodeProperties[] = [
+	{
+		displayName: 'Max Length',
+		name: 'maxLength',
+		type: 'number',
+		typeOptions: { minValue: 0 },
+		default: 0,
+		description:
+			'Maximum length of output (0 = no limit). Longer output is cut at block boundaries and the cut is marked with "…".',
+	},
+	{
+		displayName: 'Max Length Unit',
+		name: 'truncationUnit',
+		type: 'options',
+		options: [
+			{ name: 'Characters', value: 'characters' },
+			{ name: 'Tokens (Approximate)', value: 'tokens' },
+			{ name: 'Words', value: 'words' },
+		],
+		default: 'characters',
+	},
+	{
+		displayName: 'Truncation Strategy',
+		name: 'truncationStrategy',
+		type: 'options',
+		options: [
+			{
+				name: 'Head',
+				value: 'head',
+				description: 'Keep the beginning of the document',
+			},
+			{
+				name: 'Head and Tail',
+				value: 'headTail',
+				description: 'Keep the beginning and the end, e.g. the introduction and the conclusion',
+			},
+			{
+				name: 'Summary of Sections',
+				value: 'sections',
+				description: 'Keep every heading with the first paragraphs of its section',
+			},
+		],
+		default: 'head',
+		description: 'Which part of the document to keep when it is longer than the maximum length',
+	},
+];
+
+/**
+ * Reads the length limit parameters; a max length of 0 means no limit
+ */
+export function getTruncationOptions(
+	context: IExecuteFunctions,
+	itemIndex: number,
+): TruncationOptions {
+	return {
+		maxSize: context.getNodeParameter('maxLength', itemIndex, 0) as number,
+		unit: context.getNodeParameter('truncationUnit', itemIndex, 'characters') as TruncationUnit,
+		strategy: context.getNodeParameter(
+			'truncationStrategy',
+			itemIndex,
+			'head',
+		) as TruncationStrategy,
+	};
+}
@@ -0,0 +1,45 @@
+import type { NodeOperationError } from 'n8n-workflow';
+
+import { MarkdownToDocx } from '../nodes/MarkdownToDocx/MarkdownToDocx.node';
+import { executeNode } from './helpers';
+
+const PNG = Buffer.from(
+	'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+	'base64',
+);
+
+describe('MarkdownToDocx', () => {
+	it('resolves images from binary properties, with a literal % in the file name', async () => {
+		const [[output]] = await executeNode(new MarkdownToDocx(), {}, [
+			{
+				json: { markdown: '![Half](50%.png) and ![Space](my%20chart.png)' },
+				binary: {
+					half: { data: PNG.toString('base64'), fileName: '50%.png', mimeType: 'image/png' },
+					space: { data: PNG.toString('base64'), fileName: 'my chart.png', mimeType: 'image/png' },
+				},
+			},
+		]);
+		expect(output.json.warnings).toEqual([]);
+		expect(output.binary!.data.fileName).toBe('document.docx');
+	});
+
+	it('reports item errors with a code and continues on fail', async () => {
+		const output = await executeNode(
+			new MarkdownToDocx(),
+			{},
+			[{ json: { markdown: 5 } }, { json: { markdown: '# Fine' } }],
+			true,
+		);
+		expect(output[0]).toHaveLength(2);
+		expect(output[0][0].json.error).toMatchObject({ code: 'NO_MARKDOWN_CONTENT', itemIndex: 0 });
+		expect(output[0][0].pairedItem).toEqual({ item: 0 });
+		expect(output[0][1].binary!.data).toBeDefined();
+	});
+
+	it('throws item errors without continue on fail', async () => {
+		const error = await executeNode(new MarkdownToDocx(), { inputMode: 'binary' }, [
+			{ json: {} },
+		]).catch((caught: NodeOperationError) => caught);
+		expect((error as NodeOperationError).context.code).toBe('BINARY_PROPERTY_NOT_FOUND');
+	});
+});
@@ -0,0 +1,46 @@
+import JSZip from 'jszip';
+import type { NodeOperationError } from 'n8n-workflow';
+
+import { OfficeToMarkdown } from '../nodes/OfficeToMarkdown/OfficeToMarkdown.node';
+import { binaryItem, createDocx, executeNode } from './helpers';
+
+describe('OfficeToMarkdown', () => {
+	it('converts a Word document', async () => {
+		const docx = await createDocx('<w:p><w:r><w:t>Hello</w:t></w:r></w:p>');
+		const [[output]] = await executeNode(new OfficeToMarkdown(), {}, [binaryItem(docx, 'a.docx')]);
+		expect(output.json.markdown).toBe('Hello');
+	});
+
+	it('applies the size limits before converting', async () => {
+		const zip = await JSZip.loadAsync(await createDocx('<w:p/>'));
+		zip.file('word/media/padding.bin', Buffer.alloc(20 * 1024 * 1024));
+		const bomb = await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+		const rtf = Buffer.from('{\\rtf1 Hello}');
+
+		const output = await executeNode(
+			new OfficeToMarkdown(),
+			{ maxUncompressedSize: 5, maxFileSize: 0.000001 },
+			[binaryItem(bomb, 'a.docx'), binaryItem(rtf, 'a.rtf')],
+			true,
+		);
+		expect(output[0].map((item) => (item.json.error as { code: string }).code)).toEqual([
+			'FILE_TOO_LARGE',
+			'FILE_TOO_LARGE',
+		]);
+
+		const [[item]] = await executeNode(
+			new OfficeToMarkdown(),
+			{ maxUncompressedSize: 5 },
+			[binaryItem(bomb, 'a.docx')],
+			true,
+		);
+		expect(item.json.error).toMatchObject({ code: 'UNCOMPRESSED_TOO_LARGE', fileName: 'a.docx' });
+	});
+
+	it('reports unknown formats with a code', async () => {
+		const error = await executeNode(new OfficeToMarkdown(), {}, [
+			binaryItem(Buffer.from('hello'), 'x.bin'),
+		]).catch((caught: NodeOperationError) => caught);
+		expect((error as NodeOperationError).context.code).toBe('UNSUPPORTED_FORMAT');
+	});
+});
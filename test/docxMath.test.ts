@@ -0,0 +1,45 @@
+import { JSDOM } from 'jsdom';
+
+import { M_NS, ommlToMathml } from '../lib/docxMath';
+import { parseXml } from '../lib/docxPackage';
+import { mathmlToLatex } from '../lib/mathml';
+
+const run = (text: string, style?: string) =>
+	`<m:r>${style ? `<m:rPr><m:sty m:val="${style}"/></m:rPr>` : ''}<m:t>${text}</m:t></m:r>`;
+
+function convert(omml: string): { mathml: string; latex: string } {
+	const oMath = parseXml(`<m:oMath xmlns:m="${M_NS}">${omml}</m:oMath>`).documentElement;
+	const mathml = ommlToMathml(oMath);
+	const math = new JSDOM(mathml).window.document.querySelector('math')!;
+	return { mathml, latex: mathmlToLatex(math) };
+}
+
+describe('ommlToMathml', () => {
+	it('converts scripts and fractions', () => {
+		const { latex } = convert(
+			`<m:sSup><m:e>${run('x')}</m:e><m:sup>${run('2')}</m:sup></m:sSup>${run('+')}` +
+				`<m:f><m:num>${run('1')}</m:num><m:den>${run('2')}</m:den></m:f>`,
+		);
+		expect(latex).toBe('x^{2}+\\frac{1}{2}');
+	});
+
+	it.each([
+		['with plain style', run('sin', 'p')],
+		['without a style', run('sin')],
+		['split over runs', run('s') + run('in', 'p')],
+	])('treats a function name %s as one upright identifier', (_, name) => {
+		const { mathml, latex } = convert(
+			`<m:func><m:fName>${name}</m:fName><m:e>${run('x')}</m:e></m:func>`,
+		);
+		expect(mathml).toContain('<mi mathvariant="normal">sin</mi>');
+		expect(latex).toBe('\\sin x');
+	});
+
+	it('keeps the structure inside a function name', () => {
+		const { latex } = convert(
+			`<m:func><m:fName><m:limLow><m:e>${run('lim', 'p')}</m:e><m:lim>${run('n→∞')}</m:lim>` +
+				`</m:limLow></m:fName><m:e>${run('a')}</m:e></m:func>`,
+		);
+		expect(latex).toBe('\\lim_{n\\rightarrow\\infty}a');
+	});
+});
@@ -0,0 +1,92 @@
+import JSZip from 'jszip';
+
+import { DocxValidationError, validateDocx, validatePackageLimits } from '../lib/docxValidation';
+import { createDocx } from './helpers';
+
+const MB = 1024 * 1024;
+
+/**
+ * A document with 20 MB of zeros, which deflate to a few kilobytes
+ */
+async function createZipBomb(): Promise<Buffer> {
+	const zip = await JSZip.loadAsync(await createDocx('<w:p/>'));
+	zip.file('word/media/padding.bin', Buffer.alloc(20 * MB));
+	return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Rewrites the uncompressed size of every central directory entry, as a
+ * crafted zip bomb would
+ */
+function forgeSizes(buffer: Buffer): Buffer {
+	const forged = Buffer.from(buffer);
+	for (let offset = 0; offset < forged.length - 4; offset++) {
+		if (forged.readUInt32LE(offset) === 0x02014b50) forged.writeUInt32LE(1000, offset + 24);
+	}
+	return forged;
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+	try {
+		await promise;
+		return undefined;
+	} catch (error) {
+		expect(error).toBeInstanceOf(DocxValidationError);
+		return (error as DocxValidationError).code;
+	}
+}
+
+describe('validateDocx', () => {
+	it('accepts a Word document', async () => {
+		const result = await validateDocx(await createDocx('<w:p/>'));
+		expect(result.variant).toBe('docx');
+		expect(result.uncompressedSize).toBeGreaterThan(0);
+	});
+
+	it('rejects empty and oversized files', async () => {
+		expect(await errorCode(validateDocx(Buffer.alloc(0)))).toBe('EMPTY_FILE');
+		expect(await errorCode(validateDocx(await createDocx('<w:p/>'), { maxFileSize: 100 }))).toBe(
+			'FILE_TOO_LARGE',
+		);
+	});
+
+	it('rejects a zip bomb', async () => {
+		const bomb = await createZipBomb();
+		expect(await errorCode(validateDocx(bomb, { maxUncompressedSize: 5 * MB }))).toBe(
+			'UNCOMPRESSED_TOO_LARGE',
+		);
+	});
+
+	it('measures the unpacked size instead of trusting the ZIP headers', async () => {
+		const bomb = forgeSizes(await createZipBomb());
+		expect(await errorCode(validateDocx(bomb, { maxUncompressedSize: 5 * MB }))).toBe(
+			'UNCOMPRESSED_TOO_LARGE',
+		);
+	});
+
+	it('tells legacy and non-Word files apart', async () => {
+		const legacy = Buffer.concat([
+			Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]),
+			Buffer.alloc(512),
+			Buffer.from('WordDocument', 'utf16le'),
+		]);
+		expect(await errorCode(validateDocx(legacy))).toBe('LEGACY_DOC');
+		expect(await errorCode(validateDocx(Buffer.from('plain text')))).toBe('UNSUPPORTED_FORMAT');
+	});
+});
+
+describe('validatePackageLimits', () => {
+	it('applies the file size limit to any format', async () => {
+		const rtf = Buffer.from('{\\rtf1 Hello}');
+		await expect(validatePackageLimits(rtf, { maxFileSize: 1 * MB })).resolves.toBeUndefined();
+		expect(await errorCode(validatePackageLimits(rtf, { maxFileSize: 5 }))).toBe('FILE_TOO_LARGE');
+	});
+
+	it('applies the unpacked size limit to ZIP packages', async () => {
+		const bomb = forgeSizes(await createZipBomb());
+		expect(await errorCode(validatePackageLimits(bomb, { maxUncompressedSize: 5 * MB }))).toBe(
+			'UNCOMPRESSED_TOO_LARGE',
+		);
+		await expect(validatePackageLimits(bomb, {})).resolves.toBeUndefined();
+	});
+});
@@ -0,0 +1,86 @@
+import JSZip from 'jszip';
+import type { IDataObject, IExecuteFunctions, INodeExecutionData, INodeType } from 'n8n-workflow';
+
+const W_NAMESPACES =
+	'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+	'xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"';
+
+/**
+ * Builds a minimal .docx whose body holds the given WordprocessingML
+ */
+export async function createDocx(
+	body: string,
+	files: Record<string, Buffer> = {},
+): Promise<Buffer> {
+	const zip = new JSZip();
+	zip.file(
+		'[Content_Types].xml',
+		'<?xml version="1.0" encoding="UTF-8"?>' +
+			'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+			'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+			'<Default Extension="xml" ContentType="application/xml"/>' +
+			'<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>' +
+			'</Types>',
+	);
+	zip.file(
+		'_rels/.rels',
+		'<?xml version="1.0" encoding="UTF-8"?>' +
+			'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+			'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>' +
+			'</Relationships>',
+	);
+	zip.file(
+		'word/document.xml',
+		`<?xml version="1.0" encoding="UTF-8"?><w:document ${W_NAMESPACES}><w:body>${body}</w:body></w:document>`,
+	);
+	for (const [name, data] of Object.entries(files)) zip.file(name, data);
+	return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Runs a node's execute() against the given items. Parameters that are not
+ * given take their default from the node description.
+ */
+export async function executeNode(
+	node: INodeType,
+	parameters: IDataObject,
+	items: INodeExecutionData[],
+	continueOnFail = false,
+): Promise<INodeExecutionData[][]> {
+	const context = {
+		getInputData: () => items,
+		getNodeParameter: (name: string, _itemIndex: number, fallback?: unknown) => {
+			if (name in parameters) return parameters[name];
+			if (fallback !== undefined) return fallback;
+			const property = node.description.properties.find((candidate) => candidate.name === name);
+			if (!property) throw new Error(`Unknown parameter ${name}`);
+			return property.default;
+		},
+		getNode: () => ({
+			id: 'test',
+			name: node.description.displayName,
+			type: node.description.name,
+			typeVersion: 1,
+			position: [0, 0],
+			parameters: {},
+		}),
+		continueOnFail: () => continueOnFail,
+		helpers: {
+			getBinaryDataBuffer: async (itemIndex: number, propertyName: string) =>
+				Buffer.from(items[itemIndex].binary![propertyName].data, 'base64'),
+			prepareBinaryData: async (data: Buffer, fileName?: string, mimeType?: string) => ({
+				data: data.toString('base64'),
+				fileName,
+				mimeType,
+			}),
+		},
+	} as unknown as IExecuteFunctions;
+	return (await node.execute!.call(context)) as INodeExecutionData[][];
+}
+
+/**
+ * Input item carrying a file in its `data` binary property
+ */
+export function binaryItem(data: Buffer, fileName: string, mimeType = ''): INodeExecutionData {
+	return { json: {}, binary: { data: { data: data.toString('base64'), fileName, mimeType } } };
+}
@@ -0,0 +1,78 @@
+import { splitMarkdown } from '../lib/markdownChunks';
+
+const paragraph = (sentences: number) =>
+	Array.from({ length: sentences }, (_, i) => `Sentence number ${i} goes here.`).join(' ');
+
+const markdown = `---
+title: Doc
+author: Ann
+---
+
+# Title
+
+${paragraph(12)}
+
+## Second
+
+${paragraph(3)}
+
+${paragraph(4)}
+
+${paragraph(5)}`;
+
+describe('splitMarkdown', () => {
+	it('keeps the front matter with the first chunk', () => {
+		for (const chunks of [
+			splitMarkdown(markdown, { mode: 'heading' }),
+			splitMarkdown(markdown, { mode: 'both', maxSize: 200, overlap: 50 }),
+			splitMarkdown(markdown, { mode: 'size', maxSize: 150, overlap: 40 }),
+		]) {
+			expect(chunks[0].text.startsWith('---\ntitle: Doc\nauthor: Ann\n---\n\n# Title\n\n')).toBe(
+				true,
+			);
+			expect(chunks[0].headingPath).toEqual(['Title']);
+			expect(chunks.slice(1).some((chunk) => chunk.text.includes('title: Doc'))).toBe(false);
+		}
+	});
+
+	it('splits at headings', () => {
+		const chunks = splitMarkdown(markdown, { mode: 'heading' });
+		expect(chunks).toHaveLength(2);
+		expect(chunks[1].text.startsWith('## Second')).toBe(true);
+		expect(chunks[1].headingPath).toEqual(['Title', 'Second']);
+	});
+
+	it.each([
+		{ mode: 'both' as const, maxSize: 200, overlap: 50 },
+		{ mode: 'size' as const, maxSize: 150, overlap: 40 },
+		{ mode: 'size' as const, maxSize: 60, overlap: 0 },
+	])('fits every chunk, overlap included, into maxSize ($mode, $maxSize)', (options) => {
+		const chunks = splitMarkdown(markdown, options);
+		expect(chunks.length).toBeGreaterThan(1);
+		for (const chunk of chunks) expect(chunk.text.length).toBeLessThanOrEqual(options.maxSize);
+	});
+
+	it('repeats the end of a split paragraph at the start of the next chunk', () => {
+		const chunks = splitMarkdown(`# Title\n\n${paragraph(12)}`, {
+			mode: 'size',
+			maxSize: 150,
+			overlap: 40,
+		});
+		expect(chunks.length).toBeGreaterThan(2);
+		for (let i = 1; i < chunks.length; i++) {
+			const start = chunks[i].text.slice(0, 20);
+			expect(chunks[i - 1].text).toContain(start);
+			// The overlap starts at a word
+			expect(start).toMatch(/^\S/);
+			expect(chunks[i].startOffset).toBeLessThan(chunks[i - 1].endOffset);
+		}
+	});
+
+	it('numbers the chunks', () => {
+		const chunks = splitMarkdown(markdown, { mode: 'size', maxSize: 150 });
+		chunks.forEach((chunk, index) => {
+			expect(chunk.index).toBe(index);
+			expect(chunk.total).toBe(chunks.length);
+		});
+	});
+});
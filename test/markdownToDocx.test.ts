@@ -0,0 +1,65 @@
+import JSZip from 'jszip';
+
+import { markdownToDocx } from '../lib/markdownToDocx';
+
+async function readPart(buffer: Buffer, name: string): Promise<string> {
+	const zip = await JSZip.loadAsync(buffer);
+	return zip.file(name)!.async('string');
+}
+
+const PNG = Buffer.from(
+	'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+	'base64',
+);
+
+describe('markdownToDocx', () => {
+	it('uses the front matter as document properties instead of body text', async () => {
+		const { buffer } = await markdownToDocx(
+			'---\ntitle: "Quarterly: Report"\nauthor: Ann\nkeywords:\n  - alpha\n  - beta\n---\n\n# Heading',
+		);
+		const core = await readPart(buffer, 'docProps/core.xml');
+		expect(core).toContain('<dc:title>Quarterly: Report</dc:title>');
+		expect(core).toContain('<dc:creator>Ann</dc:creator>');
+		expect(core).toContain('<cp:keywords>alpha, beta</cp:keywords>');
+
+		const document = await readPart(buffer, 'word/document.xml');
+		expect(document).not.toContain('author:');
+		expect(document).toContain('Heading');
+	});
+
+	it('turns footnotes into Word footnotes', async () => {
+		const { buffer, warnings } = await markdownToDocx(
+			'Text with a note[^1].\n\n[^1]: The note\n    with continuation.',
+		);
+		expect(warnings).toEqual([]);
+
+		const document = await readPart(buffer, 'word/document.xml');
+		expect(document).toMatch(/<w:footnoteReference w:id="1"\/>/);
+		expect(document).not.toContain('[^1]');
+
+		const footnotes = await readPart(buffer, 'word/footnotes.xml');
+		expect(footnotes).toContain('The note');
+		expect(footnotes).toContain('with continuation.');
+	});
+
+	it('embeds images found by resolveImage', async () => {
+		const sources: string[] = [];
+		const { buffer, warnings } = await markdownToDocx('![Chart](chart.png)', {
+			resolveImage: async (src) => {
+				sources.push(src);
+				return { data: PNG, contentType: 'image/png' };
+			},
+		});
+		expect(sources).toEqual(['chart.png']);
+		expect(warnings).toEqual([]);
+		const zip = await JSZip.loadAsync(buffer);
+		expect(Object.keys(zip.files).some((name) => name.startsWith('word/media/'))).toBe(true);
+	});
+
+	it('warns about images it cannot resolve', async () => {
+		const { warnings } = await markdownToDocx('![Chart](missing.png)');
+		expect(warnings).toEqual([
+			'Image "missing.png" could not be resolved, replaced with its alt text',
+		]);
+	});
+});
@@ -0,0 +1,70 @@
+import { truncateMarkdown } from '../lib/markdownTruncation';
+
+const FRONT_MATTER = '---\ntitle: "Report"\nauthor: "Ann"\n---';
+
+const markdown = `${FRONT_MATTER}
+
+# Intro
+
+First paragraph with a note[^1] and words words words words.
+
+Second paragraph[^2] with more text here to make it long enough for cutting.
+
+## Part
+
+Third paragraph[^e1] at the end of the document that is also long.
+
+[^1]: First note.
+
+[^2]: Second note
+    with continuation.
+
+    And a second paragraph.
+
+[^e1]: End note.`;
+
+describe('truncateMarkdown', () => {
+	it('returns short documents unchanged', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 10000 });
+		expect(result).toEqual({ markdown, truncated: false, originalLength: markdown.length });
+	});
+
+	it('keeps the front matter whole', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 170 });
+		expect(result.truncated).toBe(true);
+		expect(result.markdown.startsWith(`${FRONT_MATTER}\n\n# Intro`)).toBe(true);
+		expect(result.markdown.length).toBeLessThanOrEqual(170);
+	});
+
+	it('drops the front matter when it alone exceeds the limit', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 30 });
+		expect(result.markdown).not.toContain('---');
+		expect(result.markdown.startsWith('# Intro')).toBe(true);
+		expect(result.markdown.length).toBeLessThanOrEqual(30);
+	});
+
+	it('keeps the definitions of the kept footnote references only', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 170 });
+		expect(result.markdown).toContain('note[^1]');
+		expect(result.markdown.endsWith('[^1]: First note.')).toBe(true);
+		expect(result.markdown).not.toContain('[^2]');
+		expect(result.markdown).not.toContain('[^e1]');
+	});
+
+	it('keeps the definitions of references at the end with the sections strategy', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 250, strategy: 'sections' });
+		expect(result.markdown).toContain('Third paragraph[^e1]');
+		expect(result.markdown).toContain('[^e1]: End note.');
+		expect(result.markdown).not.toContain('[^2]: Second note');
+		expect(result.markdown.length).toBeLessThanOrEqual(250);
+	});
+
+	it('keeps the continuation paragraphs of a kept definition', () => {
+		const result = truncateMarkdown(markdown, { maxSize: 330 });
+		expect(result.markdown).toContain('Second paragraph[^2]');
+		expect(result.markdown).toContain(
+			'[^2]: Second note\n    with continuation.\n\n    And a second paragraph.',
+		);
+		expect(result.markdown.length).toBeLessThanOrEqual(330);
+	});
+});
@@ -0,0 +1,19 @@
+import { insertToc } from '../lib/toc';
+
+const TOC = '- [A](#a)';
+
+describe('insertToc', () => {
+	const markdown = '# A\n\n[TOC]\n\nText\n\n\\[TOC\\]\n\n## B\n\n[TOC]';
+
+	it('replaces the first marker and removes the others', () => {
+		expect(insertToc(markdown, TOC, 'marker')).toBe(`# A\n\n${TOC}\n\nText\n\n## B\n\n`);
+	});
+
+	it('removes every marker when the table of contents goes at the top', () => {
+		expect(insertToc(markdown, TOC, 'top')).toBe(`${TOC}\n\n# A\n\nText\n\n## B\n\n`);
+	});
+
+	it('falls back to the top without a marker', () => {
+		expect(insertToc('# A\n\nText', TOC, 'marker')).toBe(`${TOC}\n\n# A\n\nText`);
+	});
+});